@@ -37,6 +37,11 @@ function auth(req, res, next) {
     // If the token was tampered with or expired, it throws an error.
     const decoded = jwt.verify(token, process.env.JWT_SECRET);
 
+    // Refresh tokens are only good for POST /api/auth/refresh
+    if (decoded.type === 'refresh') {
+      return res.status(401).json({ error: 'Invalid or expired token.' });
+    }
+
     // Attach user data to the request object
     // Now any subsequent middleware or route handler can access req.user
     req.user = decoded;
@@ -0,0 +1,106 @@
+// ============================================================
+// SHIPPING — Shipping options by weight and distance, for orders
+// ============================================================
+// CONCEPT: Never trust prices from the browser
+//
+// Same zone rates and delivery math as the client's
+// ZoneRateShippingCalculator (src/app/services/
+// shipping-calculator.provider.ts) — keep the two in step.
+//
+//   - Zone = gap between the first ZIP digit of the warehouse
+//     and of the destination; AK/HI/PR add a remote surcharge
+//   - Weight over the included weight is charged per lb
+//   - Standard ships free once the order value reaches the
+//     threshold (not to remote states)
+// ============================================================
+
+// Ships from Chicago. Demo data — not a real carrier's prices.
+const US_SHIPPING_RATES = {
+  originZip: '60601',
+  freeThreshold: 50,
+  includedWeight: 2,
+  remoteStates: ['AK', 'HI', 'PR'],
+  remoteSurcharge: 10,
+  remoteExtraDays: 2,
+  methods: {
+    standard:  { base: 5.99,  perLb: 0.5, perZone: 0.4, minDays: 3, maxDays: 5, zoneDays: 3 },
+    expedited: { base: 12.99, perLb: 1,   perZone: 0.9, minDays: 2, maxDays: 3, zoneDays: 5 },
+    overnight: { base: 29.99, perLb: 2,   perZone: 1.5, minDays: 1, maxDays: 1, zoneDays: 0 }
+  }
+};
+
+// Used when a product has no weight on file
+const CATEGORY_WEIGHTS = {
+  Electronics: 1,
+  Clothing: 1.5,
+  Books: 1.5,
+  Home: 3
+};
+
+function round2(n) {
+  return Math.round(n * 100) / 100;
+}
+
+/** Shipping weight of one unit in lb */
+function unitWeight(product) {
+  return product.weight ?? CATEGORY_WEIGHTS[product.category] ?? 1;
+}
+
+/**
+ * Options for lines of { amount, weight } to a destination,
+ * as { method, cost, minDays, maxDays }.
+ */
+function shippingOptions(lines, destination, table = US_SHIPPING_RATES) {
+  const value = lines.reduce((sum, l) => sum + l.amount, 0);
+  const weight = lines.reduce((sum, l) => sum + l.weight, 0);
+  const zone = 1 + Math.abs(Number(destination.zip[0]) - Number(table.originZip[0]));
+  const remote = table.remoteStates.includes(destination.state);
+
+  const options = Object.entries(table.methods).map(([method, rate]) => {
+    const extraWeight = Math.max(0, weight - table.includedWeight);
+    const extraDays = (rate.zoneDays ? Math.floor((zone - 1) / rate.zoneDays) : 0)
+      + (remote ? table.remoteExtraDays : 0);
+    return {
+      method,
+      cost: round2(rate.base + rate.perLb * extraWeight + rate.perZone * (zone - 1)
+        + (remote ? table.remoteSurcharge : 0)),
+      minDays: rate.minDays + extraDays,
+      maxDays: rate.maxDays + extraDays
+    };
+  });
+
+  if (value >= table.freeThreshold && !remote) {
+    const standard = options.find(o => o.method === 'standard');
+    options.splice(options.indexOf(standard), 1, { ...standard, method: 'free', cost: 0 });
+  }
+  return options;
+}
+
+/**
+ * Delivery dates (YYYY-MM-DD) for an option, counting business
+ * days from the next business day after `from`.
+ */
+function deliveryWindow(option, from = new Date()) {
+  const dispatch = addBusinessDays(from, 1);
+  return {
+    earliest: toDateString(addBusinessDays(dispatch, option.minDays)),
+    latest: toDateString(addBusinessDays(dispatch, option.maxDays))
+  };
+}
+
+function addBusinessDays(from, days) {
+  const date = new Date(from);
+  while (days > 0) {
+    date.setDate(date.getDate() + 1);
+    const day = date.getDay();
+    if (day !== 0 && day !== 6) days--;
+  }
+  return date;
+}
+
+function toDateString(date) {
+  const pad = (n) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+module.exports = { US_SHIPPING_RATES, unitWeight, shippingOptions, deliveryWindow };
@@ -0,0 +1,144 @@
+// ============================================================
+// TAX — Sales tax by destination, for orders placed over HTTP
+// ============================================================
+// CONCEPT: Never trust prices from the browser
+//
+// The Angular app quotes tax for the checkout page, but the
+// order route recomputes it here before anything is stored.
+// This is the same rate table and math as the client's
+// RateTableTaxCalculator (src/app/services/
+// tax-calculator.provider.ts) — keep the two in step.
+//
+//   - A state's base rate, overridden by the longest ZIP
+//     prefix listed under that same state
+//   - Exempt categories per jurisdiction (e.g. clothing in PA)
+//   - Tax rounded to the cent per line, then summed
+// ============================================================
+
+const CLOTHING_EXEMPT = ['Clothing'];
+
+// Demo data — not for real tax filing
+const US_TAX_RATES = {
+  states: {
+    AL: { rate: 0.04, name: 'Alabama' },
+    AK: { rate: 0, name: 'Alaska' },
+    AZ: { rate: 0.056, name: 'Arizona' },
+    AR: { rate: 0.065, name: 'Arkansas' },
+    CA: { rate: 0.0725, name: 'California' },
+    CO: { rate: 0.029, name: 'Colorado' },
+    CT: { rate: 0.0635, name: 'Connecticut' },
+    DE: { rate: 0, name: 'Delaware' },
+    DC: { rate: 0.06, name: 'District of Columbia' },
+    FL: { rate: 0.06, name: 'Florida' },
+    GA: { rate: 0.04, name: 'Georgia' },
+    HI: { rate: 0.04, name: 'Hawaii' },
+    ID: { rate: 0.06, name: 'Idaho' },
+    IL: { rate: 0.0625, name: 'Illinois' },
+    IN: { rate: 0.07, name: 'Indiana' },
+    IA: { rate: 0.06, name: 'Iowa' },
+    KS: { rate: 0.065, name: 'Kansas' },
+    KY: { rate: 0.06, name: 'Kentucky' },
+    LA: { rate: 0.0445, name: 'Louisiana' },
+    ME: { rate: 0.055, name: 'Maine' },
+    MD: { rate: 0.06, name: 'Maryland' },
+    MA: { rate: 0.0625, name: 'Massachusetts' },
+    MI: { rate: 0.06, name: 'Michigan' },
+    MN: { rate: 0.06875, name: 'Minnesota', exemptCategories: CLOTHING_EXEMPT },
+    MS: { rate: 0.07, name: 'Mississippi' },
+    MO: { rate: 0.04225, name: 'Missouri' },
+    MT: { rate: 0, name: 'Montana' },
+    NE: { rate: 0.055, name: 'Nebraska' },
+    NV: { rate: 0.0685, name: 'Nevada' },
+    NH: { rate: 0, name: 'New Hampshire' },
+    NJ: { rate: 0.06625, name: 'New Jersey', exemptCategories: CLOTHING_EXEMPT },
+    NM: { rate: 0.04875, name: 'New Mexico' },
+    NY: { rate: 0.04, name: 'New York' },
+    NC: { rate: 0.0475, name: 'North Carolina' },
+    ND: { rate: 0.05, name: 'North Dakota' },
+    OH: { rate: 0.0575, name: 'Ohio' },
+    OK: { rate: 0.045, name: 'Oklahoma' },
+    OR: { rate: 0, name: 'Oregon' },
+    PA: { rate: 0.06, name: 'Pennsylvania', exemptCategories: CLOTHING_EXEMPT },
+    RI: { rate: 0.07, name: 'Rhode Island' },
+    SC: { rate: 0.06, name: 'South Carolina' },
+    SD: { rate: 0.042, name: 'South Dakota' },
+    TN: { rate: 0.07, name: 'Tennessee' },
+    TX: { rate: 0.0625, name: 'Texas' },
+    UT: { rate: 0.061, name: 'Utah' },
+    VT: { rate: 0.06, name: 'Vermont', exemptCategories: CLOTHING_EXEMPT },
+    VA: { rate: 0.053, name: 'Virginia' },
+    WA: { rate: 0.065, name: 'Washington' },
+    WV: { rate: 0.06, name: 'West Virginia' },
+    WI: { rate: 0.05, name: 'Wisconsin' },
+    WY: { rate: 0.04, name: 'Wyoming' }
+  },
+  zipPrefixes: {
+    CA: {
+      '900': { rate: 0.095, name: 'Los Angeles, CA' },
+      '902': { rate: 0.095, name: 'Los Angeles County, CA' },
+      '941': { rate: 0.08625, name: 'San Francisco, CA' }
+    },
+    NY: {
+      '100': { rate: 0.08875, name: 'New York City, NY' },
+      '101': { rate: 0.08875, name: 'New York City, NY' },
+      '102': { rate: 0.08875, name: 'New York City, NY' }
+    },
+    IL: {
+      '606': { rate: 0.1025, name: 'Chicago, IL' },
+      '627': { rate: 0.0975, name: 'Springfield, IL' }
+    },
+    TX: {
+      '770': { rate: 0.0825, name: 'Houston, TX' },
+      '787': { rate: 0.0825, name: 'Austin, TX' }
+    },
+    WA: {
+      '981': { rate: 0.1035, name: 'Seattle, WA' }
+    }
+  }
+};
+
+function round2(n) {
+  return Math.round(n * 100) / 100;
+}
+
+/** { state, zip } from "street, city, ST 12345" (how orders store addresses), or null */
+function parseDestination(address) {
+  const match = String(address).match(/,\s*([A-Za-z]{2})\s+(\d{5})\s*$/);
+  return match ? { state: match[1].toUpperCase(), zip: match[2] } : null;
+}
+
+/** The rate for a destination: ZIP prefix within the state, else the state's */
+function lookupRate(destination, table = US_TAX_RATES) {
+  const state = table.states[destination.state];
+  const prefixes = table.zipPrefixes[destination.state] || {};
+
+  for (let length = destination.zip.length; length > 0; length--) {
+    const local = prefixes[destination.zip.slice(0, length)];
+    if (local) {
+      // Local rates keep the state's exemptions unless they set their own
+      return { exemptCategories: state?.exemptCategories, ...local };
+    }
+  }
+  return state || { rate: 0, name: `${destination.state} (no rate on file)` };
+}
+
+/**
+ * Tax lines of { amount, category } for a destination.
+ * Returns { rate, jurisdiction, lineTaxes, tax }.
+ */
+function quoteTax(lines, destination, table = US_TAX_RATES) {
+  const rate = lookupRate(destination, table);
+  const exempt = new Set(rate.exemptCategories || []);
+
+  const lineTaxes = lines.map(line =>
+    line.category && exempt.has(line.category) ? 0 : round2(line.amount * rate.rate)
+  );
+  return {
+    rate: rate.rate,
+    jurisdiction: rate.name,
+    lineTaxes,
+    tax: round2(lineTaxes.reduce((sum, t) => sum + t, 0))
+  };
+}
+
+module.exports = { US_TAX_RATES, parseDestination, quoteTax };
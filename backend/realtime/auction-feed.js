@@ -0,0 +1,86 @@
+// ============================================================
+// AUCTION FEED — WebSocket relay for live auction events
+// ============================================================
+// CONCEPT: Push instead of polling
+//
+// Browsers open one WebSocket to /ws/auctions and tell the
+// server which auctions they're watching. New-auction, bid,
+// extension, end and cancel events are then pushed to every
+// other watcher.
+//
+// Messages are JSON:
+//
+//   client → server  { action: 'subscribe',   auctionId? }
+//                    { action: 'unsubscribe', auctionId? }
+//                    { action: 'publish',     event }
+//   server → client  { action: 'event',       event }
+//
+// Leaving out auctionId watches every auction (the list page).
+//
+// There are no /api/auctions routes yet, so clients publish
+// the events themselves and the server only relays them. The
+// Angular app treats an event as a hint to reload, never as
+// data to trust. Once the routes exist they should publish
+// through broadcast() instead.
+// ============================================================
+
+const { WebSocketServer, WebSocket } = require('ws');
+
+const EVENT_TYPES = ['created', 'bid', 'extended', 'ended', 'cancelled'];
+const ALL = '*';
+
+/** Subscription key for a message's auctionId (or every auction) */
+function keyFor(auctionId) {
+  return Number.isInteger(auctionId) ? String(auctionId) : ALL;
+}
+
+function isValidEvent(event) {
+  return !!event
+    && EVENT_TYPES.includes(event.type)
+    && Number.isInteger(event.auctionId)
+    && typeof event.auction === 'object';
+}
+
+function attachAuctionFeed(server) {
+  const wss = new WebSocketServer({ server, path: '/ws/auctions' });
+
+  // Send an event to everyone watching its auction, except the sender
+  function broadcast(event, sender) {
+    const message = JSON.stringify({ action: 'event', event });
+    for (const client of wss.clients) {
+      if (client === sender || client.readyState !== WebSocket.OPEN) continue;
+      if (client.watching.has(ALL) || client.watching.has(String(event.auctionId))) {
+        client.send(message);
+      }
+    }
+  }
+
+  wss.on('connection', (socket) => {
+    socket.watching = new Set();
+
+    socket.on('message', (data) => {
+      let message;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        return;  // Ignore anything that isn't JSON
+      }
+
+      switch (message?.action) {
+        case 'subscribe':
+          socket.watching.add(keyFor(message.auctionId));
+          break;
+        case 'unsubscribe':
+          socket.watching.delete(keyFor(message.auctionId));
+          break;
+        case 'publish':
+          if (isValidEvent(message.event)) broadcast(message.event, socket);
+          break;
+      }
+    });
+  });
+
+  return { broadcast: (event) => broadcast(event, null) };
+}
+
+module.exports = { attachAuctionFeed };
@@ -18,6 +18,12 @@
 //    Keep it minimal — don't put sensitive data in JWTs
 //    because anyone can decode them (they're just base64).
 //    The signature ensures they can't be tampered with.
+//
+// 4. Access + refresh tokens
+//    The access token is short-lived (15 minutes). Alongside it
+//    we hand out a 7-day refresh token ({ type: 'refresh' })
+//    that POST /api/auth/refresh trades for a fresh pair, so
+//    the client can renew silently instead of logging out.
 // ============================================================
 
 const express = require('express');
@@ -27,6 +33,29 @@ const jwt = require('jsonwebtoken');
 const pool = require('../config/db');
 const auth = require('../middleware/auth');
 
+const ACCESS_TOKEN_TTL = '15m';
+const REFRESH_TOKEN_TTL = '7d';
+
+// Sign an access token and a refresh token for a user row
+function issueTokens(user) {
+  const payload = { id: user.id, email: user.email, role: user.role };
+  return {
+    token: jwt.sign(payload, process.env.JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL }),
+    refreshToken: jwt.sign({ ...payload, type: 'refresh' }, process.env.JWT_SECRET, { expiresIn: REFRESH_TOKEN_TTL })
+  };
+}
+
+// Shape a user row for the client
+function toClientUser(user) {
+  return {
+    id: user.id,
+    email: user.email,
+    firstName: user.first_name,
+    lastName: user.last_name,
+    role: user.role
+  };
+}
+
 // ─── POST /api/auth/register ───────────────────────────────
 // Create a new user account
 router.post('/register', async (req, res) => {
@@ -65,22 +94,10 @@ router.post('/register', async (req, res) => {
 
     const user = result.rows[0];
 
-    // Create JWT token
-    const token = jwt.sign(
-      { id: user.id, email: user.email, role: user.role },
-      process.env.JWT_SECRET,
-      { expiresIn: '7d' }  // Token expires in 7 days
-    );
-
+    // Create access + refresh tokens
     res.status(201).json({
-      token,
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.first_name,
-        lastName: user.last_name,
-        role: user.role
-      }
+      ...issueTokens(user),
+      user: toClientUser(user)
     });
 
   } catch (err) {
@@ -119,22 +136,10 @@ router.post('/login', async (req, res) => {
       return res.status(401).json({ error: 'Invalid email or password.' });
     }
 
-    // Create JWT token
-    const token = jwt.sign(
-      { id: user.id, email: user.email, role: user.role },
-      process.env.JWT_SECRET,
-      { expiresIn: '7d' }
-    );
-
+    // Create access + refresh tokens
     res.json({
-      token,
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.first_name,
-        lastName: user.last_name,
-        role: user.role
-      }
+      ...issueTokens(user),
+      user: toClientUser(user)
     });
 
   } catch (err) {
@@ -143,6 +148,49 @@ router.post('/login', async (req, res) => {
   }
 });
 
+// ─── POST /api/auth/refresh ────────────────────────────────
+// Trade a valid refresh token for a new access + refresh pair
+router.post('/refresh', async (req, res) => {
+  const { refreshToken } = req.body;
+
+  if (!refreshToken) {
+    return res.status(401).json({ error: 'No refresh token provided.' });
+  }
+
+  let decoded;
+  try {
+    decoded = jwt.verify(refreshToken, process.env.JWT_SECRET);
+  } catch (err) {
+    return res.status(401).json({ error: 'Invalid or expired refresh token.' });
+  }
+
+  if (decoded.type !== 'refresh') {
+    return res.status(401).json({ error: 'Invalid or expired refresh token.' });
+  }
+
+  try {
+    // Re-read the user so role changes take effect on refresh
+    const result = await pool.query(
+      'SELECT id, email, first_name, last_name, role FROM users WHERE id = $1',
+      [decoded.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(401).json({ error: 'User no longer exists.' });
+    }
+
+    const user = result.rows[0];
+    res.json({
+      ...issueTokens(user),
+      user: toClientUser(user)
+    });
+
+  } catch (err) {
+    console.error('Refresh error:', err);
+    res.status(500).json({ error: 'Server error during token refresh.' });
+  }
+});
+
 // ─── GET /api/auth/me ──────────────────────────────────────
 // Get current logged-in user's info (requires auth)
 router.get('/me', auth, async (req, res) => {
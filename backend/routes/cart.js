@@ -0,0 +1,74 @@
+// ============================================================
+// CART ROUTES — The logged-in user's saved cart
+// ============================================================
+// AUTH: Both routes act on the caller's own cart (req.user).
+//
+// The cart is stored as the lines the Angular CartService
+// keeps: { productId, variantId?, quantity, price }. Saving it
+// here lets the cart follow the account across devices; the
+// app re-reads products on load, so prices and stock are
+// always checked again before anything is bought.
+// ============================================================
+
+const express = require('express');
+const router = express.Router();
+const pool = require('../config/db');
+const auth = require('../middleware/auth');
+
+const MAX_LINES = 100;
+
+/** The lines that make sense to store, or null if the body is malformed */
+function cleanLines(lines) {
+  if (!Array.isArray(lines) || lines.length > MAX_LINES) return null;
+  const cleaned = [];
+  for (const line of lines) {
+    const productId = Number(line?.productId);
+    const variantId = line?.variantId == null ? undefined : Number(line.variantId);
+    const quantity = Number(line?.quantity);
+    if (!Number.isInteger(productId) || !Number.isInteger(quantity) || quantity < 1) return null;
+    if (variantId !== undefined && !Number.isInteger(variantId)) return null;
+    cleaned.push({
+      productId,
+      variantId,
+      quantity,
+      price: Number(line.price) || 0
+    });
+  }
+  return cleaned;
+}
+
+// ─── GET /api/cart ─────────────────────────────────────────
+// Authenticated — The caller's saved cart (empty if none)
+router.get('/', auth, async (req, res) => {
+  try {
+    const result = await pool.query('SELECT lines FROM carts WHERE user_id = $1', [req.user.id]);
+    res.json({ lines: result.rows[0]?.lines ?? [] });
+  } catch (err) {
+    console.error('Get cart error:', err);
+    res.status(500).json({ error: 'Server error fetching cart.' });
+  }
+});
+
+// ─── PUT /api/cart ─────────────────────────────────────────
+// Authenticated — Replace the caller's saved cart
+// Body: { lines: [{ productId, variantId?, quantity, price }] }
+router.put('/', auth, async (req, res) => {
+  try {
+    const lines = cleanLines(req.body?.lines);
+    if (!lines) {
+      return res.status(400).json({ error: 'Cart lines must be an array of products and quantities.' });
+    }
+
+    await pool.query(
+      `INSERT INTO carts (user_id, lines, updated_at) VALUES ($1, $2, CURRENT_TIMESTAMP)
+       ON CONFLICT (user_id) DO UPDATE SET lines = EXCLUDED.lines, updated_at = CURRENT_TIMESTAMP`,
+      [req.user.id, JSON.stringify(lines)]
+    );
+    res.json({ lines });
+  } catch (err) {
+    console.error('Save cart error:', err);
+    res.status(500).json({ error: 'Server error saving cart.' });
+  }
+});
+
+module.exports = router;
@@ -10,52 +10,183 @@ const router = express.Router();
 const pool = require('../config/db');
 const auth = require('../middleware/auth');
 const admin = require('../middleware/admin');
+const { parseDestination, quoteTax } = require('../pricing/tax');
+const { deliveryWindow, shippingOptions, unitWeight } = require('../pricing/shipping');
+
+const PROCESSING_FEE = 0.99;
+
+function round2(n) {
+  return Math.round(n * 100) / 100;
+}
+
+/** "Size: M, Color: Blue" — same as variantLabel() in the client */
+function variantLabel(options) {
+  return Object.entries(options).map(([option, value]) => `${option}: ${value}`).join(', ');
+}
+
+/**
+ * Price each cart line from the database (a variant's own price
+ * if it has one). Returns { lines, missing } — missing names the
+ * lines whose product or variant no longer exists.
+ */
+async function priceLines(client, items) {
+  const productIds = [...new Set(items.map(item => item.productId))];
+  const variantIds = items.filter(item => item.variantId != null).map(item => item.variantId);
+
+  const products = await client.query(
+    'SELECT id, price, category, weight FROM products WHERE id = ANY($1::int[])',
+    [productIds]
+  );
+  const variants = await client.query(
+    'SELECT id, product_id, price FROM product_variants WHERE id = ANY($1::int[])',
+    [variantIds]
+  );
+  const productsById = new Map(products.rows.map(p => [p.id, p]));
+  const variantsById = new Map(variants.rows.map(v => [v.id, v]));
+
+  const lines = [];
+  const missing = [];
+  for (const item of items) {
+    const product = productsById.get(item.productId);
+    const variant = item.variantId != null ? variantsById.get(item.variantId) : null;
+    if (!product || (item.variantId != null && variant?.product_id !== item.productId)) {
+      missing.push(item.variantId != null ? `${item.productId} (variant ${item.variantId})` : item.productId);
+      continue;
+    }
+    lines.push({
+      ...item,
+      price: Number(variant?.price ?? product.price),
+      category: product.category,
+      weight: product.weight == null ? null : Number(product.weight)
+    });
+  }
+  return { lines, missing };
+}
 
 // ─── POST /api/orders ──────────────────────────────────────
 // Authenticated — Create a new order from cart items
+//
+// Prices, tax, shipping and fees are worked out here from the database
+// and the rate tables (../pricing) — never taken from the body.
+// The client sends the totals it showed the shopper; if they
+// no longer match, the order is refused with 409 so nobody is
+// charged an amount they didn't see.
 router.post('/', auth, async (req, res) => {
   const client = await pool.connect();
 
   try {
-    const { items, shippingAddress } = req.body;
-    // items = [{ productId, quantity, price }]
+    const {
+      items, shippingAddress, shippingMethod = 'standard',
+      subtotal: quotedSubtotal, tax: quotedTax, shippingCost: quotedShipping, fees: quotedFees
+    } = req.body;
+    // items = [{ productId, variantId?, quantity }]
 
-    if (!items || items.length === 0) {
+    if (!Array.isArray(items) || items.length === 0) {
       return res.status(400).json({ error: 'Order must contain at least one item.' });
     }
 
+    if (!items.every(item => Number.isInteger(item?.productId) && Number.isInteger(item?.quantity) && item.quantity > 0
+      && (item.variantId == null || Number.isInteger(item.variantId)))) {
+      return res.status(400).json({ error: 'Each item needs a product ID and a positive quantity.' });
+    }
+
     if (!shippingAddress) {
       return res.status(400).json({ error: 'Shipping address is required.' });
     }
 
+    const destination = parseDestination(shippingAddress);
+    if (!destination) {
+      return res.status(400).json({ error: 'Shipping address must end with a state and ZIP code.' });
+    }
+
     // Use a database transaction — if any step fails, ALL changes are rolled back
     await client.query('BEGIN');
 
-    // Calculate total
-    const total = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+    const { lines, missing } = await priceLines(client, items);
+    if (missing.length > 0) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({
+        error: `No longer available: product(s) ${missing.join(', ')}. Your cart has been updated.`
+      });
+    }
+
+    // Calculate totals
+    const subtotal = round2(lines.reduce((sum, line) => sum + line.price * line.quantity, 0));
+    const quote = quoteTax(lines.map(line => ({ amount: line.price * line.quantity, category: line.category })), destination);
+    const shipping = shippingOptions(
+      lines.map(line => ({ amount: line.price * line.quantity, weight: unitWeight(line) * line.quantity })),
+      destination
+    ).find(option => option.method === shippingMethod);
+    if (!shipping) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ error: 'That shipping method is not available for this address.' });
+    }
+    const window = deliveryWindow(shipping);
+    const fees = PROCESSING_FEE;
+    const total = round2(subtotal + quote.tax + shipping.cost + fees);
+
+    if (quotedSubtotal != null) {
+      const quotedTotal = round2(Number(quotedSubtotal) + Number(quotedTax) + Number(quotedShipping) + Number(quotedFees));
+      if (quotedTotal !== total) {
+        await client.query('ROLLBACK');
+        return res.status(409).json({
+          error: `Prices have changed: your order total is now $${total.toFixed(2)}. Please review your order.`
+        });
+      }
+    }
 
     // Create the order
     const orderResult = await client.query(
-      `INSERT INTO orders (user_id, total, shipping_address)
-       VALUES ($1, $2, $3)
+      `INSERT INTO orders (user_id, subtotal, tax, tax_rate, tax_jurisdiction, shipping_method, shipping_cost,
+                           delivery_earliest, delivery_latest, fees, total, shipping_address)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
        RETURNING *`,
-      [req.user.id, total, shippingAddress]
+      [req.user.id, subtotal, quote.tax, quote.rate, quote.jurisdiction, shipping.method, shipping.cost,
+       window.earliest, window.latest, fees, total, shippingAddress]
     );
     const order = orderResult.rows[0];
 
     // Insert each order item
-    for (const item of items) {
+    const shortages = [];
+    for (const [index, item] of lines.entries()) {
+      // A variant line takes the variant's stock and snapshots its SKU and options
+      let variant = null;
+      if (item.variantId != null) {
+        const variantResult = await client.query(
+          `UPDATE product_variants SET stock = stock - $1
+           WHERE id = $2 AND product_id = $3 AND stock >= $1
+           RETURNING sku, options`,
+          [item.quantity, item.variantId, item.productId]
+        );
+        variant = variantResult.rows[0];
+        if (!variant) {
+          shortages.push(`${item.productId} (variant ${item.variantId})`);
+          continue;
+        }
+      }
+
       await client.query(
-        `INSERT INTO order_items (order_id, product_id, quantity, price_at_purchase)
-         VALUES ($1, $2, $3, $4)`,
-        [order.id, item.productId, item.quantity, item.price]
+        `INSERT INTO order_items (order_id, product_id, quantity, price_at_purchase, tax, variant_id, variant_label, sku)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [order.id, item.productId, item.quantity, item.price, quote.lineTaxes[index],
+         variant ? item.variantId : null, variant ? variantLabel(variant.options) : null, variant?.sku ?? null]
       );
 
-      // Decrease product stock
-      await client.query(
-        'UPDATE products SET stock = stock - $1 WHERE id = $2',
+      // Decrease product stock — only if enough is left
+      const stockResult = await client.query(
+        'UPDATE products SET stock = stock - $1 WHERE id = $2 AND stock >= $1 RETURNING id',
         [item.quantity, item.productId]
       );
+      if (stockResult.rows.length === 0) {
+        shortages.push(item.productId);
+      }
+    }
+
+    if (shortages.length > 0) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({
+        error: `Not enough stock for product(s): ${shortages.join(', ')}. Your cart has been updated.`
+      });
     }
 
     await client.query('COMMIT');
@@ -132,11 +263,12 @@ router.get('/:id', auth, async (req, res) => {
       return res.status(403).json({ error: 'Access denied.' });
     }
 
-    // Get order items with product details
+    // Get order items with product details (a variant's own image if it has one)
     const itemsResult = await pool.query(
-      `SELECT oi.*, p.name, p.image, p.category
+      `SELECT oi.*, p.name, COALESCE(v.image, p.image) AS image, p.category
        FROM order_items oi
        LEFT JOIN products p ON oi.product_id = p.id
+       LEFT JOIN product_variants v ON oi.variant_id = v.id
        WHERE oi.order_id = $1`,
       [id]
     );
@@ -155,6 +287,8 @@ router.get('/:id', auth, async (req, res) => {
 // ─── PUT /api/orders/:id/status ────────────────────────────
 // Admin only — Update order status
 router.put('/:id/status', auth, admin, async (req, res) => {
+  const client = await pool.connect();
+
   try {
     const { id } = req.params;
     const { status } = req.body;
@@ -164,20 +298,48 @@ router.put('/:id/status', auth, admin, async (req, res) => {
       return res.status(400).json({ error: `Invalid status. Must be one of: ${validStatuses.join(', ')}` });
     }
 
-    const result = await pool.query(
+    await client.query('BEGIN');
+
+    const current = await client.query('SELECT status FROM orders WHERE id = $1 FOR UPDATE', [id]);
+    if (current.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Order not found.' });
+    }
+
+    const result = await client.query(
       'UPDATE orders SET status = $1 WHERE id = $2 RETURNING *',
       [status, id]
     );
 
-    if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'Order not found.' });
+    // Cancelling releases the reserved stock back to the products
+    // (and variants). Lines are summed first — several variants
+    // of one product are several lines.
+    if (status === 'cancelled' && current.rows[0].status !== 'cancelled') {
+      await client.query(
+        `UPDATE products p SET stock = p.stock + oi.quantity
+         FROM (SELECT product_id, SUM(quantity) AS quantity FROM order_items
+               WHERE order_id = $1 GROUP BY product_id) oi
+         WHERE oi.product_id = p.id`,
+        [id]
+      );
+      await client.query(
+        `UPDATE product_variants v SET stock = v.stock + oi.quantity
+         FROM (SELECT variant_id, SUM(quantity) AS quantity FROM order_items
+               WHERE order_id = $1 AND variant_id IS NOT NULL GROUP BY variant_id) oi
+         WHERE oi.variant_id = v.id`,
+        [id]
+      );
     }
 
+    await client.query('COMMIT');
     res.json(result.rows[0]);
 
   } catch (err) {
+    await client.query('ROLLBACK');
     console.error('Update order status error:', err);
     res.status(500).json({ error: 'Server error.' });
+  } finally {
+    client.release();
   }
 });
 
@@ -2,6 +2,7 @@
 // PRODUCT ROUTES — CRUD operations for products
 // ============================================================
 // PUBLIC:  GET /api/products, GET /api/products/:id
+// USERS:   PUT /api/products/:id/rating
 // ADMIN:   POST, PUT, DELETE /api/products
 //
 // CONCEPT: RESTful API Design
@@ -9,6 +10,12 @@
 // POST   = Create new resource
 // PUT    = Update existing resource
 // DELETE = Remove resource
+//
+// Products sold in sizes/colors have `options` (the axes) and
+// `variants` (rows of product_variants, one per combination).
+// Every product in a response carries its variants; POST/PUT
+// replace them with the ones sent, and a product with variants
+// has their total as its stock.
 // ============================================================
 
 const express = require('express');
@@ -16,56 +23,199 @@ const router = express.Router();
 const pool = require('../config/db');
 const auth = require('../middleware/auth');
 const admin = require('../middleware/admin');
+const { searchProducts } = require('../search/product-search');
+
+// Each product row's variants as a JSON array
+const VARIANTS_COLUMN = `COALESCE((
+  SELECT json_agg(json_build_object(
+    'id', v.id, 'sku', v.sku, 'options', v.options, 'price', v.price, 'stock', v.stock, 'image', v.image
+  ) ORDER BY v.id)
+  FROM product_variants v WHERE v.product_id = products.id
+), '[]') AS variants`;
+
+/** 400 message for an invalid variants array, or null */
+function validateVariants(variants) {
+  if (!Array.isArray(variants)) return 'Variants must be an array.';
+  if (variants.some(v => !v.sku || !v.options)) return 'Every variant needs a SKU and options.';
+  if (variants.some(v => !Number.isInteger(Number(v.stock)) || Number(v.stock) < 0)) {
+    return 'Variant stock must be a whole number of 0 or more.';
+  }
+  return null;
+}
+
+/**
+ * Replace a product's variants with the ones sent: rows with
+ * an ID of this product are updated, the rest inserted, and
+ * rows not sent are deleted. Stock becomes their total.
+ */
+async function saveVariants(client, productId, variants) {
+  const keep = variants.map(v => Number(v.id)).filter(Number.isInteger);
+  await client.query(
+    'DELETE FROM product_variants WHERE product_id = $1 AND NOT (id = ANY($2::int[]))',
+    [productId, keep]
+  );
+
+  for (const v of variants) {
+    const values = [v.sku, JSON.stringify(v.options), v.price ?? null, Number(v.stock), v.image || null];
+    const updated = await client.query(
+      `UPDATE product_variants SET sku = $1, options = $2, price = $3, stock = $4, image = $5
+       WHERE id = $6 AND product_id = $7`,
+      [...values, Number(v.id) || 0, productId]
+    );
+    if (updated.rowCount === 0) {
+      await client.query(
+        `INSERT INTO product_variants (sku, options, price, stock, image, product_id)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [...values, productId]
+      );
+    }
+  }
+
+  if (variants.length > 0) {
+    await client.query(
+      'UPDATE products SET stock = (SELECT SUM(stock) FROM product_variants WHERE product_id = $1) WHERE id = $1',
+      [productId]
+    );
+  }
+}
+
+/** A product with its variants */
+async function findProduct(client, id) {
+  const result = await client.query(`SELECT *, ${VARIANTS_COLUMN} FROM products WHERE id = $1`, [id]);
+  return result.rows[0];
+}
 
 // ─── GET /api/products ─────────────────────────────────────
 // Public — Get all products with optional filtering & pagination
-// Query params: ?search=, ?category=, ?page=, ?limit=
+// Query params: ?search=, ?category=, ?minPrice=, ?maxPrice=,
+// ?minRating=, ?inStock=true, ?sort=, ?page=, ?limit=
+// minPrice is inclusive and maxPrice exclusive, like the price bands
+// sort: relevance | price-asc | price-desc | rating | newest
+// (relevance is the default: best match first with a search
+// term, catalog order without one)
+//
+// search ranks products with search/product-search.js, the
+// same tokenizing, stemming and typo tolerance as the client's
+// searchProducts(). The ranked IDs then filter and order the
+// SQL like any other condition.
+//
+// The response also carries facet counts for the storefront
+// sidebar, over every match rather than just this page. Like
+// computeFacets() in the client, each facet applies the other
+// filters but not its own.
+const MAX_PAGE_SIZE = 100;
+const SORT_ORDERS = {
+  'price-asc': 'price ASC, id ASC',
+  'price-desc': 'price DESC, id ASC',
+  'rating': 'rating DESC, rating_count DESC, id ASC',
+  'newest': 'created_at DESC, id DESC'
+};
+
+// Same as PRICE_BANDS and RATING_THRESHOLDS in the client (product-search.ts)
+const PRICE_BANDS = [
+  { value: '0-25', label: 'Under $25', min: 0, max: 25 },
+  { value: '25-50', label: '$25 – $50', min: 25, max: 50 },
+  { value: '50-100', label: '$50 – $100', min: 50, max: 100 },
+  { value: '100-200', label: '$100 – $200', min: 100, max: 200 },
+  { value: '200-', label: '$200 & above', min: 200, max: null }
+];
+const RATING_THRESHOLDS = [4, 3, 2, 1];
+
+/**
+ * IDs of the products matching a search, best first, or null
+ * when there is no search term (everything matches)
+ */
+async function rankSearch(search) {
+  if (!search) return null;
+  const candidates = await pool.query('SELECT id, name, category, description, rating FROM products');
+  const hits = searchProducts(candidates.rows, search);
+  return hits && hits.map(hit => hit.product.id);
+}
+
+/**
+ * The query's filters as { facet, sql, value }. `?` in sql is
+ * the value's placeholder; facet names the filter a facet
+ * count leaves out (null = always applied).
+ */
+function listingFilters({ category, minPrice, maxPrice, minRating, inStock }, rankedIds) {
+  const filters = [];
+  if (rankedIds) filters.push({ facet: null, sql: 'id = ANY(?::int[])', value: rankedIds });
+  if (inStock === 'true') filters.push({ facet: null, sql: 'stock > 0' });
+  if (category) filters.push({ facet: 'category', sql: 'LOWER(category) = LOWER(?)', value: category });
+  if (minPrice) filters.push({ facet: 'price', sql: 'price >= ?', value: Number(minPrice) });
+  if (maxPrice) filters.push({ facet: 'price', sql: 'price < ?', value: Number(maxPrice) });
+  if (minRating) filters.push({ facet: 'rating', sql: 'rating >= ?', value: Number(minRating) });
+  return filters;
+}
+
+/** WHERE clause and params for the filters, leaving out one facet's own */
+function whereClause(filters, skip) {
+  const params = [];
+  const conditions = filters.filter(f => f.facet !== skip).map(f => {
+    if (f.value === undefined) return f.sql;
+    params.push(f.value);
+    return f.sql.replaceAll('?', `$${params.length}`);
+  });
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+/** Category, price band and rating counts for the sidebar */
+async function listingFacets(filters) {
+  const byCategory = whereClause(filters, 'category');
+  const byPrice = whereClause(filters, 'price');
+  const byRating = whereClause(filters, 'rating');
+
+  const bandCounts = PRICE_BANDS.map(band =>
+    `COUNT(*) FILTER (WHERE price >= ${band.min}${band.max === null ? '' : ` AND price < ${band.max}`}) AS "${band.value}"`
+  );
+  const ratingCounts = RATING_THRESHOLDS.map(stars => `COUNT(*) FILTER (WHERE rating >= ${stars}) AS "${stars}"`);
+
+  const [categories, prices, ratings] = await Promise.all([
+    pool.query(`SELECT category, COUNT(*) FROM products ${byCategory.where} GROUP BY category ORDER BY category`, byCategory.params),
+    pool.query(`SELECT ${bandCounts.join(', ')} FROM products ${byPrice.where}`, byPrice.params),
+    pool.query(`SELECT ${ratingCounts.join(', ')} FROM products ${byRating.where}`, byRating.params)
+  ]);
+
+  return {
+    categories: categories.rows.map(r => ({ value: r.category, label: r.category, count: Number(r.count) })),
+    priceBands: PRICE_BANDS.map(band => ({ value: band.value, label: band.label, count: Number(prices.rows[0][band.value]) })),
+    ratings: RATING_THRESHOLDS.map(stars => ({ value: String(stars), label: `${stars}★ & up`, count: Number(ratings.rows[0][stars]) }))
+  };
+}
+
 router.get('/', async (req, res) => {
   try {
-    const { search, category, page = 1, limit = 50 } = req.query;
-    const offset = (page - 1) * limit;
-
-    let query = 'SELECT * FROM products WHERE 1=1';
-    const params = [];
-    let paramCount = 0;
+    const { sort } = req.query;
 
-    // Add category filter
-    if (category) {
-      paramCount++;
-      query += ` AND LOWER(category) = LOWER($${paramCount})`;
-      params.push(category);
-    }
+    // Same paging rules as listProducts() in the client: page >= 1, 1 <= limit <= 100
+    const page = Math.max(1, parseInt(req.query.page) || 1);
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(req.query.limit) || 50));
+    const offset = (page - 1) * limit;
 
-    // Add search filter (searches name and description)
-    if (search) {
-      paramCount++;
-      query += ` AND (LOWER(name) LIKE LOWER($${paramCount}) OR LOWER(description) LIKE LOWER($${paramCount}))`;
-      params.push(`%${search}%`);
-    }
+    const rankedIds = await rankSearch(req.query.search);
+    const filters = listingFilters(req.query, rankedIds);
+    const { where, params } = whereClause(filters);
 
     // Get total count for pagination
-    const countResult = await pool.query(
-      query.replace('SELECT *', 'SELECT COUNT(*)'),
-      params
-    );
+    const countResult = await pool.query(`SELECT COUNT(*) FROM products ${where}`, params);
     const total = parseInt(countResult.rows[0].count);
 
-    // Add sorting and pagination
-    query += ' ORDER BY id ASC';
-    paramCount++;
-    query += ` LIMIT $${paramCount}`;
-    params.push(parseInt(limit));
-    paramCount++;
-    query += ` OFFSET $${paramCount}`;
-    params.push(parseInt(offset));
-
-    const result = await pool.query(query, params);
+    // Add sorting and pagination — relevance follows the search's ranking
+    const byRelevance = !Object.hasOwn(SORT_ORDERS, sort) && rankedIds;
+    const order = Object.hasOwn(SORT_ORDERS, sort) ? SORT_ORDERS[sort]
+      : byRelevance ? `array_position($${params.length + 3}::int[], id)` : 'id ASC';
+    const result = await pool.query(
+      `SELECT *, ${VARIANTS_COLUMN} FROM products ${where}
+       ORDER BY ${order} LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      byRelevance ? [...params, limit, offset, rankedIds] : [...params, limit, offset]
+    );
 
     res.json({
       products: result.rows,
       total,
-      page: parseInt(page),
-      totalPages: Math.ceil(total / limit)
+      page,
+      totalPages: Math.ceil(total / limit),
+      facets: await listingFacets(filters)
     });
 
   } catch (err) {
@@ -91,17 +241,13 @@ router.get('/categories', async (req, res) => {
 // Public — Get a single product by ID
 router.get('/:id', async (req, res) => {
   try {
-    const { id } = req.params;
-    const result = await pool.query(
-      'SELECT * FROM products WHERE id = $1',
-      [id]
-    );
+    const product = await findProduct(pool, req.params.id);
 
-    if (result.rows.length === 0) {
+    if (!product) {
       return res.status(404).json({ error: 'Product not found.' });
     }
 
-    res.json(result.rows[0]);
+    res.json(product);
 
   } catch (err) {
     res.status(500).json({ error: 'Server error.' });
@@ -111,53 +257,139 @@ router.get('/:id', async (req, res) => {
 // ─── POST /api/products ────────────────────────────────────
 // Admin only — Create a new product
 router.post('/', auth, admin, async (req, res) => {
+  const client = await pool.connect();
+
   try {
-    const { name, description, price, image, category, rating, stock } = req.body;
+    const { name, description, price, image, category, stock, weight, options = [], variants = [] } = req.body;
 
     if (!name || !price) {
       return res.status(400).json({ error: 'Name and price are required.' });
     }
+    const invalid = validateVariants(variants);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
 
-    const result = await pool.query(
-      `INSERT INTO products (name, description, price, image, category, rating, stock)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)
-       RETURNING *`,
-      [name, description, price, image, category, rating || 0, stock || 0]
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      `INSERT INTO products (name, description, price, image, category, stock, weight, options)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING id`,
+      [name, description, price, image, category, stock || 0, weight ?? null, JSON.stringify(options)]
     );
+    const id = result.rows[0].id;
+    await saveVariants(client, id, variants);
 
-    res.status(201).json(result.rows[0]);
+    await client.query('COMMIT');
+    res.status(201).json(await findProduct(pool, id));
 
   } catch (err) {
+    await client.query('ROLLBACK');
+    if (err.code === '23505') {
+      return res.status(409).json({ error: 'That SKU is already in use.' });
+    }
     console.error('Create product error:', err);
     res.status(500).json({ error: 'Server error creating product.' });
+  } finally {
+    client.release();
   }
 });
 
 // ─── PUT /api/products/:id ─────────────────────────────────
 // Admin only — Update an existing product
 router.put('/:id', auth, admin, async (req, res) => {
+  const client = await pool.connect();
+
   try {
     const { id } = req.params;
-    const { name, description, price, image, category, rating, stock } = req.body;
+    const {
+      name, description, price, image, category, rating, ratingCount, ratingHistogram, stock, weight, options, variants
+    } = req.body;
 
-    const result = await pool.query(
+    // Variants are optional here — omit them to leave the rows as they are
+    const invalid = variants !== undefined && validateVariants(variants);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    await client.query('BEGIN');
+
+    // Rating fields normally change through PUT /:id/rating —
+    // keep the stored values unless they are sent
+    const result = await client.query(
       `UPDATE products
        SET name = $1, description = $2, price = $3, image = $4,
-           category = $5, rating = $6, stock = $7, updated_at = CURRENT_TIMESTAMP
-       WHERE id = $8
-       RETURNING *`,
-      [name, description, price, image, category, rating, stock, id]
+           category = $5, rating = COALESCE($6, rating),
+           rating_count = COALESCE($7, rating_count),
+           rating_histogram = COALESCE($8, rating_histogram),
+           stock = $9, weight = $10, options = COALESCE($11, options), updated_at = CURRENT_TIMESTAMP
+       WHERE id = $12
+       RETURNING id`,
+      [name, description, price, image, category, rating ?? null, ratingCount ?? null, ratingHistogram ?? null, stock,
+       weight ?? null, options ? JSON.stringify(options) : null, id]
     );
 
     if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
       return res.status(404).json({ error: 'Product not found.' });
     }
 
-    res.json(result.rows[0]);
+    if (variants !== undefined) {
+      await saveVariants(client, id, variants);
+    }
+
+    await client.query('COMMIT');
+    res.json(await findProduct(pool, id));
 
   } catch (err) {
+    await client.query('ROLLBACK');
+    if (err.code === '23505') {
+      return res.status(409).json({ error: 'That SKU is already in use.' });
+    }
     console.error('Update product error:', err);
     res.status(500).json({ error: 'Server error updating product.' });
+  } finally {
+    client.release();
+  }
+});
+
+// ─── PUT /api/products/:id/rating ──────────────────────────
+// Signed-in users — Rewrite a product's review aggregate
+// Reviews live in the Angular app (there is no /api/reviews
+// yet), so approving, editing or deleting one sends the
+// product's new star histogram here — authors included, not
+// just admins. The average and count are derived from the
+// histogram rather than trusted from the request.
+router.put('/:id/rating', auth, async (req, res) => {
+  try {
+    const { histogram } = req.body;
+    if (!Array.isArray(histogram) || histogram.length !== 5
+        || histogram.some(n => !Number.isInteger(n) || n < 0)) {
+      return res.status(400).json({ error: 'Histogram must be five counts of 0 or more.' });
+    }
+
+    const count = histogram.reduce((sum, n) => sum + n, 0);
+    const stars = histogram.reduce((sum, n, i) => sum + n * (i + 1), 0);
+    const average = count === 0 ? 0 : Math.round((stars / count) * 10) / 10;
+
+    const result = await pool.query(
+      `UPDATE products
+       SET rating = $1, rating_count = $2, rating_histogram = $3, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $4
+       RETURNING id`,
+      [average, count, histogram, req.params.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Product not found.' });
+    }
+
+    res.json(await findProduct(pool, req.params.id));
+
+  } catch (err) {
+    console.error('Update rating error:', err);
+    res.status(500).json({ error: 'Server error updating rating.' });
   }
 });
 
@@ -15,7 +15,7 @@ const admin = require('../middleware/admin');
 router.get('/', auth, admin, async (req, res) => {
   try {
     const result = await pool.query(
-      'SELECT id, email, first_name, last_name, role, created_at FROM users ORDER BY id ASC'
+      'SELECT id, email, first_name, last_name, role, status, created_at FROM users ORDER BY id ASC'
     );
     res.json(result.rows);
   } catch (err) {
@@ -29,7 +29,7 @@ router.get('/', auth, admin, async (req, res) => {
 router.get('/:id', auth, admin, async (req, res) => {
   try {
     const result = await pool.query(
-      'SELECT id, email, first_name, last_name, role, created_at FROM users WHERE id = $1',
+      'SELECT id, email, first_name, last_name, role, status, created_at FROM users WHERE id = $1',
       [req.params.id]
     );
 
@@ -44,24 +44,28 @@ router.get('/:id', auth, admin, async (req, res) => {
 });
 
 // ─── PUT /api/users/:id ────────────────────────────────────
-// Admin only — Update user (name, role)
+// Admin only — Update user (name, role, status)
 router.put('/:id', auth, admin, async (req, res) => {
   try {
     const { id } = req.params;
-    const { firstName, lastName, role } = req.body;
+    const { firstName, lastName, role, status } = req.body;
 
     if (role && !['user', 'admin'].includes(role)) {
       return res.status(400).json({ error: 'Invalid role. Must be "user" or "admin".' });
     }
+    if (status && !['active', 'suspended'].includes(status)) {
+      return res.status(400).json({ error: 'Invalid status. Must be "active" or "suspended".' });
+    }
 
     const result = await pool.query(
       `UPDATE users
        SET first_name = COALESCE($1, first_name),
            last_name = COALESCE($2, last_name),
-           role = COALESCE($3, role)
-       WHERE id = $4
-       RETURNING id, email, first_name, last_name, role, created_at`,
-      [firstName, lastName, role, id]
+           role = COALESCE($3, role),
+           status = COALESCE($4, status)
+       WHERE id = $5
+       RETURNING id, email, first_name, last_name, role, status, created_at`,
+      [firstName, lastName, role, status, id]
     );
 
     if (result.rows.length === 0) {
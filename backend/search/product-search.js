@@ -0,0 +1,158 @@
+// ============================================================
+// PRODUCT SEARCH — Relevance ranking for GET /api/products
+// ============================================================
+// CONCEPT: One search, wherever the catalog lives
+//
+// Same tokenizing, stemming, typo tolerance and field weights
+// as searchProducts() in the client (src/app/services/
+// product-search.ts) — keep the two in step, so a query finds
+// and ranks the same products in memory and over HTTP.
+//
+//   - Words are lower-cased, stripped of accents and stop
+//     words, and reduced to a rough stem
+//   - A query word matches exactly, as a word's prefix, or
+//     within 1–2 typos; every query word must match
+//   - A name match counts more than a category match, which
+//     counts more than a description match
+// ============================================================
+
+// Relative weight of a match in each field
+const FIELD_WEIGHTS = { name: 3, category: 2, description: 1 };
+
+// Score of each kind of match, before the field weight
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.8;
+const FUZZY_MATCH = 0.6;
+
+// Bonus when the whole query appears as-is in the name
+const PHRASE_BONUS = 2;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'by', 'for', 'from', 'in',
+  'is', 'it', 'of', 'on', 'or', 'the', 'to', 'with', 'your'
+]);
+
+/** Lower-case words without accents, punctuation or stop words */
+function tokenize(text) {
+  return String(text ?? '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word && !STOP_WORDS.has(word));
+}
+
+/** Reduce a word to a rough stem — plurals and -ing/-ed endings only */
+function stem(word) {
+  if (word.length <= 3 || /^\d+$/.test(word)) return word;
+
+  let result = word;
+  if (result.endsWith('sses')) result = result.slice(0, -2);
+  else if (result.endsWith('ies')) result = result.slice(0, -3) + 'y';
+  else if (/(ch|sh|x|z)es$/.test(result)) result = result.slice(0, -2);
+  else if (/[^su]s$/.test(result)) result = result.slice(0, -1);
+
+  if (result.endsWith('ing') && result.length > 5) result = result.slice(0, -3);
+  else if (result.endsWith('ed') && result.length > 4) result = result.slice(0, -2);
+  else return result;
+
+  // "running" → "runn" → "run"
+  return /([^aeiouls])\1$/.test(result) ? result.slice(0, -1) : result;
+}
+
+/** Tokenize and stem */
+function terms(text) {
+  return tokenize(text).map(stem);
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions
+ * and swaps of neighbouring letters. Gives up (returns
+ * max + 1) once the distance must exceed `max`.
+ */
+function editDistance(a, b, max) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous2 = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previous2 = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Typos allowed for a query term of this length */
+function allowedTypos(term) {
+  if (term.length >= 8) return 2;
+  if (term.length >= 4) return 1;
+  return 0;
+}
+
+/** How well one query term matches a field's terms (0 = not at all) */
+function matchQuality(query, fieldTerms) {
+  let best = 0;
+  const typos = allowedTypos(query);
+  for (const term of fieldTerms) {
+    if (term === query) return EXACT_MATCH;
+    if (query.length >= 3 && term.startsWith(query)) {
+      best = Math.max(best, PREFIX_MATCH);
+    } else if (typos > 0 && best < FUZZY_MATCH) {
+      const distance = editDistance(query, term, typos);
+      if (distance <= typos) best = Math.max(best, FUZZY_MATCH - 0.1 * (distance - 1));
+    }
+  }
+  return best;
+}
+
+/**
+ * Products ({ name, category, description, rating }) matching
+ * every word of the query as { product, score }, best first
+ * (ties go to the higher-rated product). Returns null when the
+ * query has no searchable words, i.e. it matches everything.
+ */
+function searchProducts(products, query) {
+  const queryTerms = [...new Set(terms(query))];
+  if (queryTerms.length === 0) return null;
+
+  const phrase = String(query).trim().toLowerCase();
+  const hits = [];
+  for (const product of products) {
+    const fields = {
+      name: terms(product.name),
+      category: terms(product.category),
+      description: terms(product.description)
+    };
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const best = Math.max(...Object.keys(FIELD_WEIGHTS)
+        .map(field => FIELD_WEIGHTS[field] * matchQuality(term, fields[field])));
+      if (best === 0) {
+        score = 0;
+        break;
+      }
+      score += best;
+    }
+    if (score === 0) continue;
+
+    if (String(product.name).toLowerCase().includes(phrase)) score += PHRASE_BONUS;
+    hits.push({ product, score });
+  }
+
+  return hits.sort((a, b) => b.score - a.score || Number(b.product.rating) - Number(a.product.rating));
+}
+
+module.exports = { tokenize, stem, editDistance, searchProducts };
@@ -28,8 +28,10 @@ async function seed() {
 
     // ── DROP EXISTING TABLES ──────────────────────────────
     // Drop in reverse order of dependencies (child tables first)
+    await client.query('DROP TABLE IF EXISTS carts CASCADE');
     await client.query('DROP TABLE IF EXISTS order_items CASCADE');
     await client.query('DROP TABLE IF EXISTS orders CASCADE');
+    await client.query('DROP TABLE IF EXISTS product_variants CASCADE');
     await client.query('DROP TABLE IF EXISTS products CASCADE');
     await client.query('DROP TABLE IF EXISTS users CASCADE');
     console.log('✅ Dropped existing tables');
@@ -45,6 +47,7 @@ async function seed() {
         first_name VARCHAR(100) NOT NULL,
         last_name VARCHAR(100) NOT NULL,
         role VARCHAR(20) DEFAULT 'user' CHECK (role IN ('user', 'admin')),
+        status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'suspended')),
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       )
     `);
@@ -60,13 +63,32 @@ async function seed() {
         image VARCHAR(500),
         category VARCHAR(100),
         rating DECIMAL(2, 1) DEFAULT 0,
+        rating_count INTEGER DEFAULT 0,
+        rating_histogram INTEGER[] DEFAULT '{0,0,0,0,0}',
         stock INTEGER DEFAULT 0,
+        weight DECIMAL(6, 2),
+        options JSONB NOT NULL DEFAULT '[]',
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       )
     `);
     console.log('✅ Created products table');
 
+    // Product variants — one row per combination of a product's options
+    // (products.stock is the sum of its variants' stock)
+    await client.query(`
+      CREATE TABLE product_variants (
+        id SERIAL PRIMARY KEY,
+        product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        sku VARCHAR(64) UNIQUE NOT NULL,
+        options JSONB NOT NULL,
+        price DECIMAL(10, 2),
+        stock INTEGER NOT NULL DEFAULT 0 CHECK (stock >= 0),
+        image VARCHAR(500)
+      )
+    `);
+    console.log('✅ Created product_variants table');
+
     // Orders table
     await client.query(`
       CREATE TABLE orders (
@@ -74,6 +96,16 @@ async function seed() {
         user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
         status VARCHAR(20) DEFAULT 'pending'
           CHECK (status IN ('pending', 'processing', 'shipped', 'delivered', 'cancelled')),
+        subtotal DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        tax DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        tax_rate DECIMAL(6, 5) NOT NULL DEFAULT 0,
+        tax_jurisdiction VARCHAR(100) NOT NULL DEFAULT '',
+        shipping_method VARCHAR(20) NOT NULL DEFAULT 'standard'
+          CHECK (shipping_method IN ('standard', 'expedited', 'overnight', 'free')),
+        shipping_cost DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        delivery_earliest DATE,
+        delivery_latest DATE,
+        fees DECIMAL(10, 2) NOT NULL DEFAULT 0,
         total DECIMAL(10, 2) NOT NULL,
         shipping_address TEXT NOT NULL,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
@@ -88,11 +120,25 @@ async function seed() {
         order_id INTEGER REFERENCES orders(id) ON DELETE CASCADE,
         product_id INTEGER REFERENCES products(id) ON DELETE SET NULL,
         quantity INTEGER NOT NULL,
-        price_at_purchase DECIMAL(10, 2) NOT NULL
+        price_at_purchase DECIMAL(10, 2) NOT NULL,
+        tax DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        variant_id INTEGER REFERENCES product_variants(id) ON DELETE SET NULL,
+        variant_label VARCHAR(255),
+        sku VARCHAR(64)
       )
     `);
     console.log('✅ Created order_items table');
 
+    // Saved carts — one per user, stored as the app's cart lines
+    await client.query(`
+      CREATE TABLE carts (
+        user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+        lines JSONB NOT NULL DEFAULT '[]',
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    console.log('✅ Created carts table');
+
     // ── SEED USERS ────────────────────────────────────────
     // bcrypt.hash(password, saltRounds) — saltRounds=10 is standard
     const adminHash = await bcrypt.hash('admin123', 10);
@@ -107,57 +153,96 @@ async function seed() {
 
     // ── SEED PRODUCTS ─────────────────────────────────────
     await client.query(`
-      INSERT INTO products (name, description, price, image, category, rating, stock) VALUES
+      INSERT INTO products (name, description, price, image, category, rating, stock, weight) VALUES
       ('Wireless Bluetooth Headphones',
        'Premium over-ear headphones with active noise cancellation, 30-hour battery life, and crystal-clear sound quality. Perfect for music lovers and remote workers who want to block out distractions.',
-       79.99, 'https://picsum.photos/seed/headphones/400/400', 'Electronics', 4.5, 15),
+       79.99, 'https://picsum.photos/seed/headphones/400/400', 'Electronics', 4.5, 15, 0.8),
 
       ('Smart Watch Pro',
        'Feature-packed smartwatch with heart rate monitoring, GPS tracking, sleep analysis, and a stunning AMOLED display. Water-resistant up to 50 meters with 7-day battery life.',
-       199.99, 'https://picsum.photos/seed/smartwatch/400/400', 'Electronics', 4.2, 8),
+       199.99, 'https://picsum.photos/seed/smartwatch/400/400', 'Electronics', 4.2, 8, 0.3),
 
       ('Portable Bluetooth Speaker',
        'Compact and powerful wireless speaker with 360-degree sound, IPX7 waterproofing, and 12-hour playback. Take your music anywhere — from the beach to the mountains.',
-       49.99, 'https://picsum.photos/seed/speaker/400/400', 'Electronics', 4.0, 22),
+       49.99, 'https://picsum.photos/seed/speaker/400/400', 'Electronics', 4.0, 22, 1.2),
 
       ('Classic Denim Jacket',
        'Timeless denim jacket crafted from premium cotton. Features a comfortable regular fit, button closure, and multiple pockets. A wardrobe essential that goes with everything.',
-       89.99, 'https://picsum.photos/seed/denim-jacket/400/400', 'Clothing', 4.7, 12),
+       89.99, 'https://picsum.photos/seed/denim-jacket/400/400', 'Clothing', 4.7, 12, 2),
 
       ('Running Sneakers Ultra',
        'Lightweight performance running shoes with responsive cushioning and breathable mesh upper. Engineered for comfort on long runs with superior arch support.',
-       129.99, 'https://picsum.photos/seed/sneakers/400/400', 'Clothing', 4.6, 18),
+       129.99, 'https://picsum.photos/seed/sneakers/400/400', 'Clothing', 4.6, 18, 2.2),
 
       ('Wool Blend Overcoat',
        'Elegant wool blend overcoat perfect for cooler weather. Tailored silhouette with notch lapels, two-button closure, and fully lined interior for warmth and comfort.',
-       159.99, 'https://picsum.photos/seed/overcoat/400/400', 'Clothing', 4.3, 5),
+       159.99, 'https://picsum.photos/seed/overcoat/400/400', 'Clothing', 4.3, 5, 3.5),
 
       ('The Art of Clean Code',
        'A comprehensive guide to writing maintainable, readable, and efficient code. Covers best practices, design patterns, refactoring techniques, and real-world examples from industry experts.',
-       34.99, 'https://picsum.photos/seed/coding-book/400/400', 'Books', 4.8, 30),
+       34.99, 'https://picsum.photos/seed/coding-book/400/400', 'Books', 4.8, 30, 1.4),
 
       ('Modern JavaScript Deep Dive',
        'Master JavaScript from fundamentals to advanced concepts. Covers ES6+, async programming, closures, prototypes, modules, and practical patterns used in modern web development.',
-       44.99, 'https://picsum.photos/seed/js-book/400/400', 'Books', 4.9, 25),
+       44.99, 'https://picsum.photos/seed/js-book/400/400', 'Books', 4.9, 25, 1.6),
 
       ('Design Patterns Handbook',
        'Learn the 23 classic design patterns with modern examples in TypeScript and JavaScript. Includes creational, structural, and behavioral patterns with UML diagrams and code samples.',
-       39.99, 'https://picsum.photos/seed/patterns-book/400/400', 'Books', 4.4, 20),
+       39.99, 'https://picsum.photos/seed/patterns-book/400/400', 'Books', 4.4, 20, 1.5),
 
       ('Ceramic Plant Pot Set',
        'Set of 3 minimalist ceramic pots in varying sizes. Features drainage holes and matching saucers. Matte finish in neutral tones that complement any interior decor style.',
-       29.99, 'https://picsum.photos/seed/plant-pots/400/400', 'Home', 4.1, 35),
+       29.99, 'https://picsum.photos/seed/plant-pots/400/400', 'Home', 4.1, 35, 6),
 
       ('LED Desk Lamp',
        'Adjustable LED desk lamp with 5 brightness levels and 3 color temperatures. Features a USB charging port, touch controls, and a flexible gooseneck for perfect positioning.',
-       54.99, 'https://picsum.photos/seed/desk-lamp/400/400', 'Home', 4.3, 14),
+       54.99, 'https://picsum.photos/seed/desk-lamp/400/400', 'Home', 4.3, 14, 3),
 
       ('Scented Candle Collection',
        'Luxury soy wax candle set with 4 seasonal fragrances: lavender, vanilla, cedarwood, and ocean breeze. Each candle provides up to 45 hours of clean, even burn time.',
-       24.99, 'https://picsum.photos/seed/candles/400/400', 'Home', 4.6, 40)
+       24.99, 'https://picsum.photos/seed/candles/400/400', 'Home', 4.6, 40, 2.5)
     `);
     console.log('✅ Inserted 12 products');
 
+    // ── SEED VARIANTS ─────────────────────────────────────
+    await client.query(`
+      UPDATE products SET options = '[{"name":"Size","values":["S","M","L","XL"]},{"name":"Color","values":["Blue","Black"]}]'
+      WHERE name = 'Classic Denim Jacket'
+    `);
+    await client.query(`
+      INSERT INTO product_variants (product_id, sku, options, price, stock, image)
+      SELECT p.id, v.sku, v.options::jsonb, v.price, v.stock, v.image
+      FROM products p, (VALUES
+        ('DENIM-S-BLUE',   '{"Size":"S","Color":"Blue"}',   NULL::DECIMAL, 1, NULL),
+        ('DENIM-S-BLACK',  '{"Size":"S","Color":"Black"}',  NULL, 0, 'https://picsum.photos/seed/denim-jacket-black/400/400'),
+        ('DENIM-M-BLUE',   '{"Size":"M","Color":"Blue"}',   NULL, 3, NULL),
+        ('DENIM-M-BLACK',  '{"Size":"M","Color":"Black"}',  NULL, 2, 'https://picsum.photos/seed/denim-jacket-black/400/400'),
+        ('DENIM-L-BLUE',   '{"Size":"L","Color":"Blue"}',   NULL, 2, NULL),
+        ('DENIM-L-BLACK',  '{"Size":"L","Color":"Black"}',  NULL, 2, 'https://picsum.photos/seed/denim-jacket-black/400/400'),
+        ('DENIM-XL-BLUE',  '{"Size":"XL","Color":"Blue"}',  94.99, 1, NULL),
+        ('DENIM-XL-BLACK', '{"Size":"XL","Color":"Black"}', 94.99, 1, 'https://picsum.photos/seed/denim-jacket-black/400/400')
+      ) AS v(sku, options, price, stock, image)
+      WHERE p.name = 'Classic Denim Jacket'
+    `);
+
+    await client.query(`
+      UPDATE products SET options = '[{"name":"Size","values":["8","9","10","11","12"]}]'
+      WHERE name = 'Running Sneakers Ultra'
+    `);
+    await client.query(`
+      INSERT INTO product_variants (product_id, sku, options, stock)
+      SELECT p.id, v.sku, v.options::jsonb, v.stock
+      FROM products p, (VALUES
+        ('SNEAKER-8',  '{"Size":"8"}',  3),
+        ('SNEAKER-9',  '{"Size":"9"}',  5),
+        ('SNEAKER-10', '{"Size":"10"}', 5),
+        ('SNEAKER-11', '{"Size":"11"}', 4),
+        ('SNEAKER-12', '{"Size":"12"}', 1)
+      ) AS v(sku, options, stock)
+      WHERE p.name = 'Running Sneakers Ultra'
+    `);
+    console.log('✅ Inserted size/color variants');
+
     console.log('\n🎉 Seed completed successfully!');
     console.log('\n📋 Login credentials:');
     console.log('   Admin: admin@shopng.com / admin123');
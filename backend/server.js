@@ -16,11 +16,16 @@
 // 3. Route Mounting — We organize routes into separate files
 //    and "mount" them at specific paths. All routes in auth.js
 //    are prefixed with /api/auth, products.js with /api/products, etc.
+//
+// 4. WebSockets — Live auction events share the HTTP server:
+//    the feed in realtime/auction-feed.js answers upgrade
+//    requests on /ws/auctions.
 // ============================================================
 
 require('dotenv').config();
 const express = require('express');
 const cors = require('cors');
+const { attachAuctionFeed } = require('./realtime/auction-feed');
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -49,6 +54,7 @@ app.use((req, res, next) => {
 app.use('/api/auth', require('./routes/auth'));
 app.use('/api/products', require('./routes/products'));
 app.use('/api/orders', require('./routes/orders'));
+app.use('/api/cart', require('./routes/cart'));
 app.use('/api/users', require('./routes/users'));
 
 // ─── HEALTH CHECK ──────────────────────────────────────────
@@ -65,7 +71,10 @@ app.use((err, req, res, next) => {
 });
 
 // ─── START SERVER ──────────────────────────────────────────
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`🚀 Server running on http://localhost:${PORT}`);
   console.log(`📡 API available at http://localhost:${PORT}/api`);
+  console.log(`🔔 Auction feed at ws://localhost:${PORT}/ws/auctions`);
 });
+
+attachAuctionFeed(server);
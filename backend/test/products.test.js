@@ -0,0 +1,89 @@
+// ============================================================
+// PRODUCT ROUTES — GET /api/products search
+// ============================================================
+// Runs the client's searchProducts() cases (product-search.
+// spec.ts) against the route, so a query ranks the same way
+// over HTTP as in memory. config/db is replaced by a pool that
+// records each query: the catalog answers the search's lookup,
+// and the IDs the listing query is ordered by are the ranking.
+// ============================================================
+
+const { describe, it, before, after, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+const express = require('express');
+
+const CATALOG = [
+  { id: 1, name: 'Wireless Bluetooth Headphones', category: 'Electronics', rating: '4.3', description: 'Noise cancelling over-ear headphones.' },
+  { id: 2, name: 'Running Sneakers Ultra', category: 'Clothing', rating: '5.0', description: 'Lightweight shoes for long runs.' },
+  { id: 3, name: 'Portable Bluetooth Speaker', category: 'Electronics', rating: '0.0', description: 'Pairs with any phone.' },
+  { id: 4, name: 'Modern JavaScript Deep Dive', category: 'Books', rating: '4.5', description: 'Covers headphones-free focus techniques.' }
+];
+
+const queries = [];
+const pool = {
+  async query(sql, params = []) {
+    queries.push({ sql, params });
+    if (sql.startsWith('SELECT id, name, category, description, rating FROM products')) return { rows: CATALOG };
+    return { rows: [{ count: '0' }] };
+  }
+};
+require.cache[require.resolve('../config/db')] = { id: 'db', loaded: true, exports: pool };
+
+describe('GET /api/products?search=', () => {
+  let server;
+  let baseUrl;
+
+  before(async () => {
+    const app = express();
+    app.use('/api/products', require('../routes/products'));
+    await new Promise(resolve => { server = app.listen(0, resolve); });
+    baseUrl = `http://localhost:${server.address().port}/api/products`;
+  });
+
+  after(() => new Promise(resolve => server.close(resolve)));
+
+  beforeEach(() => { queries.length = 0; });
+
+  /** Names of the products the listing is ordered by, best first */
+  async function names(search, sort) {
+    const params = new URLSearchParams({ search, ...(sort && { sort }) });
+    queries.length = 0;
+    const res = await fetch(`${baseUrl}?${params}`);
+    assert.equal(res.status, 200);
+
+    const listing = queries.find(q => q.sql.includes('LIMIT'));
+    assert.match(listing.sql, /id = ANY\(\$1::int\[\]\)/);
+    return listing.params[0].map(id => CATALOG.find(p => p.id === id).name);
+  }
+
+  it('ranks name matches above description matches', async () => {
+    assert.deepEqual(await names('headphones'), ['Wireless Bluetooth Headphones', 'Modern JavaScript Deep Dive']);
+  });
+
+  it('tolerates typos and matches word prefixes', async () => {
+    assert.equal((await names('hedphones'))[0], 'Wireless Bluetooth Headphones');
+    assert.deepEqual(await names('javscript'), ['Modern JavaScript Deep Dive']);
+    assert.ok((await names('blue')).includes('Portable Bluetooth Speaker'));
+  });
+
+  it('requires every query word to match', async () => {
+    assert.deepEqual(await names('running shoes'), ['Running Sneakers Ultra']);
+    assert.deepEqual(await names('bluetooth books'), []);
+  });
+
+  it('orders by the ranking unless another sort is chosen', async () => {
+    await names('headphones');
+    const listing = queries.find(q => q.sql.includes('LIMIT'));
+    assert.match(listing.sql, /ORDER BY array_position\(\$4::int\[\], id\)/);
+    assert.deepEqual(listing.params.at(-1), [1, 4]);
+
+    await names('headphones', 'price-asc');
+    assert.match(queries.find(q => q.sql.includes('LIMIT')).sql, /ORDER BY price ASC, id ASC/);
+  });
+
+  it('lists the whole catalog without a search term', async () => {
+    const res = await fetch(baseUrl);
+    assert.equal(res.status, 200);
+    assert.ok(queries.every(q => !q.sql.includes('ANY(')));
+  });
+});
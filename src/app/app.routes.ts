@@ -4,56 +4,89 @@ import { HomeComponent } from './components/home/home.component';
 import { ProductListComponent } from './components/product-list/product-list.component';
 import { ProductDetailComponent } from './components/product-detail/product-detail.component';
 import { CartComponent } from './components/cart/cart.component';
-import { CheckoutComponent } from './components/checkout/checkout.component';
 import { LoginComponent } from './components/login/login.component';
 import { RegisterComponent } from './components/register/register.component';
 import { SettingsComponent } from './components/settings/settings.component';
 import { OrderHistoryComponent } from './components/order-history/order-history.component';
-import { AdminComponent } from './components/admin/admin.component';
-import { AdminDashboardComponent } from './components/admin-dashboard/admin-dashboard.component';
-import { AdminProductsComponent } from './components/admin-products/admin-products.component';
-import { AdminProductFormComponent } from './components/admin-product-form/admin-product-form.component';
-import { AdminOrdersComponent } from './components/admin-orders/admin-orders.component';
-import { AdminUsersComponent } from './components/admin-users/admin-users.component';
-import { AuctionListComponent } from './components/auction-list/auction-list.component';
-import { AuctionDetailComponent } from './components/auction-detail/auction-detail.component';
-import { CreateAuctionComponent } from './components/create-auction/create-auction.component';
-import { MyAuctionsComponent } from './components/my-auctions/my-auctions.component';
-import { AdminAuctionsComponent } from './components/admin-auctions/admin-auctions.component';
 import { authGuard } from './guards/auth.guard';
 import { adminGuard } from './guards/admin.guard';
 
+// Checkout, auctions and admin load on first visit
+// (loadComponent), keeping them out of the initial bundle.
 export const routes: Routes = [
   // Public routes
   { path: '', component: HomeComponent },
   { path: 'products', component: ProductListComponent },
   { path: 'product/:id', component: ProductDetailComponent },
   { path: 'cart', component: CartComponent },
-  { path: 'checkout', component: CheckoutComponent },
+  {
+    path: 'checkout',
+    loadComponent: () => import('./components/checkout/checkout.component').then(m => m.CheckoutComponent),
+    canActivate: [authGuard]
+  },
   { path: 'login', component: LoginComponent },
   { path: 'register', component: RegisterComponent },
   { path: 'settings', component: SettingsComponent, canActivate: [authGuard] },
   { path: 'orders', component: OrderHistoryComponent, canActivate: [authGuard] },
 
   // Auction routes
-  { path: 'auctions', component: AuctionListComponent },
-  { path: 'auctions/create', component: CreateAuctionComponent, canActivate: [authGuard] },
-  { path: 'auction/:id', component: AuctionDetailComponent },
-  { path: 'my-auctions', component: MyAuctionsComponent, canActivate: [authGuard] },
+  {
+    path: 'auctions',
+    loadComponent: () => import('./components/auction-list/auction-list.component').then(m => m.AuctionListComponent)
+  },
+  {
+    path: 'auctions/create',
+    loadComponent: () => import('./components/create-auction/create-auction.component').then(m => m.CreateAuctionComponent),
+    canActivate: [authGuard]
+  },
+  {
+    path: 'auction/:id',
+    loadComponent: () => import('./components/auction-detail/auction-detail.component').then(m => m.AuctionDetailComponent)
+  },
+  {
+    path: 'my-auctions',
+    loadComponent: () => import('./components/my-auctions/my-auctions.component').then(m => m.MyAuctionsComponent),
+    canActivate: [authGuard]
+  },
 
   // Admin routes — protected by auth + admin guards
   {
     path: 'admin',
-    component: AdminComponent,
+    loadComponent: () => import('./components/admin/admin.component').then(m => m.AdminComponent),
     canActivate: [authGuard, adminGuard],
     children: [
-      { path: '', component: AdminDashboardComponent },
-      { path: 'products', component: AdminProductsComponent },
-      { path: 'products/new', component: AdminProductFormComponent },
-      { path: 'products/edit/:id', component: AdminProductFormComponent },
-      { path: 'orders', component: AdminOrdersComponent },
-      { path: 'users', component: AdminUsersComponent },
-      { path: 'auctions', component: AdminAuctionsComponent }
+      {
+        path: '',
+        loadComponent: () => import('./components/admin-dashboard/admin-dashboard.component').then(m => m.AdminDashboardComponent)
+      },
+      {
+        path: 'products',
+        loadComponent: () => import('./components/admin-products/admin-products.component').then(m => m.AdminProductsComponent)
+      },
+      {
+        path: 'products/new',
+        loadComponent: () => import('./components/admin-product-form/admin-product-form.component').then(m => m.AdminProductFormComponent)
+      },
+      {
+        path: 'products/edit/:id',
+        loadComponent: () => import('./components/admin-product-form/admin-product-form.component').then(m => m.AdminProductFormComponent)
+      },
+      {
+        path: 'orders',
+        loadComponent: () => import('./components/admin-orders/admin-orders.component').then(m => m.AdminOrdersComponent)
+      },
+      {
+        path: 'users',
+        loadComponent: () => import('./components/admin-users/admin-users.component').then(m => m.AdminUsersComponent)
+      },
+      {
+        path: 'auctions',
+        loadComponent: () => import('./components/admin-auctions/admin-auctions.component').then(m => m.AdminAuctionsComponent)
+      },
+      {
+        path: 'reviews',
+        loadComponent: () => import('./components/admin-reviews/admin-reviews.component').then(m => m.AdminReviewsComponent)
+      }
     ]
   },
 
@@ -2,6 +2,7 @@ import { Component, OnInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterLink } from '@angular/router';
 import { ProductService } from '../../services/product.service';
+import { byRating } from '../../services/product-search';
 import { OrderService } from '../../services/order.service';
 import { UserService } from '../../services/user.service';
 import { AuctionService } from '../../services/auction.service';
@@ -24,6 +25,8 @@ export class AdminDashboardComponent implements OnInit {
   totalStockValue = 0;
   lowStockCount = 0;
   averageRating = 0;
+  reviewedCount = 0;
+  totalReviews = 0;
   totalInventory = 0;
 
   // Order & User Stats
@@ -66,8 +69,11 @@ export class AdminDashboardComponent implements OnInit {
       this.totalInventory = products.reduce((sum, p) => sum + p.stock, 0);
       this.totalStockValue = products.reduce((sum, p) => sum + (p.price * p.stock), 0);
       this.lowStockCount = products.filter(p => p.stock < 5 && !p.disabled).length;
-      this.averageRating = products.length > 0
-        ? +(products.reduce((sum, p) => sum + p.rating, 0) / products.length).toFixed(1)
+      // Average over every approved review, not over products
+      this.totalReviews = products.reduce((sum, p) => sum + (p.ratingCount ?? 0), 0);
+      this.reviewedCount = products.filter(p => p.ratingCount).length;
+      this.averageRating = this.totalReviews > 0
+        ? +(products.reduce((sum, p) => sum + p.rating * (p.ratingCount ?? 0), 0) / this.totalReviews).toFixed(1)
         : 0;
 
       // Categories
@@ -90,9 +96,10 @@ export class AdminDashboardComponent implements OnInit {
         .sort((a, b) => a.stock - b.stock)
         .slice(0, 5);
 
-      // Top rated
-      this.topRatedProducts = [...active]
-        .sort((a, b) => b.rating - a.rating)
+      // Top rated (reviewed products only)
+      this.topRatedProducts = active
+        .filter(p => p.ratingCount)
+        .sort(byRating)
         .slice(0, 5);
     });
 
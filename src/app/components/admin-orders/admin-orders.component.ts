@@ -22,6 +22,7 @@ import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { Order } from '../../product.model';
 import { OrderService } from '../../services/order.service';
+import { SHIPPING_METHOD_LABELS } from '../../services/shipping-calculator.provider';
 
 @Component({
   selector: 'app-admin-orders',
@@ -39,6 +40,7 @@ export class AdminOrdersComponent implements OnInit {
   loading = true;
   error = '';
   expandedOrderId: number | null = null;
+  readonly shippingLabels = SHIPPING_METHOD_LABELS;
 
   // Stats
   totalOrders = 0;
@@ -2,8 +2,15 @@ import { Component, OnInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { ActivatedRoute, Router, RouterLink } from '@angular/router';
-import { Product } from '../../product.model';
+import { Product, ProductOption, ProductVariant } from '../../product.model';
 import { ProductService } from '../../services/product.service';
+import { buildVariantMatrix, variantLabel } from '../../services/product-variants';
+
+/** An option axis as edited: values as comma-separated text */
+interface OptionDraft {
+  name: string;
+  values: string;
+}
 
 @Component({
   selector: 'app-admin-product-form',
@@ -26,13 +33,17 @@ export class AdminProductFormComponent implements OnInit {
     price: 0,
     image: '',
     category: '',
-    rating: 0,
     stock: 0,
     disabled: false
   };
 
   categories = ['Electronics', 'Clothing', 'Books', 'Home'];
 
+  // Variant matrix — one row per combination of the option axes
+  optionDrafts: OptionDraft[] = [];
+  variants: ProductVariant[] = [];
+  readonly variantLabel = variantLabel;
+
   constructor(
     private productService: ProductService,
     private route: ActivatedRoute,
@@ -54,6 +65,8 @@ export class AdminProductFormComponent implements OnInit {
     this.productService.getProductById(this.productId).subscribe({
       next: (product) => {
         this.product = { ...product };
+        this.optionDrafts = (product.options ?? []).map(o => ({ name: o.name, values: o.values.join(', ') }));
+        this.variants = (product.variants ?? []).map(v => ({ ...v }));
         this.loading = false;
       },
       error: () => {
@@ -63,6 +76,50 @@ export class AdminProductFormComponent implements OnInit {
     });
   }
 
+  // ── Variants ──────────────────────────────────────────────
+
+  /** Stock is the variants' total once there are variants */
+  get variantStock(): number {
+    return this.variants.reduce((sum, v) => sum + (Number(v.stock) || 0), 0);
+  }
+
+  addOption(): void {
+    this.optionDrafts.push({ name: '', values: '' });
+  }
+
+  removeOption(index: number): void {
+    this.optionDrafts.splice(index, 1);
+    this.rebuildMatrix();
+  }
+
+  /**
+   * Regenerate the rows after an axis changes. Combinations
+   * that were already there keep their SKU, price, stock and
+   * image.
+   */
+  rebuildMatrix(): void {
+    const prefix = this.product.name?.trim().split(/\s+/)[0] ?? '';
+    this.variants = buildVariantMatrix(this.parsedOptions(), this.variants, prefix);
+  }
+
+  private parsedOptions(): ProductOption[] {
+    return this.optionDrafts
+      .map(draft => ({
+        name: draft.name.trim(),
+        values: [...new Set(draft.values.split(',').map(v => v.trim()).filter(Boolean))]
+      }))
+      .filter(option => option.name && option.values.length > 0);
+  }
+
+  /** Problem with the variant rows, or '' */
+  private variantError(): string {
+    if (this.variants.some(v => !v.sku?.trim())) return 'Every variant needs a SKU.';
+    const skus = this.variants.map(v => v.sku.trim().toUpperCase());
+    if (new Set(skus).size !== skus.length) return 'Variant SKUs must be unique.';
+    if (this.variants.some(v => !(Number(v.stock) >= 0))) return 'Variant stock can\'t be negative.';
+    return '';
+  }
+
   onSubmit(): void {
     this.error = '';
     this.successMessage = '';
@@ -71,11 +128,26 @@ export class AdminProductFormComponent implements OnInit {
       this.error = 'Name and price are required.';
       return;
     }
+    this.error = this.variantError();
+    if (this.error) return;
 
     this.saving = true;
 
+    // Empty price / image cells fall back to the product's
+    this.product.options = this.variants.length > 0 ? this.parsedOptions() : [];
+    this.product.variants = this.variants.map(v => ({
+      ...v,
+      sku: v.sku.trim(),
+      price: v.price || undefined,
+      stock: Number(v.stock) || 0,
+      image: v.image?.trim() || undefined
+    }));
+
+    // Ratings are derived from reviews — never written from this form
+    const { rating, ratingCount, ratingHistogram, ...changes } = this.product;
+
     if (this.isEditMode && this.productId) {
-      this.productService.updateProduct(this.productId, this.product).subscribe({
+      this.productService.updateProduct(this.productId, changes).subscribe({
         next: () => {
           this.successMessage = 'Product updated successfully!';
           this.saving = false;
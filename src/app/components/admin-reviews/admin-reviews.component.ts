@@ -0,0 +1,236 @@
+// ============================================================
+// ADMIN REVIEWS COMPONENT — Review moderation queue
+// ============================================================
+// Admin-only queue of submitted reviews. Opens on the pending
+// ones; filters by status, rating and text. Reviews can be
+// approved or rejected one at a time or in bulk via the
+// checkboxes. Rejecting asks for a reason, which is kept on
+// the review. The expanded row also shows attached photos and
+// lets the admin post a public response from the store.
+// Follows AdminAuctionsComponent pattern.
+// ============================================================
+
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ReviewService } from '../../services/review.service';
+import { ProductService } from '../../services/product.service';
+import { NotificationService } from '../../services/notification.service';
+import { Review } from '../../product.model';
+
+@Component({
+  selector: 'app-admin-reviews',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './admin-reviews.component.html',
+  styleUrl: './admin-reviews.component.css'
+})
+export class AdminReviewsComponent implements OnInit {
+
+  reviews: Review[] = [];
+  filteredReviews: Review[] = [];
+  productNames = new Map<number, string>();
+  searchTerm = '';
+  statusFilter = 'pending';
+  ratingFilter = 'all';
+  expandedReviewId: number | null = null;
+  responseText = '';                     // Draft store response for the expanded review
+
+  // Bulk selection
+  selectedIds = new Set<number>();
+
+  // Reject dialog — the reviews being rejected and why
+  rejectingIds: number[] = [];
+  rejectionReason = '';
+  readonly reasonPresets = ['Spam or advertising', 'Offensive language', 'Not about this product', 'Contains personal information'];
+
+  // Stats
+  pendingCount = 0;
+  approvedCount = 0;
+  rejectedCount = 0;
+
+  constructor(
+    private reviewService: ReviewService,
+    private productService: ProductService,
+    private notify: NotificationService
+  ) {}
+
+  ngOnInit(): void {
+    this.productService.getAllProductsAdmin().subscribe(products => {
+      this.productNames = new Map(products.map(p => [p.id, p.name]));
+    });
+    this.loadReviews();
+  }
+
+  loadReviews(): void {
+    this.reviewService.getAllReviews().subscribe(reviews => {
+      this.reviews = reviews;
+      this.computeStats();
+      this.applyFilter();
+    });
+  }
+
+  private computeStats(): void {
+    this.pendingCount = this.reviews.filter(r => r.status === 'pending').length;
+    this.approvedCount = this.reviews.filter(r => r.status === 'approved').length;
+    this.rejectedCount = this.reviews.filter(r => r.status === 'rejected').length;
+  }
+
+  applyFilter(): void {
+    let results = [...this.reviews];
+
+    // Status filter
+    if (this.statusFilter !== 'all') {
+      results = results.filter(r => r.status === this.statusFilter);
+    }
+
+    // Rating filter
+    if (this.ratingFilter !== 'all') {
+      results = results.filter(r => r.rating === Number(this.ratingFilter));
+    }
+
+    // Search
+    if (this.searchTerm.trim()) {
+      const lower = this.searchTerm.toLowerCase();
+      results = results.filter(r =>
+        r.title.toLowerCase().includes(lower) ||
+        r.comment.toLowerCase().includes(lower) ||
+        r.userName.toLowerCase().includes(lower) ||
+        this.productName(r.productId).toLowerCase().includes(lower)
+      );
+    }
+
+    this.filteredReviews = results;
+
+    // Only keep selections that are still visible
+    const visible = new Set(results.map(r => r.id));
+    this.selectedIds = new Set([...this.selectedIds].filter(id => visible.has(id)));
+  }
+
+  productName(productId: number): string {
+    return this.productNames.get(productId) ?? `Product #${productId}`;
+  }
+
+  toggleExpand(reviewId: number): void {
+    this.expandedReviewId = this.expandedReviewId === reviewId ? null : reviewId;
+    this.responseText = this.reviews.find(r => r.id === reviewId)?.storeResponse?.text ?? '';
+  }
+
+  // ── Selection ─────────────────────────────────────────────
+
+  get allSelected(): boolean {
+    return this.filteredReviews.length > 0 && this.selectedIds.size === this.filteredReviews.length;
+  }
+
+  toggleSelected(reviewId: number): void {
+    if (this.selectedIds.has(reviewId)) {
+      this.selectedIds.delete(reviewId);
+    } else {
+      this.selectedIds.add(reviewId);
+    }
+  }
+
+  toggleSelectAll(): void {
+    this.selectedIds = this.allSelected
+      ? new Set()
+      : new Set(this.filteredReviews.map(r => r.id));
+  }
+
+  // ── Moderation ────────────────────────────────────────────
+
+  approveSelected(): void {
+    this.approve([...this.selectedIds]);
+  }
+
+  rejectSelected(): void {
+    this.startReject([...this.selectedIds]);
+  }
+
+  approve(reviewIds: number[]): void {
+    this.moderate(reviewIds, 'approved');
+  }
+
+  /** Open the reason dialog for one or more reviews */
+  startReject(reviewIds: number[]): void {
+    this.rejectingIds = reviewIds;
+    this.rejectionReason = '';
+  }
+
+  cancelReject(): void {
+    this.rejectingIds = [];
+  }
+
+  confirmReject(): void {
+    const reason = this.rejectionReason.trim();
+    if (!reason) return;
+    this.moderate(this.rejectingIds, 'rejected', reason);
+    this.rejectingIds = [];
+  }
+
+  deleteReview(review: Review): void {
+    this.reviewService.deleteReview(review.id).subscribe(() => {
+      this.reviews = this.reviews.filter(r => r.id !== review.id);
+      this.computeStats();
+      this.applyFilter();
+      this.notify.info('Review deleted.');
+    });
+  }
+
+  // ── Store Response ────────────────────────────────────────
+
+  /** Post the draft as the store's response — empty text removes it */
+  saveResponse(review: Review, text: string = this.responseText): void {
+    this.reviewService.respondToReview(review.id, text).subscribe({
+      next: updated => {
+        const index = this.reviews.findIndex(r => r.id === updated.id);
+        if (index !== -1) this.reviews[index] = updated;
+        this.responseText = updated.storeResponse?.text ?? '';
+        this.applyFilter();
+        this.notify.success(updated.storeResponse ? 'Response posted.' : 'Response removed.');
+      },
+      error: err => this.notify.error(err?.error || 'Failed to save response.')
+    });
+  }
+
+  private moderate(reviewIds: number[], status: Review['status'], reason?: string): void {
+    this.reviewService.updateReviewStatuses(reviewIds, status, reason).subscribe({
+      next: updated => {
+        for (const review of updated) {
+          const index = this.reviews.findIndex(r => r.id === review.id);
+          if (index !== -1) this.reviews[index] = review;
+        }
+        this.computeStats();
+        this.applyFilter();
+        const noun = updated.length === 1 ? 'review' : 'reviews';
+        this.notify.success(`${updated.length} ${noun} ${status}.`);
+      },
+      error: err => this.notify.error(err?.error || 'Failed to update reviews.')
+    });
+  }
+
+  getStatusClass(status: string): string {
+    const map: Record<string, string> = {
+      'pending': 'status-pending',
+      'approved': 'status-approved',
+      'rejected': 'status-rejected'
+    };
+    return map[status] || '';
+  }
+
+  getStars(rating: number): string {
+    return '★'.repeat(rating) + '☆'.repeat(5 - rating);
+  }
+
+  formatDate(iso: string): string {
+    return new Date(iso).toLocaleDateString('en-US', {
+      year: 'numeric', month: 'short', day: 'numeric',
+      hour: 'numeric', minute: '2-digit'
+    });
+  }
+
+  formatDateShort(iso: string): string {
+    return new Date(iso).toLocaleDateString('en-US', {
+      month: 'short', day: 'numeric'
+    });
+  }
+}
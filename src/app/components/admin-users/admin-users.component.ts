@@ -5,7 +5,7 @@
 //
 // 1. Expandable user detail panel
 //    Clicking a user row reveals their private info:
-//    shipping address (from UserProfileService), order
+//    shipping addresses (from UserProfileService), order
 //    history stats, and account status controls.
 //    Payment info is deliberately hidden for privacy.
 //
@@ -23,7 +23,7 @@
 import { Component, OnInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { AdminUser, UserProfile } from '../../product.model';
+import { AdminUser, SavedAddress } from '../../product.model';
 import { UserService } from '../../services/user.service';
 import { UserProfileService } from '../../services/user-profile.service';
 import { AuthService } from '../../services/auth.service';
@@ -123,15 +123,9 @@ export class AdminUsersComponent implements OnInit {
     });
   }
 
-  /** Load a user's saved profile (address only — no payment) */
-  getUserProfile(userId: number): UserProfile | null {
-    const key = `user_profile_${userId}`;
-    const stored = localStorage.getItem(key);
-    if (stored) {
-      try { return JSON.parse(stored); }
-      catch { return null; }
-    }
-    return null;
+  /** Load a user's address book (addresses only — no payment) */
+  getUserAddresses(userId: number): SavedAddress[] {
+    return this.userProfileService.addressesFor(userId);
   }
 
   /** Check if the expanded user is the currently logged-in admin */
@@ -1,6 +1,7 @@
 import { Component } from '@angular/core';
 import { RouterLink, RouterLinkActive, RouterOutlet } from '@angular/router';
 import { AuthService } from '../../services/auth.service';
+import { ReviewService } from '../../services/review.service';
 
 @Component({
   selector: 'app-admin',
@@ -10,5 +11,8 @@ import { AuthService } from '../../services/auth.service';
   styleUrl: './admin.component.css'
 })
 export class AdminComponent {
-  constructor(public authService: AuthService) {}
+  constructor(
+    public authService: AuthService,
+    public reviewService: ReviewService
+  ) {}
 }
@@ -3,13 +3,35 @@
 // ============================================================
 // Two-column layout showing auction image, info, bid form,
 // and bid history. Countdown timer updates every second.
+//
+// Bids are proxy bids: the shopper enters a maximum and the
+// service bids for them up to it. Once they've bid, the page
+// shows their maximum and whether it has been exceeded.
+//
+// A hidden reserve is never shown, only whether the price
+// has reached it yet.
+//
+// Soft close: a late bid can push the end out. When the
+// countdown reaches zero the auction is reloaded, so an
+// extension made by another bidder picks the countdown back
+// up instead of ending it.
+//
+// Buy It Now, while the service still offers it, sells the
+// item on the spot and ends the auction.
+//
+// Other bidders' activity is pushed in through
+// AuctionService.auctionEvents(): the page picks up their
+// bids, extensions, the end or a cancellation as they happen.
 // ============================================================
 
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { ActivatedRoute, Router, RouterLink } from '@angular/router';
-import { AuctionService } from '../../services/auction.service';
+import { Subscription } from 'rxjs';
+import { AuctionService, BidResult } from '../../services/auction.service';
+import { SoftCloseRules, reserveMet, topBid } from '../../services/auction-bidding';
+import { AuctionEvent } from '../../services/auction-feed.provider';
 import { AuthService } from '../../services/auth.service';
 import { NotificationService } from '../../services/notification.service';
 import { Auction, Bid } from '../../product.model';
@@ -28,7 +50,9 @@ export class AuctionDetailComponent implements OnInit, OnDestroy {
   bidAmount: number = 0;
   bidError = '';
   timeRemaining = '';
+  readonly softClose: SoftCloseRules;
   private timerInterval: any;
+  private liveUpdates?: Subscription;
 
   constructor(
     private route: ActivatedRoute,
@@ -36,24 +60,29 @@ export class AuctionDetailComponent implements OnInit, OnDestroy {
     private auctionService: AuctionService,
     public authService: AuthService,
     private notify: NotificationService
-  ) {}
+  ) {
+    this.softClose = auctionService.getSoftCloseRules();
+  }
 
   ngOnInit(): void {
     const idParam = this.route.snapshot.paramMap.get('id');
     if (idParam) {
       this.loadAuction(Number(idParam));
+      this.liveUpdates = this.auctionService.auctionEvents(Number(idParam))
+        .subscribe(event => this.onAuctionEvent(event));
     }
   }
 
   ngOnDestroy(): void {
-    if (this.timerInterval) clearInterval(this.timerInterval);
+    this.stopCountdown();
+    this.liveUpdates?.unsubscribe();
   }
 
   private loadAuction(id: number): void {
     this.auctionService.getAuctionById(id).subscribe({
       next: (auction) => {
         this.auction = auction;
-        this.bidAmount = Math.ceil(auction.currentPrice + 1);
+        this.bidAmount = Math.ceil(this.minimumBid);
         this.loadBids(auction.id);
         this.startCountdown();
       },
@@ -63,6 +92,43 @@ export class AuctionDetailComponent implements OnInit, OnDestroy {
     });
   }
 
+  /** Another bidder (or the seller) changed this auction */
+  private onAuctionEvent(event: AuctionEvent): void {
+    const user = this.authService.currentUser();
+    const wasWinning = !!user && topBid(this.bids)?.bidderId === user.id;
+
+    this.auction = event.auction;
+    this.loadBids(event.auctionId);
+    if (event.auction.status === 'active') {
+      this.startCountdown();
+    } else {
+      this.stopCountdown();
+      this.timeRemaining = 'Auction Ended';
+    }
+    if (this.bidAmount < this.minimumBid) this.bidAmount = Math.ceil(this.minimumBid);
+
+    switch (event.type) {
+      case 'bid':
+        if (wasWinning && !this.isWinning) {
+          this.notify.warning('You\'ve been outbid.');
+        } else {
+          this.notify.info(`New bid: $${event.auction.currentPrice.toFixed(2)}`);
+        }
+        break;
+      case 'extended':
+        this.notify.info(`Late bid: the auction now ends ${this.formatDate(event.auction.endsAt)}.`);
+        break;
+      case 'ended':
+        this.notify.info(event.auction.winnerName
+          ? `Auction ended: won by ${event.auction.winnerName}.`
+          : 'Auction ended.');
+        break;
+      case 'cancelled':
+        this.notify.warning('The seller cancelled this auction.');
+        break;
+    }
+  }
+
   private loadBids(auctionId: number): void {
     this.auctionService.getBidsByAuction(auctionId).subscribe(bids => {
       this.bids = bids;
@@ -70,10 +136,16 @@ export class AuctionDetailComponent implements OnInit, OnDestroy {
   }
 
   private startCountdown(): void {
+    this.stopCountdown();
     this.updateCountdown();
     this.timerInterval = setInterval(() => this.updateCountdown(), 1000);
   }
 
+  private stopCountdown(): void {
+    if (this.timerInterval) clearInterval(this.timerInterval);
+    this.timerInterval = undefined;
+  }
+
   private updateCountdown(): void {
     if (!this.auction) return;
 
@@ -83,11 +155,11 @@ export class AuctionDetailComponent implements OnInit, OnDestroy {
 
     if (diff <= 0) {
       this.timeRemaining = 'Auction Ended';
+      this.stopCountdown();
       if (this.auction.status === 'active') {
-        // Reload to get the updated status
+        // Reload to get the updated status — or a late extension
         this.loadAuction(this.auction.id);
       }
-      if (this.timerInterval) clearInterval(this.timerInterval);
       return;
     }
 
@@ -119,8 +191,41 @@ export class AuctionDetailComponent implements OnInit, OnDestroy {
       && new Date(this.auction.endsAt) > new Date();
   }
 
+  /** The current user's secret maximum on this auction */
+  get myMaxBid(): number | undefined {
+    const user = this.authService.currentUser();
+    return user && this.auction ? this.auctionService.getUserMaxBid(this.auction.id, user.id) : undefined;
+  }
+
+  get isWinning(): boolean {
+    const user = this.authService.currentUser();
+    return !!user && !!this.auction && this.auctionService.isHighestBidder(this.auction.id, user.id);
+  }
+
+  /** The leader may only raise their maximum; others must clear the next bid */
   get minimumBid(): number {
-    return this.auction ? Math.ceil((this.auction.currentPrice + 1) * 100) / 100 : 0;
+    if (!this.auction) return 0;
+    const max = this.myMaxBid;
+    return this.isWinning && max !== undefined
+      ? Math.round((max + 0.01) * 100) / 100
+      : this.auctionService.getMinimumBid(this.auction);
+  }
+
+  get canBuyNow(): boolean {
+    return this.canBid && this.auctionService.canBuyNow(this.auction!);
+  }
+
+  /** Step of the bid input: the increment at the current price */
+  get bidStep(): number {
+    return this.auction ? this.auctionService.getBidIncrement(this.auction.currentPrice) : 1;
+  }
+
+  get hasReserve(): boolean {
+    return this.auction?.reservePrice != null;
+  }
+
+  get reserveMet(): boolean {
+    return !!this.auction && reserveMet(this.auction);
   }
 
   getTimerClass(): string {
@@ -148,8 +253,8 @@ export class AuctionDetailComponent implements OnInit, OnDestroy {
       displayName,
       this.bidAmount
     ).subscribe({
-      next: () => {
-        this.notify.success('Bid placed successfully!');
+      next: (result) => {
+        this.announce(result);
         this.loadAuction(this.auction!.id);
       },
       error: (err) => {
@@ -159,6 +264,41 @@ export class AuctionDetailComponent implements OnInit, OnDestroy {
     });
   }
 
+  buyNow(): void {
+    const user = this.authService.currentUser();
+    if (!this.auction || !user || !this.canBuyNow) return;
+    const price = `$${this.auction.buyNowPrice!.toFixed(2)}`;
+    if (!confirm(`Buy "${this.auction.title}" now for ${price}?`)) return;
+
+    this.bidError = '';
+    const displayName = `${user.firstName} ${user.lastName.charAt(0)}.`;
+
+    this.auctionService.buyNow(this.auction.id, user.id, displayName).subscribe({
+      next: () => {
+        this.notify.success(`You bought it for ${price}!`);
+        this.loadAuction(this.auction!.id);
+      },
+      error: (err) => {
+        this.bidError = err.error || 'Failed to buy this item';
+        this.notify.error(this.bidError);
+      }
+    });
+  }
+
+  private announce(result: BidResult): void {
+    const max = `$${result.maxAmount.toFixed(2)}`;
+    if (result.bids.length === 0) {
+      this.notify.success(`Your maximum bid is now ${max}.`);
+    } else if (result.winning) {
+      this.notify.success(`You're the highest bidder. We'll bid for you up to ${max}.`);
+    } else {
+      this.notify.warning(`You've been outbid. Another bidder's maximum is higher than ${max}.`);
+    }
+    if (result.extendedTo) {
+      this.notify.info(`Late bid: the auction now ends ${this.formatDate(result.extendedTo)}.`);
+    }
+  }
+
   formatDate(iso: string): string {
     return new Date(iso).toLocaleDateString('en-US', {
       year: 'numeric', month: 'short', day: 'numeric',
@@ -4,12 +4,19 @@
 // Public page where anyone can browse auctions. Logged-in
 // users see a "Create Auction" button. Supports search and
 // category filtering with countdown timers on each card.
+//
+// The countdowns tick every second. The list is reloaded
+// as soon as a card's countdown runs out, whenever another
+// client changes an auction, and every 30 seconds as a
+// fallback — so new prices and late-bid extensions show up
+// and ended auctions drop off.
 // ============================================================
 
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { RouterLink } from '@angular/router';
+import { Subscription } from 'rxjs';
 import { AuctionService } from '../../services/auction.service';
 import { AuthService } from '../../services/auth.service';
 import { Auction } from '../../product.model';
@@ -29,6 +36,11 @@ export class AuctionListComponent implements OnInit, OnDestroy {
   selectedCategory = '';
   searchTerm = '';
   private timerInterval: any;
+  private ticks = 0;
+  private liveUpdates?: Subscription;
+
+  /** Seconds between reloads that pick up extensions from other bidders */
+  private static readonly RELOAD_EVERY = 30;
 
   constructor(
     private auctionService: AuctionService,
@@ -39,15 +51,23 @@ export class AuctionListComponent implements OnInit, OnDestroy {
     this.loadAuctions();
     this.categories = this.auctionService.getCategories();
 
-    // Refresh timer display every 30 seconds
-    this.timerInterval = setInterval(() => {
-      // Triggers change detection for countdown display
-      this.filteredAuctions = [...this.filteredAuctions];
-    }, 30000);
+    // Tick every second; the interval triggers change detection
+    this.timerInterval = setInterval(() => this.tick(), 1000);
+    this.liveUpdates = this.auctionService.auctionEvents().subscribe(() => this.loadAuctions());
   }
 
   ngOnDestroy(): void {
     if (this.timerInterval) clearInterval(this.timerInterval);
+    this.liveUpdates?.unsubscribe();
+  }
+
+  private tick(): void {
+    this.ticks++;
+    const now = Date.now();
+    const expired = this.allAuctions.some(a => new Date(a.endsAt).getTime() <= now);
+    if (expired || this.ticks % AuctionListComponent.RELOAD_EVERY === 0) {
+      this.loadAuctions();
+    }
   }
 
   private loadAuctions(): void {
@@ -95,10 +115,15 @@ export class AuctionListComponent implements OnInit, OnDestroy {
     const days = Math.floor(diff / (1000 * 60 * 60 * 24));
     const hours = Math.floor((diff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
     const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
+    const seconds = Math.floor((diff % (1000 * 60)) / 1000);
 
     if (days > 0) return `${days}d ${hours}h`;
     if (hours > 0) return `${hours}h ${minutes}m`;
-    return `${minutes}m`;
+    return `${minutes}m ${seconds}s`;
+  }
+
+  canBuyNow(auction: Auction): boolean {
+    return this.auctionService.canBuyNow(auction);
   }
 
   getTimerClass(endsAt: string): string {
@@ -10,39 +10,78 @@
 // 2. Router.navigate() — Programmatic navigation
 //    Used to redirect to checkout when "Proceed to Checkout"
 //    is clicked.
+//
+// 3. Live tax + shipping estimate
+//    The state/ZIP inputs (pre-filled from the default saved
+//    address) feed OrderService.getCostBreakdown(), so the
+//    summary shows estimated tax and the cheapest shipping
+//    option as soon as both are valid.
+//
+// 4. Variants
+//    Each size/color of a product is its own line, showing the
+//    chosen options, the variant's image and its price.
 // ============================================================
 
 import { Component } from '@angular/core';
 import { Router, RouterLink } from '@angular/router';
-import { CurrencyPipe } from '@angular/common';
-import { CartService } from '../../services/cart.service';
+import { CurrencyPipe, PercentPipe } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { CartItem } from '../../product.model';
+import { CartService, unitPrice } from '../../services/cart.service';
+import { variantLabel } from '../../services/product-variants';
+import { OrderService } from '../../services/order.service';
+import { UserProfileService } from '../../services/user-profile.service';
+import { toTaxDestination } from '../../services/tax-calculator.provider';
 
 @Component({
   selector: 'app-cart',
   standalone: true,
-  imports: [RouterLink, CurrencyPipe],
+  imports: [RouterLink, CurrencyPipe, PercentPipe, FormsModule],
   templateUrl: './cart.component.html',
   styleUrl: './cart.component.css'
 })
 export class CartComponent {
 
+  readonly unitPrice = unitPrice;
+  readonly variantLabel = variantLabel;
+
+  // Destination for the tax estimate
+  estimateState: string = '';
+  estimateZip: string = '';
+
   // Public so the template can access it directly
   constructor(
     public cartService: CartService,
+    private orderService: OrderService,
+    userProfileService: UserProfileService,
     private router: Router
-  ) {}
+  ) {
+    const address = userProfileService.defaultAddress();
+    if (address) {
+      this.estimateState = address.state;
+      this.estimateZip = address.zip;
+    }
+  }
+
+  /** Subtotal, estimated tax, cheapest shipping, fees and total */
+  get costBreakdown() {
+    return this.orderService.getCostBreakdown(
+      this.cartService.items(),
+      toTaxDestination({ state: this.estimateState, zip: this.estimateZip })
+    );
+  }
 
   /**
    * Update the quantity of a cart item.
    * The CartService handles removal if quantity drops to 0.
    */
-  updateQuantity(productId: number, quantity: number): void {
-    this.cartService.updateQuantity(productId, quantity);
+  updateQuantity(item: CartItem, quantity: number): void {
+    this.cartService.updateQuantity(item.product.id, quantity, item.variant?.id);
   }
 
   /** Remove an item from the cart */
-  removeItem(productId: number): void {
-    this.cartService.removeFromCart(productId);
+  removeItem(item: CartItem): void {
+    this.cartService.removeFromCart(item.product.id, item.variant?.id);
   }
 
   /** Navigate to the checkout page */
@@ -23,21 +23,53 @@
 //    - .touched / .untouched  → Has the user interacted with it?
 //    - .dirty / .pristine     → Has the value been changed?
 //    - .errors                → Object containing active errors
+//
+// 5. Placing the order
+//    On submit, OrderService.placeOrder() turns the cart into a
+//    real Order for the logged-in user. The success screen then
+//    links straight to it in the order history.
+//
+// 6. Address book
+//    Same idea for shipping: the default saved address is
+//    pre-selected, "new address" enables the address inputs,
+//    and a new address can be saved back to the profile.
+//
+// 7. Saved cards
+//    The default saved card is pre-selected. Picking "new card"
+//    enables the card inputs; otherwise they are disabled so
+//    they don't count towards form validity. A new card can be
+//    saved (tokenized) for next time — never the CVV — once
+//    the order has gone through.
+//
+// 8. Shipping methods
+//    Options come from OrderService once the address has a
+//    state and ZIP. The picked method is kept valid as the
+//    options change (e.g. free shipping replaces standard),
+//    falling back to the cheapest one.
 // ============================================================
 
 import { Component, OnInit } from '@angular/core';
 import { Router, RouterLink } from '@angular/router';
 import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
-import { CurrencyPipe } from '@angular/common';
-import { CartService } from '../../services/cart.service';
+import { CurrencyPipe, DatePipe, PercentPipe } from '@angular/common';
+import { EMPTY, switchMap } from 'rxjs';
+import { Order, PostalAddress, ShippingMethodId } from '../../product.model';
+import { CartService, unitPrice } from '../../services/cart.service';
+import { variantLabel } from '../../services/product-variants';
+import { OrderService } from '../../services/order.service';
+import { AuthService } from '../../services/auth.service';
 import { UserProfileService } from '../../services/user-profile.service';
+import { toTaxDestination } from '../../services/tax-calculator.provider';
+import { DeliveryWindow, ShippingOption, deliveryWindow } from '../../services/shipping-calculator.provider';
+import { PaymentMethodService } from '../../services/payment-method.service';
+import { cardFormatValidator } from '../../services/payment-vault.provider';
 import { NotificationService } from '../../services/notification.service';
 
 @Component({
   selector: 'app-checkout',
   standalone: true,
   // ReactiveFormsModule provides [formGroup], formControlName, etc.
-  imports: [ReactiveFormsModule, RouterLink, CurrencyPipe],
+  imports: [ReactiveFormsModule, RouterLink, CurrencyPipe, DatePipe, PercentPipe],
   templateUrl: './checkout.component.html',
   styleUrl: './checkout.component.css'
 })
@@ -46,12 +78,21 @@ export class CheckoutComponent implements OnInit {
   checkoutForm!: FormGroup;  // The main form group
   orderPlaced: boolean = false;  // Shows success message after order
   profileAutoFilled: boolean = false;  // Shows auto-fill banner
+  placedOrder: Order | null = null;  // The order created on submit
+  submitting: boolean = false;  // Prevents double submission
+  stockError: string = '';  // Shown when items sold out since they were added
+  repriced: string[] = [];  // Products whose price changed just before submitting
+  readonly unitPrice = unitPrice;
+  readonly variantLabel = variantLabel;
 
   constructor(
     private fb: FormBuilder,    // FormBuilder for easier form creation
     public cartService: CartService,
+    private orderService: OrderService,
+    private authService: AuthService,
     private router: Router,
-    private userProfileService: UserProfileService,
+    public userProfileService: UserProfileService,
+    public paymentMethods: PaymentMethodService,
     private notify: NotificationService
   ) {}
 
@@ -62,6 +103,16 @@ export class CheckoutComponent implements OnInit {
       return;
     }
 
+    // Items may have sold out since they were added to the cart
+    this.checkStock();
+
+    // Saved carts may hold old prices — re-read them from the catalog
+    this.cartService.refreshProducts().subscribe(repriced => {
+      if (repriced.length > 0) {
+        this.notify.info(`Prices updated since you added: ${repriced.join(', ')}.`);
+      }
+    });
+
     // ── Build the form ────────────────────────────────────────
     // FormBuilder.group() creates a FormGroup from an object.
     // Each key becomes a FormControl.
@@ -81,7 +132,10 @@ export class CheckoutComponent implements OnInit {
         Validators.email            // Built-in email format validation
       ]],
 
-      // Shipping Address
+      // Shipping Address — 'new' or the id of a saved address
+      shippingChoice: ['new'],
+      saveAddress: [false],
+      addressLabel: [''],
       address: ['', Validators.required],
       city: ['', Validators.required],
       state: ['', Validators.required],
@@ -90,11 +144,17 @@ export class CheckoutComponent implements OnInit {
         Validators.pattern(/^\d{5}$/)  // Exactly 5 digits
       ]],
 
+      // Shipping method — one of the options for the address
+      shippingMethod: [null as ShippingMethodId | null, Validators.required],
+
       // Payment (demo only — not real payment processing!)
+      // 'new' or the id of a saved card
+      paymentMethod: ['new'],
+      saveCard: [false],
       cardName: ['', Validators.required],
       cardNumber: ['', [
         Validators.required,
-        Validators.pattern(/^\d{16}$/)  // Exactly 16 digits
+        Validators.pattern(/^\d{15,16}$/)  // 15 (Amex) or 16 digits
       ]],
       expiry: ['', [
         Validators.required,
@@ -102,8 +162,30 @@ export class CheckoutComponent implements OnInit {
       ]],
       cvv: ['', [
         Validators.required,
-        Validators.pattern(/^\d{3}$/)  // Exactly 3 digits
+        Validators.pattern(/^\d{3,4}$/)  // 4 digits for Amex, else 3
       ]]
+    }, {
+      validators: cardFormatValidator   // Number and CVV lengths must suit the card's brand
+    });
+
+    // Address inputs only apply when shipping to a new address
+    this.checkoutForm.get('shippingChoice')!.valueChanges.subscribe(choice => {
+      this.toggleControls(['address', 'city', 'state', 'zipCode', 'saveAddress', 'addressLabel'], choice === 'new');
+    });
+
+    // Saving a new address needs a label for the address book
+    this.checkoutForm.get('saveAddress')!.valueChanges.subscribe(save => {
+      const label = this.checkoutForm.get('addressLabel')!;
+      label.setValidators(save ? [Validators.required, Validators.maxLength(30)] : []);
+      label.updateValueAndValidity();
+    });
+
+    // Keep the picked shipping method among the current options
+    this.checkoutForm.valueChanges.subscribe(() => this.syncShippingMethod());
+
+    // Card inputs only apply when paying with a new card
+    this.checkoutForm.get('paymentMethod')!.valueChanges.subscribe(method => {
+      this.toggleControls(['cardName', 'cardNumber', 'expiry', 'cvv', 'saveCard'], method === 'new');
     });
 
     // ── Auto-fill from saved profile ────────────────────────────
@@ -116,18 +198,24 @@ export class CheckoutComponent implements OnInit {
       this.checkoutForm.patchValue({
         firstName: profile.firstName,
         lastName: profile.lastName,
-        email: profile.email,
-        address: profile.shippingAddress,
-        city: profile.shippingCity,
-        state: profile.shippingState,
-        zipCode: profile.shippingZip,
-        cardName: profile.cardName,
-        cardNumber: profile.cardNumber,
-        expiry: profile.cardExpiry,
-        cvv: profile.cardCvv
+        email: profile.email
       });
       this.profileAutoFilled = true;
     }
+
+    // Pre-select the default saved address
+    const defaultAddress = this.userProfileService.defaultAddress();
+    if (defaultAddress) {
+      this.checkoutForm.patchValue({ shippingChoice: defaultAddress.id });
+    }
+
+    // Pre-select the default saved card
+    const defaultCard = this.paymentMethods.defaultCard();
+    if (defaultCard) {
+      this.checkoutForm.patchValue({ paymentMethod: defaultCard.id });
+    }
+
+    this.syncShippingMethod();
   }
 
   /**
@@ -138,6 +226,38 @@ export class CheckoutComponent implements OnInit {
     return this.checkoutForm.controls;
   }
 
+  /** Where the order ships: the picked saved address or the typed one */
+  get shippingDestination(): PostalAddress {
+    const choice = this.checkoutForm.get('shippingChoice')!.value;
+    const saved = this.userProfileService.addresses().find(a => a.id === choice);
+    if (saved) return saved;
+
+    const { address, city, state, zipCode } = this.checkoutForm.getRawValue();
+    return { street: address, city, state, zip: zipCode };
+  }
+
+  /** Shipping options for the current address (none until state + ZIP are valid) */
+  get shippingOptions(): ShippingOption[] {
+    return this.orderService.getShippingOptions(
+      this.cartService.items(),
+      toTaxDestination(this.shippingDestination)
+    );
+  }
+
+  /** Subtotal, tax, shipping, fees and total — updates live as the address is entered */
+  get costBreakdown() {
+    return this.orderService.getCostBreakdown(
+      this.cartService.items(),
+      toTaxDestination(this.shippingDestination),
+      this.checkoutForm.get('shippingMethod')!.value
+    );
+  }
+
+  /** When an option would arrive if ordered now */
+  arrival(option: ShippingOption): DeliveryWindow {
+    return deliveryWindow(option);
+  }
+
   /**
    * Handle form submission.
    * First marks all fields as touched (to show validation errors),
@@ -148,21 +268,103 @@ export class CheckoutComponent implements OnInit {
     // This is useful when a user clicks "Submit" without filling anything
     this.checkoutForm.markAllAsTouched();
 
-    if (this.checkoutForm.valid) {
-      // In a real app, you'd send this to a backend API
-      console.log('Order placed!', this.checkoutForm.value);
+    const user = this.authService.currentUser();
+    if (this.checkoutForm.invalid || !user || this.submitting) return;
+
+    const shippingAddress = this.shippingDestination;
+    const shippingMethod = this.checkoutForm.get('shippingMethod')!.value;
+
+    // Always place the order against current catalog prices —
+    // if they changed, stop so the shopper sees the new total first
+    this.submitting = true;
+    this.repriced = [];
+    this.cartService.refreshProducts().pipe(
+      switchMap(repriced => {
+        if (repriced.length > 0) {
+          this.repriced = repriced;
+          this.submitting = false;
+          return EMPTY;
+        }
+        return this.orderService.placeOrder(user, this.cartService.items(), shippingAddress, shippingMethod);
+      })
+    ).subscribe({
+      next: (order) => {
+        // Show success message with a link to the new order
+        this.placedOrder = order;
+        this.orderPlaced = true;
+        this.submitting = false;
+        this.notify.success(`Order ${order.orderNumber} placed successfully!`);
+        this.saveNewAddress();
+        this.saveNewCard();
+
+        // Clear the cart
+        this.cartService.clearCart();
+      },
+      error: (err) => {
+        this.submitting = false;
+        if (err?.status === 409) {
+          // Stock changed between cart and checkout
+          this.stockError = err.error;
+          this.cartService.reconcileStock();
+          if (this.cartService.items().length === 0) {
+            this.router.navigate(['/cart']);
+          }
+        }
+        this.notify.error(err?.error || 'Failed to place order. Please try again.');
+      }
+    });
+  }
+
+  /** Add the typed address to the address book if the user asked to */
+  private saveNewAddress(): void {
+    const { shippingChoice, saveAddress, addressLabel } = this.checkoutForm.value;
+    if (shippingChoice !== 'new' || !saveAddress) return;
+
+    const { street, city, state, zip } = this.shippingDestination;
+    this.userProfileService.saveAddress({
+      label: addressLabel.trim(),
+      street,
+      city,
+      state: state.toUpperCase(),
+      zip,
+      isDefault: false
+    });
+  }
 
-      // Show success message
-      this.orderPlaced = true;
-      this.notify.success('Order placed successfully!');
+  /** Tokenize and save the new card if the user asked to (only once the order went through) */
+  private saveNewCard(): void {
+    const { paymentMethod, saveCard, cardName, cardNumber, expiry, cvv } = this.checkoutForm.value;
+    if (paymentMethod !== 'new' || !saveCard) return;
+    this.paymentMethods.addCard({ cardName, cardNumber, expiry, cvv }).subscribe({
+      error: (err) => this.notify.warning(`Your order was placed, but the card wasn't saved: ${err?.error || 'it was rejected.'}`)
+    });
+  }
 
-      // Clear the cart
-      this.cartService.clearCart();
+  /** Select the cheapest option if the current pick isn't offered */
+  private syncShippingMethod(): void {
+    const control = this.checkoutForm.get('shippingMethod')!;
+    const options = this.shippingOptions;
+    if (!options.some(o => o.method === control.value)) {
+      control.setValue(options[0]?.method ?? null, { emitEvent: false });
+    }
+  }
+
+  private toggleControls(names: string[], enabled: boolean): void {
+    for (const name of names) {
+      const control = this.checkoutForm.get(name)!;
+      if (enabled) {
+        control.enable({ emitEvent: false });
+      } else {
+        control.disable({ emitEvent: false });
+      }
+    }
+  }
 
-      // Redirect to home after 3 seconds
-      setTimeout(() => {
-        this.router.navigate(['/']);
-      }, 3000);
+  /** Cap cart quantities at current stock and explain any changes */
+  private checkStock(): void {
+    const adjusted = this.cartService.reconcileStock();
+    if (adjusted.length > 0) {
+      this.stockError = `Some items sold out since you added them: ${adjusted.join(', ')}. Your cart has been updated.`;
     }
   }
 }
@@ -3,7 +3,8 @@
 // ============================================================
 // Form for logged-in users to create new auction listings.
 // Fields: title, description, image URL, category, starting
-// price, and duration. Redirects to /auctions on success.
+// price, optional hidden reserve, optional Buy It Now price,
+// and duration. Redirects to /auctions on success.
 // ============================================================
 
 import { Component } from '@angular/core';
@@ -32,6 +33,8 @@ export class CreateAuctionComponent {
     imageUrl: '',
     category: '',
     startingPrice: 0,
+    reservePrice: null as number | null,
+    buyNowPrice: null as number | null,
     durationHours: 72
   };
 
@@ -69,6 +72,22 @@ export class CreateAuctionComponent {
       return;
     }
 
+    const reserve = this.auction.reservePrice;
+    if (reserve != null && reserve <= this.auction.startingPrice) {
+      this.error = 'Reserve price must be above the starting price.';
+      return;
+    }
+
+    const buyNow = this.auction.buyNowPrice;
+    if (buyNow != null && buyNow <= this.auction.startingPrice) {
+      this.error = 'Buy It Now price must be above the starting price.';
+      return;
+    }
+    if (buyNow != null && reserve != null && buyNow < reserve) {
+      this.error = 'Buy It Now price can\'t be below the reserve price.';
+      return;
+    }
+
     const user = this.authService.currentUser();
     if (!user) {
       this.error = 'You must be logged in to create an auction.';
@@ -91,6 +110,8 @@ export class CreateAuctionComponent {
       imageUrl: this.auction.imageUrl.trim(),
       category: this.auction.category,
       startingPrice: this.auction.startingPrice,
+      reservePrice: reserve ?? undefined,
+      buyNowPrice: buyNow ?? undefined,
       endsAt: endsAt.toISOString()
     }).subscribe({
       next: () => {
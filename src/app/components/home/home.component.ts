@@ -65,8 +65,11 @@ export class HomeComponent implements OnInit {
 
   /** Handle add to cart from featured product cards */
   onAddToCart(product: Product): void {
-    this.cartService.addToCart(product);
-    this.notify.success(`${product.name} added to cart!`);
+    if (this.cartService.addToCart(product) > 0) {
+      this.notify.success(`${product.name} added to cart!`);
+    } else {
+      this.notify.warning(`No more ${product.name} in stock.`);
+    }
   }
 
   /** Handle newsletter subscribe (demo — just shows a toast) */
@@ -9,6 +9,7 @@ import {
 import { Router, RouterLink, ActivatedRoute } from '@angular/router';
 import { AuthService } from '../../services/auth.service';
 import { NotificationService } from '../../services/notification.service';
+import { DevPersonaKey } from '../../services/dev-identity.provider';
 
 @Component({
   selector: 'app-login',
@@ -24,7 +25,7 @@ export class LoginComponent {
 
   constructor(
     private fb: FormBuilder,
-    private authService: AuthService,
+    public authService: AuthService,
     private router: Router,
     private route: ActivatedRoute,
     private notify: NotificationService
@@ -53,10 +54,7 @@ export class LoginComponent {
       await this.authService.login(email, password);
 
       this.notify.success('Welcome back!');
-
-      // Redirect to wherever the user was trying to go, or home
-      const returnUrl = this.route.snapshot.queryParams['returnUrl'] || '/';
-      this.router.navigateByUrl(returnUrl);
+      this.redirectAfterLogin();
     } catch (error: any) {
       this.errorMessage =
         error?.error?.error || 'Login failed. Please try again.';
@@ -65,4 +63,21 @@ export class LoginComponent {
     }
   }
 
+  /** Dev builds only: password-less sign-in as a demo persona */
+  signInAsPersona(key: DevPersonaKey): void {
+    try {
+      const user = this.authService.signInAsPersona(key);
+      this.notify.success(`Signed in as ${user.firstName} ${user.lastName}`);
+      this.redirectAfterLogin();
+    } catch (error: any) {
+      this.errorMessage = error?.error?.error || 'Demo sign-in failed.';
+    }
+  }
+
+  // Redirect to wherever the user was trying to go, or home
+  private redirectAfterLogin(): void {
+    const returnUrl = this.route.snapshot.queryParams['returnUrl'] || '/';
+    this.router.navigateByUrl(returnUrl);
+  }
+
 }
@@ -3,7 +3,7 @@
 // ============================================================
 // Tabbed view: "My Listings" shows auctions the user created,
 // "My Bids" shows auctions the user has bid on with
-// winning/outbid indicators.
+// winning/outbid indicators and the user's maximum bid.
 // ============================================================
 
 import { Component, OnInit } from '@angular/core';
@@ -75,6 +75,14 @@ export class MyAuctionsComponent implements OnInit {
     return this.auctionService.isHighestBidder(auction.id, user.id);
   }
 
+  /** The user's secret maximum, or their highest bid if they set none */
+  getMyMaxBid(auction: Auction): number {
+    const user = this.authService.currentUser();
+    if (!user) return 0;
+    return this.auctionService.getUserMaxBid(auction.id, user.id)
+      ?? this.auctionService.getUserHighestBid(auction.id, user.id);
+  }
+
   getStatusClass(status: string): string {
     const map: Record<string, string> = {
       'active': 'status-active',
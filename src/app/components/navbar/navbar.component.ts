@@ -1,13 +1,31 @@
 import { Component } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CurrencyPipe } from '@angular/common';
 import { Router, RouterLink, RouterLinkActive } from '@angular/router';
 import { FormsModule } from '@angular/forms';
+import { Subject, catchError, debounceTime, distinctUntilChanged, map, of, switchMap } from 'rxjs';
 import { CartService } from '../../services/cart.service';
 import { AuthService } from '../../services/auth.service';
+import { NotificationService } from '../../services/notification.service';
+import { DevPersonaKey } from '../../services/dev-identity.provider';
+import { SearchSuggestionService, SearchSuggestions } from '../../services/search-suggestion.service';
+import { HighlightPipe } from '../../pipes/highlight.pipe';
+
+/** Wait this long after the last keystroke before suggesting */
+const SUGGEST_DEBOUNCE_MS = 200;
+const MIN_SUGGEST_LENGTH = 2;
+
+/** One row of the dropdown, in keyboard order */
+type SuggestionOption =
+  | { kind: 'recent'; term: string }
+  | { kind: 'product'; id: number }
+  | { kind: 'category'; category: string }
+  | { kind: 'auction'; id: number };
 
 @Component({
   selector: 'app-navbar',
   standalone: true,
-  imports: [RouterLink, RouterLinkActive, FormsModule],
+  imports: [RouterLink, RouterLinkActive, FormsModule, CurrencyPipe, HighlightPipe],
   templateUrl: './navbar.component.html',
   styleUrl: './navbar.component.css'
 })
@@ -15,20 +33,143 @@ export class NavbarComponent {
   searchTerm: string = '';
   mobileMenuOpen: boolean = false;
 
+  // Typeahead
+  suggestions: SearchSuggestions | null = null;
+  suggestionsOpen = false;
+  activeIndex = -1;                      // Highlighted row for keyboard navigation
+  private terms = new Subject<string>();
+
   constructor(
     public cartService: CartService,
     public authService: AuthService,
-    private router: Router
-  ) {}
+    public searchSuggestions: SearchSuggestionService,
+    private router: Router,
+    private notify: NotificationService
+  ) {
+    // Suggest once typing pauses; switchMap drops answers for stale terms
+    this.terms.pipe(
+      map(term => term.trim()),
+      debounceTime(SUGGEST_DEBOUNCE_MS),
+      distinctUntilChanged(),
+      // A failed lookup just shows no suggestions; typing keeps working
+      switchMap(term => term.length >= MIN_SUGGEST_LENGTH
+        ? this.searchSuggestions.suggest(term).pipe(catchError(() => of(null)))
+        : of(null)),
+      takeUntilDestroyed()
+    ).subscribe(suggestions => {
+      this.suggestions = suggestions;
+      this.activeIndex = -1;
+    });
+  }
 
   onSearch(): void {
-    if (this.searchTerm.trim()) {
+    if (this.activeIndex >= 0) {
+      this.selectOption(this.options[this.activeIndex]);
+      return;
+    }
+    this.searchFor(this.searchTerm);
+  }
+
+  // ── Typeahead ─────────────────────────────────────────────
+
+  /** Rows in the dropdown: recent searches while the box is empty, otherwise suggestions */
+  get options(): SuggestionOption[] {
+    if (this.searchTerm.trim().length < MIN_SUGGEST_LENGTH) {
+      return this.searchTerm.trim() ? [] : this.searchSuggestions.recentSearches().map(term => ({ kind: 'recent', term }));
+    }
+    if (!this.suggestions) return [];
+    return [
+      ...this.suggestions.products.map(p => ({ kind: 'product', id: p.id }) as const),
+      ...this.suggestions.categories.map(category => ({ kind: 'category', category }) as const),
+      ...this.suggestions.auctions.map(a => ({ kind: 'auction', id: a.id }) as const)
+    ];
+  }
+
+  /** Row index of a suggestion, for the active highlight */
+  optionIndex(kind: SuggestionOption['kind'], offset: number): number {
+    const before = { recent: 0, product: 0, category: 0, auction: 0 };
+    if (this.suggestions) {
+      before.category = this.suggestions.products.length;
+      before.auction = before.category + this.suggestions.categories.length;
+    }
+    return before[kind] + offset;
+  }
+
+  onSearchInput(): void {
+    this.suggestionsOpen = true;
+    this.activeIndex = -1;
+    this.terms.next(this.searchTerm);
+  }
+
+  openSuggestions(): void {
+    this.suggestionsOpen = true;
+  }
+
+  closeSuggestions(): void {
+    this.suggestionsOpen = false;
+    this.activeIndex = -1;
+  }
+
+  /** Arrow keys move through the rows, Escape closes; Enter is handled by the form */
+  onSearchKeydown(event: KeyboardEvent): void {
+    const count = this.options.length;
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        event.preventDefault();
+        this.suggestionsOpen = true;
+        if (count === 0) return;
+        // Cycle through the rows and back to the box (-1)
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        this.activeIndex = (this.activeIndex + 1 + step + count + 1) % (count + 1) - 1;
+        break;
+      }
+      case 'Escape':
+        this.closeSuggestions();
+        break;
+    }
+  }
+
+  selectOption(option: SuggestionOption): void {
+    switch (option.kind) {
+      case 'recent':
+        this.searchTerm = option.term;
+        this.searchFor(option.term);
+        return;
+      case 'product':
+        this.router.navigate(['/product', option.id]);
+        break;
+      case 'category':
+        this.router.navigate(['/products'], { queryParams: { category: option.category } });
+        break;
+      case 'auction':
+        this.router.navigate(['/auction', option.id]);
+        break;
+    }
+    this.finishSearch();
+  }
+
+  removeRecent(term: string, event: Event): void {
+    event.stopPropagation();
+    this.searchSuggestions.removeRecentSearch(term);
+    this.activeIndex = -1;
+  }
+
+  private searchFor(term: string): void {
+    if (term.trim()) {
       this.router.navigate(['/products'], {
-        queryParams: { search: this.searchTerm.trim() }
+        queryParams: { search: term.trim() }
       });
     } else {
       this.router.navigate(['/products']);
     }
+    this.finishSearch();
+  }
+
+  /** Remember what was typed and close everything */
+  private finishSearch(): void {
+    this.searchSuggestions.addRecentSearch(this.searchTerm);
+    this.closeSuggestions();
     this.mobileMenuOpen = false;
   }
 
@@ -36,6 +177,18 @@ export class NavbarComponent {
     this.mobileMenuOpen = !this.mobileMenuOpen;
   }
 
+  /** Dev-only role switcher: hop to another demo persona */
+  switchPersona(key: DevPersonaKey): void {
+    const user = this.authService.signInAsPersona(key);
+    this.notify.info(`Now browsing as ${user.firstName} ${user.lastName}`);
+
+    // The admin guard only runs on navigation, so leave admin pages
+    if (!this.authService.isAdmin() && this.router.url.startsWith('/admin')) {
+      this.router.navigate(['/']);
+    }
+    this.mobileMenuOpen = false;
+  }
+
   logout(): void {
     this.authService.logout();
     this.mobileMenuOpen = false;
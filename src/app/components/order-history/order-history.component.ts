@@ -18,14 +18,19 @@
 //    The route itself is protected by authGuard, but the
 //    component also checks isLoggedIn() as a safety net
 //    and redirects to /login if somehow accessed directly.
+//
+// 4. Deep link to an order
+//    An `?order=<id>` query param (used by the checkout success
+//    screen) expands that order as soon as the list loads.
 // ============================================================
 
 import { Component, OnInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { Router, RouterLink } from '@angular/router';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
 import { Order } from '../../product.model';
 import { OrderService } from '../../services/order.service';
 import { AuthService } from '../../services/auth.service';
+import { SHIPPING_METHOD_LABELS } from '../../services/shipping-calculator.provider';
 
 @Component({
   selector: 'app-order-history',
@@ -39,11 +44,13 @@ export class OrderHistoryComponent implements OnInit {
   orders: Order[] = [];
   loading = true;
   expandedOrderId: number | null = null;
+  readonly shippingLabels = SHIPPING_METHOD_LABELS;
 
   constructor(
     private orderService: OrderService,
     private authService: AuthService,
-    private router: Router
+    private router: Router,
+    private route: ActivatedRoute
   ) {}
 
   ngOnInit(): void {
@@ -60,6 +67,12 @@ export class OrderHistoryComponent implements OnInit {
       next: (orders) => {
         this.orders = orders;
         this.loading = false;
+
+        // Expand the order linked from checkout, if any
+        const linkedId = Number(this.route.snapshot.queryParamMap.get('order'));
+        if (linkedId && orders.some(o => o.id === linkedId)) {
+          this.expandedOrderId = linkedId;
+        }
       },
       error: () => {
         this.loading = false;
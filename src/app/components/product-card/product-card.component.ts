@@ -22,6 +22,7 @@ import { RouterLink } from '@angular/router';
 import { CurrencyPipe } from '@angular/common';
 import { Product } from '../../product.model';
 import { TruncatePipe } from '../../pipes/truncate.pipe';
+import { hasVariants, priceRange } from '../../services/product-variants';
 
 @Component({
   selector: 'app-product-card',
@@ -41,6 +42,16 @@ export class ProductCardComponent {
   // EventEmitter<Product> means this event carries a Product payload.
   @Output() addedToCart = new EventEmitter<Product>();
 
+  /** Sold in sizes/colors — must be picked on the product page */
+  get hasVariants(): boolean {
+    return hasVariants(this.product);
+  }
+
+  /** Lowest and highest variant price ("From $X" when they differ) */
+  get price(): { min: number; max: number } {
+    return priceRange(this.product);
+  }
+
   /**
    * Called when "Add to Cart" button is clicked.
    * Emits the product to the parent component.
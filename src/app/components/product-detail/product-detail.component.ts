@@ -15,11 +15,23 @@
 //    component-based architecture!
 //
 // 4. ReviewService integration
-//    Reviews are loaded alongside the product. The average
-//    rating is computed from approved reviews rather than
-//    the hardcoded product.rating field. Users can submit
-//    reviews if they're logged in and haven't already
-//    reviewed this product.
+//    Reviews are loaded alongside the product. The rating,
+//    review count and star histogram come from the product's
+//    aggregate, which ReviewService keeps in sync with the
+//    approved reviews. Users can submit reviews if they're
+//    logged in and haven't already reviewed this product —
+//    and, when the store requires it, have bought it. Reviews
+//    from buyers carry a "Verified Purchase" badge, and the
+//    list can be narrowed to those. Authors can edit (back to
+//    moderation) or delete their review and attach photos;
+//    store responses appear under the review they answer.
+//    The list is paged (REVIEWS_PER_PAGE) and sortable;
+//    helpful / not-helpful votes are one per user and toggle.
+//
+// 5. Variants
+//    Products sold in sizes or colors show <app-variant-picker>.
+//    Price, image and stock follow the chosen variant, and the
+//    add-to-cart button waits until every option is picked.
 // ============================================================
 
 import { Component, OnInit } from '@angular/core';
@@ -28,16 +40,21 @@ import { CurrencyPipe, CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { ProductService } from '../../services/product.service';
 import { CartService } from '../../services/cart.service';
-import { ReviewService } from '../../services/review.service';
+import { MAX_REVIEW_IMAGES, ReviewService, readImageAttachment, userVote } from '../../services/review.service';
 import { AuthService } from '../../services/auth.service';
 import { NotificationService } from '../../services/notification.service';
-import { Product, Review } from '../../product.model';
+import { forkJoin } from 'rxjs';
+import { Product, ProductVariant, Review, ReviewPage, ReviewSort, ReviewVote } from '../../product.model';
 import { ProductCardComponent } from '../product-card/product-card.component';
+import { VariantPickerComponent } from '../variant-picker/variant-picker.component';
+import { hasVariants, priceRange, variantLabel, variantPrice } from '../../services/product-variants';
+
+const REVIEWS_PER_PAGE = 5;
 
 @Component({
   selector: 'app-product-detail',
   standalone: true,
-  imports: [CurrencyPipe, CommonModule, FormsModule, RouterLink, ProductCardComponent],
+  imports: [CurrencyPipe, CommonModule, FormsModule, RouterLink, ProductCardComponent, VariantPickerComponent],
   templateUrl: './product-detail.component.html',
   styleUrl: './product-detail.component.css'
 })
@@ -46,18 +63,32 @@ export class ProductDetailComponent implements OnInit {
   product: Product | undefined;      // The product to display
   relatedProducts: Product[] = [];   // Products in the same category
   quantity: number = 1;              // Selected quantity
+  selectedVariant: ProductVariant | undefined;   // Set once every option is chosen
 
   // ── Reviews ─────────────────────────────────────────────
-  reviews: Review[] = [];
-  reviewCount = 0;
-  averageRating = 0;
+  reviews: Review[] = [];                // All approved reviews (for counts)
+  reviewPage: ReviewPage = { reviews: [], total: 0, page: 1, totalPages: 1 };
+  reviewSort: ReviewSort = 'helpful';
+  readonly sortOptions: { value: ReviewSort; label: string }[] = [
+    { value: 'helpful', label: 'Most helpful' },
+    { value: 'newest', label: 'Newest' },
+    { value: 'highest', label: 'Highest rating' },
+    { value: 'lowest', label: 'Lowest rating' }
+  ];
   showReviewForm = false;
   hasReviewed = false;
+  hasPurchased = false;
+  verifiedOnly = false;
+  myReview: Review | undefined;          // The user's own review, any status
+  enlargedImage: string | null = null;   // Photo shown in the lightbox
 
   // Review form fields
+  editingReviewId: number | null = null;
   newRating = 5;
   newTitle = '';
   newComment = '';
+  newImages: string[] = [];
+  readonly maxImages = MAX_REVIEW_IMAGES;
 
   constructor(
     private route: ActivatedRoute,
@@ -110,15 +141,57 @@ export class ProductDetailComponent implements OnInit {
   private loadReviews(productId: number): void {
     this.reviewService.getReviewsByProduct(productId).subscribe(reviews => {
       this.reviews = reviews;
-      this.reviewCount = reviews.length;
-      this.averageRating = this.reviewService.getAverageRating(productId);
 
       // Check if the current user has already reviewed
       const user = this.authService.currentUser();
       if (user) {
-        this.hasReviewed = this.reviewService.hasUserReviewed(productId, user.id);
+        this.myReview = this.reviewService.getUserReview(productId, user.id);
+        this.hasReviewed = !!this.myReview;
       }
     });
+    this.loadReviewPage(this.reviewPage.page);
+
+    const user = this.authService.currentUser();
+    if (user) {
+      this.reviewService.hasPurchased(productId, user.id)
+        .subscribe(purchased => this.hasPurchased = purchased);
+    }
+  }
+
+  /** Fetch one page of reviews with the current sort and filter */
+  loadReviewPage(page: number): void {
+    if (!this.product) return;
+    this.reviewService.getReviewPage(this.product.id, {
+      sort: this.reviewSort,
+      verifiedOnly: this.verifiedOnly,
+      page,
+      limit: REVIEWS_PER_PAGE
+    }).subscribe(reviewPage => this.reviewPage = reviewPage);
+  }
+
+  /** Sort or filter changed — start again from the first page */
+  onReviewOptionsChange(): void {
+    this.loadReviewPage(1);
+  }
+
+  get verifiedCount(): number {
+    return this.reviews.filter(r => r.verifiedPurchase).length;
+  }
+
+  /** Logged-in users may review unless the store requires a purchase they haven't made */
+  get canReview(): boolean {
+    return this.hasPurchased || !this.reviewService.requiresPurchase;
+  }
+
+  /** Histogram rows, 5★ first, with each star's share of the reviews */
+  get ratingBreakdown(): { stars: number; count: number; percent: number }[] {
+    const histogram = this.product?.ratingHistogram ?? [0, 0, 0, 0, 0];
+    const total = this.product?.ratingCount ?? 0;
+    return [5, 4, 3, 2, 1].map(stars => ({
+      stars,
+      count: histogram[stars - 1],
+      percent: total > 0 ? Math.round((histogram[stars - 1] / total) * 100) : 0
+    }));
   }
 
   /**
@@ -134,9 +207,44 @@ export class ProductDetailComponent implements OnInit {
     return stars;
   }
 
+  // ── Variants ──────────────────────────────────────────────
+
+  get hasVariants(): boolean {
+    return !!this.product && hasVariants(this.product);
+  }
+
+  /** Still waiting for the shopper to pick every option */
+  get needsVariant(): boolean {
+    return this.hasVariants && !this.selectedVariant;
+  }
+
+  /** The chosen variant's price, else the product's (or its range) */
+  get price(): { min: number; max: number } {
+    if (!this.product) return { min: 0, max: 0 };
+    if (!this.needsVariant) {
+      const price = variantPrice(this.product, this.selectedVariant);
+      return { min: price, max: price };
+    }
+    return priceRange(this.product);
+  }
+
+  get image(): string {
+    return this.selectedVariant?.image ?? this.product?.image ?? '';
+  }
+
+  /** Units of the chosen variant (or the product) in stock */
+  get stock(): number {
+    return this.selectedVariant?.stock ?? this.product?.stock ?? 0;
+  }
+
+  onVariantChange(variant: ProductVariant | undefined): void {
+    this.selectedVariant = variant;
+    this.quantity = 1;
+  }
+
   /** Increase the quantity (can't exceed stock) */
   incrementQuantity(): void {
-    if (this.product && this.quantity < this.product.stock) {
+    if (this.product && this.quantity < this.stock) {
       this.quantity++;
     }
   }
@@ -150,23 +258,85 @@ export class ProductDetailComponent implements OnInit {
 
   /** Add the product to the cart with the selected quantity */
   addToCart(): void {
-    if (this.product) {
-      this.cartService.addToCart(this.product, this.quantity);
-      this.notify.success(`${this.product.name} added to cart!`);
+    if (this.product && !this.needsVariant) {
+      const added = this.cartService.addToCart(this.product, this.quantity, this.selectedVariant);
+      const name = this.selectedVariant
+        ? `${this.product.name} (${variantLabel(this.selectedVariant)})`
+        : this.product.name;
+      if (added === 0) {
+        this.notify.warning(`No more ${name} in stock.`);
+      } else if (added < this.quantity) {
+        this.notify.warning(`Only ${added} more ${name} available — added ${added} to cart.`);
+      } else {
+        this.notify.success(`${name} added to cart!`);
+      }
       this.quantity = 1;  // Reset quantity after adding
     }
   }
 
   /** Handle "Add to Cart" from related product cards */
   onAddToCart(product: Product): void {
-    this.cartService.addToCart(product);
-    this.notify.success(`${product.name} added to cart!`);
+    if (this.cartService.addToCart(product) > 0) {
+      this.notify.success(`${product.name} added to cart!`);
+    } else {
+      this.notify.warning(`No more ${product.name} in stock.`);
+    }
   }
 
   // ── Review Methods ────────────────────────────────────────
 
   toggleReviewForm(): void {
-    this.showReviewForm = !this.showReviewForm;
+    if (this.showReviewForm) {
+      this.resetReviewForm();
+    } else {
+      this.showReviewForm = true;
+    }
+  }
+
+  /** Open the form prefilled with the user's own review */
+  editMyReview(): void {
+    if (!this.myReview) return;
+    this.editingReviewId = this.myReview.id;
+    this.newRating = this.myReview.rating;
+    this.newTitle = this.myReview.title;
+    this.newComment = this.myReview.comment;
+    this.newImages = [...(this.myReview.images ?? [])];
+    this.showReviewForm = true;
+  }
+
+  deleteMyReview(): void {
+    const user = this.authService.currentUser();
+    if (!this.myReview || !user || !confirm('Delete your review?')) return;
+
+    this.reviewService.deleteOwnReview(this.myReview.id, user.id).subscribe({
+      next: () => {
+        this.resetReviewForm();
+        this.loadReviews(this.product!.id);
+        this.notify.info('Your review was deleted.');
+      },
+      error: err => this.notify.error(err?.error || 'Failed to delete review.')
+    });
+  }
+
+  /** Read the chosen files into data URLs, up to the photo limit */
+  onImagesSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const room = this.maxImages - this.newImages.length;
+    const files = Array.from(input.files ?? []);
+    input.value = '';   // Let the same file be picked again after removal
+    if (files.length === 0) return;
+    if (files.length > room) {
+      this.notify.warning(`You can attach up to ${this.maxImages} photos.`);
+    }
+
+    forkJoin(files.slice(0, room).map(file => readImageAttachment(file))).subscribe({
+      next: images => this.newImages.push(...images),
+      error: err => this.notify.error(err?.error || 'Could not attach photo.')
+    });
+  }
+
+  removeImage(index: number): void {
+    this.newImages.splice(index, 1);
   }
 
   submitReview(): void {
@@ -175,33 +345,65 @@ export class ProductDetailComponent implements OnInit {
     const user = this.authService.currentUser();
     if (!user) return;
 
-    this.reviewService.submitReview({
-      productId: this.product.id,
-      userId: user.id,
-      userName: `${user.firstName} ${user.lastName.charAt(0)}.`,
+    const content = {
       rating: this.newRating,
       title: this.newTitle.trim(),
-      comment: this.newComment.trim()
-    }).subscribe(review => {
-      // Reload reviews to update the list + average
-      this.loadReviews(this.product!.id);
-      this.showReviewForm = false;
-      this.hasReviewed = true;
-      this.notify.success('Review submitted! Thanks for your feedback.');
-
-      // Reset form
-      this.newRating = 5;
-      this.newTitle = '';
-      this.newComment = '';
+      comment: this.newComment.trim(),
+      images: this.newImages.length > 0 ? [...this.newImages] : undefined
+    };
+    const editing = this.editingReviewId !== null;
+    const request = editing
+      ? this.reviewService.editReview(this.editingReviewId!, user.id, content)
+      : this.reviewService.submitReview({
+          productId: this.product.id,
+          userId: user.id,
+          userName: `${user.firstName} ${user.lastName.charAt(0)}.`,
+          ...content
+        });
+
+    request.subscribe({
+      next: () => {
+        // Reload reviews to update the list + average
+        this.loadReviews(this.product!.id);
+        this.resetReviewForm();
+        this.notify.success(editing
+          ? 'Review updated! It will reappear once a moderator approves it.'
+          : 'Review submitted! It will appear once a moderator approves it.');
+      },
+      error: err => this.notify.error(err?.error || 'Failed to submit review.')
     });
   }
 
-  markHelpful(reviewId: number): void {
-    this.reviewService.markHelpful(reviewId).subscribe(updated => {
-      const index = this.reviews.findIndex(r => r.id === updated.id);
-      if (index !== -1) {
-        this.reviews[index] = updated;
-      }
+  private resetReviewForm(): void {
+    this.showReviewForm = false;
+    this.editingReviewId = null;
+    this.newRating = 5;
+    this.newTitle = '';
+    this.newComment = '';
+    this.newImages = [];
+  }
+
+  /** The current user's vote on a review */
+  myVote(review: Review): ReviewVote['value'] | undefined {
+    const user = this.authService.currentUser();
+    return user ? userVote(review, user.id) : undefined;
+  }
+
+  /** Toggle a helpful / not-helpful vote — the list keeps its order until reloaded */
+  vote(review: Review, value: ReviewVote['value']): void {
+    const user = this.authService.currentUser();
+    if (!user) {
+      this.notify.info('Log in to vote on reviews.');
+      return;
+    }
+    this.reviewService.vote(review.id, user.id, value).subscribe({
+      next: updated => {
+        const index = this.reviewPage.reviews.findIndex(r => r.id === updated.id);
+        if (index !== -1) {
+          this.reviewPage.reviews[index] = updated;
+        }
+      },
+      error: err => this.notify.error(err?.error || 'Failed to record your vote.')
     });
   }
 
@@ -12,22 +12,50 @@
 //
 // 3. subscribe() — How you read values from an Observable.
 //    queryParams is an Observable because the URL can change
-//    while the component is still alive.
+//    while the component is still alive. Each change switches
+//    to a fresh page request (switchMap), so a slow answer for
+//    an old URL can never replace the newer one.
 //
 // 4. Parent-child communication — This component is the PARENT
 //    of <app-product-card>. It passes data down via [product]
 //    and listens for events via (addedToCart).
+//
+// 5. Search and facets come from ProductService.getProducts(),
+//    which ranks matches by relevance (tolerating typos) and
+//    counts them per category, price band and rating.
+//
+// 6. URL-synced state — every filter and the sort live in the
+//    query params, so filtered views can be bookmarked and
+//    shared, and back/forward restore the exact listing.
+//
+// 7. Paging — either page links (?page=, ?limit=) or infinite
+//    scroll, where an IntersectionObserver on a sentinel below
+//    the grid loads the next page. The mode is remembered in
+//    localStorage. Only the pages shown are ever requested.
+//    Leaving for a product page records the scroll offset and
+//    how much was loaded, so coming back shows the same
+//    products at the same place.
 // ============================================================
 
-import { Component, OnInit } from '@angular/core';
-import { ActivatedRoute } from '@angular/router';
+import { Component, DestroyRef, ElementRef, NgZone, OnDestroy, OnInit, ViewChild } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, ParamMap, Params, Router } from '@angular/router';
 import { FormsModule } from '@angular/forms';
+import { EMPTY, Observable, Subject, Subscription, catchError, forkJoin, merge, switchMap, tap } from 'rxjs';
 import { ProductService } from '../../services/product.service';
 import { CartService } from '../../services/cart.service';
 import { NotificationService } from '../../services/notification.service';
-import { Product } from '../../product.model';
+import { Product, ProductQuery, ProductSort, SearchFacets } from '../../product.model';
+import { PRICE_BANDS, PriceBand, RATING_THRESHOLDS } from '../../services/product-search';
 import { ProductCardComponent } from '../product-card/product-card.component';
 
+const PAGE_SIZES = [12, 24, 48];
+const DEFAULT_PAGE_SIZE = 12;
+const INFINITE_SCROLL_KEY = 'product_list_infinite';
+
+// Where the shopper left the listing (kept while the app runs)
+let lastListing: { key: string; scrollY: number; loaded: number } | null = null;
+
 @Component({
   selector: 'app-product-list',
   standalone: true,
@@ -35,22 +63,65 @@ import { ProductCardComponent } from '../product-card/product-card.component';
   templateUrl: './product-list.component.html',
   styleUrl: './product-list.component.css'
 })
-export class ProductListComponent implements OnInit {
+export class ProductListComponent implements OnInit, OnDestroy {
 
   // ─── Component State ───────────────────────────────────────
-  allProducts: Product[] = [];           // All products from the service
-  filteredProducts: Product[] = [];      // Products after filtering
+  // Mirrors the URL query params, which are the source of
+  // truth: controls update the URL, and every URL change
+  // (including back/forward) reloads the listing from it.
+  filteredProducts: Product[] = [];      // Products matching the search and filters
   categories: string[] = [];            // Available category names
+  facets: SearchFacets | undefined;     // Match counts for the sidebar
   selectedCategory: string = '';        // Currently selected category
   searchTerm: string = '';              // Current search text
+  minPrice: number | null = null;
+  maxPrice: number | null = null;
+  minRating: number | null = null;
+  inStockOnly = false;
+  sort: ProductSort = 'relevance';
+
+  // Paging
+  page = 1;                              // Page shown (page mode) or last page loaded (scroll mode)
+  pageSize = DEFAULT_PAGE_SIZE;
+  total = 0;
+  totalPages = 0;
+  infiniteScroll = localStorage.getItem(INFINITE_SCROLL_KEY) === 'true';
+  loadingMore = false;
+  readonly pageSizes = PAGE_SIZES;
+  private observer: IntersectionObserver | undefined;
+  private reloads = new Subject<void>();      // Reload without a URL change
+  private nextPage: Subscription | undefined;  // Infinite scroll's pending page
+
+  readonly priceBands = PRICE_BANDS;
+  readonly ratingThresholds = RATING_THRESHOLDS;
+  readonly sortOptions: { value: ProductSort; label: string }[] = [
+    { value: 'relevance', label: 'Best match' },
+    { value: 'price-asc', label: 'Price: low to high' },
+    { value: 'price-desc', label: 'Price: high to low' },
+    { value: 'rating', label: 'Top rated' },
+    { value: 'newest', label: 'Newest' }
+  ];
 
   constructor(
     private productService: ProductService,
     private cartService: CartService,
     private notify: NotificationService,
-    private route: ActivatedRoute        // Gives access to URL info
+    private route: ActivatedRoute,       // Gives access to URL info
+    private router: Router,
+    private zone: NgZone,
+    private destroyRef: DestroyRef
   ) {}
 
+  /** Sentinel below the grid — loads the next page when it scrolls into view */
+  @ViewChild('sentinel') set sentinel(element: ElementRef<HTMLElement> | undefined) {
+    this.observer?.disconnect();
+    if (!element || typeof IntersectionObserver === 'undefined') return;
+    this.observer = new IntersectionObserver(entries => {
+      if (entries.some(e => e.isIntersecting)) this.zone.run(() => this.loadMore());
+    }, { rootMargin: '400px' });
+    this.observer.observe(element.nativeElement);
+  }
+
   /**
    * ngOnInit — Lifecycle hook called after component creation.
    * This is where you do your initial data fetching.
@@ -58,29 +129,27 @@ export class ProductListComponent implements OnInit {
    * only be used for dependency injection.
    */
   ngOnInit(): void {
-    // Load all products from the service
-    this.productService.getAllProducts().subscribe(products => {
-      this.allProducts = products;
-      this.filteredProducts = products;
-    });
-
     // Load category names
     this.productService.getCategories().subscribe(categories => {
       this.categories = categories;
     });
 
     // Listen to URL query parameter changes
-    // This fires when the navbar search redirects here with ?search=...
-    this.route.queryParams.subscribe(params => {
-      if (params['search']) {
-        this.searchTerm = params['search'];
-        this.applyFilters();
-      }
-      if (params['category']) {
-        this.selectedCategory = params['category'];
-        this.applyFilters();
-      }
-    });
+    // This fires when the navbar search redirects here with ?search=...,
+    // when a filter below changes, and on back/forward
+    merge(
+      this.route.queryParamMap.pipe(tap(params => this.readQuery(params))),
+      this.reloads
+    ).pipe(
+      switchMap(() => this.applyFilters()),
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe();
+  }
+
+  /** Remember the listing so returning from a product restores it */
+  ngOnDestroy(): void {
+    this.observer?.disconnect();
+    lastListing = { key: this.listingKey(), scrollY: window.scrollY, loaded: this.filteredProducts.length };
   }
 
   /**
@@ -89,42 +158,220 @@ export class ProductListComponent implements OnInit {
    */
   filterByCategory(category: string): void {
     this.selectedCategory = category;
-    this.applyFilters();
+    this.updateUrl();
   }
 
   /**
    * Called when the user types in the search input.
-   * The (input) event fires on every keystroke.
+   * The (input) event fires on every keystroke, so these
+   * replace the current history entry instead of adding one.
    */
   onSearch(): void {
-    this.applyFilters();
+    this.updateUrl(true);
   }
 
-  /**
-   * Apply both category and search filters together.
-   * This is a common pattern — one method that combines
-   * all active filters.
-   */
-  private applyFilters(): void {
-    let result = this.allProducts;
-
-    // Filter by category (if one is selected)
-    if (this.selectedCategory) {
-      result = result.filter(
-        p => p.category === this.selectedCategory
-      );
+  /** Pick a price band — or clear it if it is already selected */
+  filterByPriceBand(band: PriceBand): void {
+    const selected = this.isBandSelected(band);
+    this.minPrice = selected ? null : band.min;
+    this.maxPrice = selected ? null : band.max;
+    this.updateUrl();
+  }
+
+  isBandSelected(band: PriceBand): boolean {
+    return this.minPrice === band.min && this.maxPrice === band.max;
+  }
+
+  /** Pick a minimum rating — or clear it if it is already selected */
+  filterByRating(stars: number): void {
+    this.minRating = this.minRating === stars ? null : stars;
+    this.updateUrl();
+  }
+
+  /** Called when the price inputs, in-stock box, sort or page size change */
+  onFiltersChange(): void {
+    this.updateUrl();
+  }
+
+  goToPage(page: number): void {
+    if (page < 1 || page > this.totalPages || page === this.page) return;
+    this.updateUrl(false, page);
+    window.scrollTo({ top: 0 });
+  }
+
+  /** Page numbers to show: first, last and two either side of the current page */
+  get pageNumbers(): (number | null)[] {
+    const pages: (number | null)[] = [];
+    for (let p = 1; p <= this.totalPages; p++) {
+      if (p === 1 || p === this.totalPages || Math.abs(p - this.page) <= 2) {
+        pages.push(p);
+      } else if (pages[pages.length - 1] !== null) {
+        pages.push(null);   // Gap
+      }
     }
+    return pages;
+  }
 
-    // Filter by search term (if there is one)
-    if (this.searchTerm.trim()) {
-      const term = this.searchTerm.toLowerCase();
-      result = result.filter(
-        p => p.name.toLowerCase().includes(term) ||
-             p.description.toLowerCase().includes(term)
-      );
+  /** Switch between page links and infinite scroll */
+  toggleInfiniteScroll(): void {
+    this.infiniteScroll = !this.infiniteScroll;
+    localStorage.setItem(INFINITE_SCROLL_KEY, String(this.infiniteScroll));
+    if (this.page > 1) {
+      this.updateUrl(true);        // Back to page 1 — reloads via the URL
+    } else {
+      this.reloads.next();
     }
+  }
 
-    this.filteredProducts = result;
+  /** Infinite scroll: append the next page */
+  loadMore(): void {
+    if (!this.infiniteScroll || this.loadingMore || this.page >= this.totalPages) return;
+    this.loadingMore = true;
+    this.nextPage = this.productService.getProducts(this.query(this.page + 1, this.pageSize)).subscribe({
+      next: response => {
+        this.filteredProducts = [...this.filteredProducts, ...response.products];
+        this.page = response.page;
+        this.loadingMore = false;
+      },
+      error: () => this.loadingMore = false
+    });
+  }
+
+  get hasFilters(): boolean {
+    return !!this.selectedCategory || this.minPrice !== null || this.maxPrice !== null
+      || this.minRating !== null || this.inStockOnly;
+  }
+
+  /** Clear every filter but keep the search and sort */
+  clearFilters(): void {
+    this.selectedCategory = '';
+    this.minPrice = this.maxPrice = this.minRating = null;
+    this.inStockOnly = false;
+    this.updateUrl();
+  }
+
+  /** Copy the URL's query params into the component state */
+  private readQuery(params: ParamMap): void {
+    const numberParam = (key: string) => {
+      const value = params.get(key);
+      return value !== null && value !== '' && !isNaN(Number(value)) ? Number(value) : null;
+    };
+    const sort = params.get('sort') as ProductSort;
+
+    // Keep what's typed (e.g. a trailing space) if the URL only trimmed it
+    const search = params.get('search') ?? '';
+    if (search !== this.searchTerm.trim()) this.searchTerm = search;
+    this.selectedCategory = params.get('category') ?? '';
+    this.minPrice = numberParam('minPrice');
+    this.maxPrice = numberParam('maxPrice');
+    this.minRating = numberParam('minRating');
+    this.inStockOnly = params.get('inStock') === 'true';
+    this.sort = this.sortOptions.some(o => o.value === sort) ? sort : 'relevance';
+    this.page = Math.max(1, Math.floor(numberParam('page') ?? 1));
+    const limit = numberParam('limit');
+    this.pageSize = limit !== null && PAGE_SIZES.includes(limit) ? limit : DEFAULT_PAGE_SIZE;
+  }
+
+  /** Write the component state to the URL (defaults are left out) — any change but paging starts again at page 1 */
+  private updateUrl(replaceUrl = false, page = 1): void {
+    const queryParams: Params = {
+      search: this.searchTerm.trim() || null,
+      category: this.selectedCategory || null,
+      minPrice: this.minPrice,
+      maxPrice: this.maxPrice,
+      minRating: this.minRating,
+      inStock: this.inStockOnly || null,
+      sort: this.sort === 'relevance' ? null : this.sort,
+      page: page > 1 ? page : null,
+      limit: this.pageSize === DEFAULT_PAGE_SIZE ? null : this.pageSize
+    };
+    this.router.navigate([], { relativeTo: this.route, queryParams, replaceUrl });
+  }
+
+  /** getProducts() options for the current state */
+  private query(page: number, limit: number): ProductQuery {
+    return {
+      search: this.searchTerm.trim(),
+      category: this.selectedCategory,
+      minPrice: this.minPrice ?? undefined,
+      maxPrice: this.maxPrice ?? undefined,
+      minRating: this.minRating ?? undefined,
+      inStock: this.inStockOnly,
+      sort: this.sort,
+      page,
+      limit
+    };
+  }
+
+  /** Identifies a listing for scroll restoration */
+  private listingKey(): string {
+    return JSON.stringify({ ...this.query(this.infiniteScroll ? 1 : this.page, this.pageSize), infinite: this.infiniteScroll });
+  }
+
+  /**
+   * Apply the search and every filter together.
+   * The service does the matching; we just pass the state.
+   * Infinite scroll always starts from page 1 — unless we're
+   * coming back to this listing, when every page that was
+   * loaded is fetched again (each at the usual page size) and
+   * the scroll offset restored. A page past the last one is
+   * replaced by the last page.
+   */
+  private applyFilters(): Observable<unknown> {
+    // A page still loading for infinite scroll belongs to the old listing
+    this.nextPage?.unsubscribe();
+    this.loadingMore = false;
+
+    const restore = lastListing?.key === this.listingKey() ? lastListing : null;
+    lastListing = null;
+
+    const pagesToLoad = this.infiniteScroll && restore
+      ? Math.max(1, Math.ceil(restore.loaded / this.pageSize))
+      : 1;
+    const first = this.infiniteScroll ? 1 : this.page;
+    const pages = Array.from({ length: pagesToLoad }, (_, i) =>
+      this.productService.getProducts(this.query(first + i, this.pageSize))
+    );
+
+    return forkJoin(pages).pipe(
+      tap(responses => {
+        const last = responses[responses.length - 1];
+        if (!this.infiniteScroll && last.totalPages > 0 && last.page > last.totalPages) {
+          this.updateUrl(true, last.totalPages);     // Reloads via the URL
+          return;
+        }
+
+        this.filteredProducts = responses.flatMap(response => response.products);
+        this.facets = last.facets;
+        this.total = last.total;
+        this.totalPages = last.totalPages;
+        this.page = last.page;
+
+        if (restore) {
+          setTimeout(() => window.scrollTo({ top: restore.scrollY }));
+        }
+      }),
+      // Keep listening to the URL — the next change tries again
+      catchError(() => {
+        this.notify.error('Could not load products. Please try again.');
+        return EMPTY;
+      })
+    );
+  }
+
+  /** Matches in a category for the current search */
+  categoryCount(category: string): number {
+    return this.facets?.categories.find(f => f.value === category)?.count ?? 0;
+  }
+
+  /** Matches across all categories */
+  get totalCount(): number {
+    return this.facets?.categories.reduce((sum, f) => sum + f.count, 0) ?? 0;
+  }
+
+  /** Matches in a price band or rating facet */
+  facetCount(facet: 'priceBands' | 'ratings', value: string): number {
+    return this.facets?.[facet].find(f => f.value === value)?.count ?? 0;
   }
 
   /**
@@ -132,7 +379,10 @@ export class ProductListComponent implements OnInit {
    * $event is the Product that was emitted.
    */
   onAddToCart(product: Product): void {
-    this.cartService.addToCart(product);
-    this.notify.success(`${product.name} added to cart!`);
+    if (this.cartService.addToCart(product) > 0) {
+      this.notify.success(`${product.name} added to cart!`);
+    } else {
+      this.notify.warning(`No more ${product.name} in stock.`);
+    }
   }
 }
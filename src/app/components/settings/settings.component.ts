@@ -17,15 +17,34 @@
 // 3. OnInit lifecycle hook
 //    Form initialisation and pre-fill happen in ngOnInit so
 //    the component's dependencies are fully injected first.
+//
+// 4. Address book
+//    Addresses are a list on the profile with one default.
+//    A single form handles both add and edit; a custom
+//    validator keeps labels unique per user.
+//
+// 5. Saved cards
+//    Cards are managed separately through PaymentMethodService.
+//    The add-card form is tokenized by the payment vault and
+//    then reset — the full number and CVV never reach storage.
 // ============================================================
 
 import { Component, OnInit } from '@angular/core';
-import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
+import {
+  ReactiveFormsModule,
+  FormBuilder,
+  FormGroup,
+  Validators,
+  AbstractControl,
+  ValidationErrors
+} from '@angular/forms';
 import { Router, RouterLink } from '@angular/router';
 import { AuthService } from '../../services/auth.service';
 import { UserProfileService } from '../../services/user-profile.service';
+import { PaymentMethodService } from '../../services/payment-method.service';
+import { cardFormatValidator } from '../../services/payment-vault.provider';
 import { NotificationService } from '../../services/notification.service';
-import { UserProfile } from '../../product.model';
+import { SavedAddress, SavedCard, UserProfile } from '../../product.model';
 
 @Component({
   selector: 'app-settings',
@@ -37,12 +56,19 @@ import { UserProfile } from '../../product.model';
 export class SettingsComponent implements OnInit {
 
   settingsForm!: FormGroup;
+  addressForm!: FormGroup;
+  addressFormOpen: boolean = false;
+  editingAddressId: number | null = null;   // null = adding a new address
+  cardForm!: FormGroup;
+  addingCard: boolean = false;   // Toggles the add-card form
+  savingCard: boolean = false;
 
   constructor(
     private fb: FormBuilder,
     private router: Router,
     public authService: AuthService,
-    private userProfileService: UserProfileService,
+    public userProfileService: UserProfileService,
+    public paymentMethods: PaymentMethodService,
     private notify: NotificationService
   ) {}
 
@@ -54,25 +80,32 @@ export class SettingsComponent implements OnInit {
     }
 
     // ── Build the form ──────────────────────────────────────
-    // Personal info fields are required; payment fields are
-    // optional so users aren't forced to enter card data.
+    // Personal info fields are all required.
     this.settingsForm = this.fb.group({
       firstName: ['', [Validators.required, Validators.minLength(2)]],
       lastName: ['', [Validators.required, Validators.minLength(2)]],
-      email: ['', [Validators.required, Validators.email]],
-
-      shippingAddress: ['', Validators.required],
-      shippingCity: ['', Validators.required],
-      shippingState: ['', Validators.required],
-      shippingZip: ['', [Validators.required, Validators.pattern(/^\d{5}$/)]],
-
-      // Payment fields — optional (no required validator)
-      cardName: [''],
-      cardNumber: ['', Validators.pattern(/^\d{16}$/)],
-      cardExpiry: ['', Validators.pattern(/^(0[1-9]|1[0-2])\/\d{2}$/)],
-      cardCvv: ['', Validators.pattern(/^\d{3}$/)]
+      email: ['', [Validators.required, Validators.email]]
     });
 
+    // ── Address form (add + edit) ───────────────────────────
+    this.addressForm = this.fb.group({
+      label: ['', [Validators.required, Validators.maxLength(30), this.uniqueLabel]],
+      street: ['', Validators.required],
+      city: ['', Validators.required],
+      state: ['', [Validators.required, Validators.pattern(/^[A-Za-z]{2}$/)]],
+      zip: ['', [Validators.required, Validators.pattern(/^\d{5}$/)]],
+      isDefault: [false]
+    });
+
+    // ── Add-card form (separate from the profile) ───────────
+    this.cardForm = this.fb.group({
+      cardName: ['', Validators.required],
+      cardNumber: ['', [Validators.required, Validators.pattern(/^\d{15,16}$/)]],
+      expiry: ['', [Validators.required, Validators.pattern(/^(0[1-9]|1[0-2])\/\d{2}$/)]],
+      cvv: ['', [Validators.required, Validators.pattern(/^\d{3,4}$/)]],
+      makeDefault: [false]
+    }, { validators: cardFormatValidator });   // Amex: 15 digits + 4-digit CVV
+
     // ── Pre-fill from saved profile or auth user ────────────
     const profile = this.userProfileService.profile();
     if (profile) {
@@ -95,6 +128,16 @@ export class SettingsComponent implements OnInit {
     return this.settingsForm.controls;
   }
 
+  /** Same, for the address form */
+  get a() {
+    return this.addressForm.controls;
+  }
+
+  /** Same, for the add-card form */
+  get c() {
+    return this.cardForm.controls;
+  }
+
   /** Save profile to localStorage via UserProfileService */
   onSave(): void {
     this.settingsForm.markAllAsTouched();
@@ -105,11 +148,107 @@ export class SettingsComponent implements OnInit {
 
       const profile: UserProfile = {
         userId: user.id,
-        ...this.settingsForm.value
+        ...this.settingsForm.value,
+        addresses: this.userProfileService.profile()?.addresses ?? []
       };
 
       this.userProfileService.saveProfile(profile);
       this.notify.success('Settings saved!');
     }
   }
+
+  // ── Address Book ────────────────────────────────────────────
+
+  openAddressForm(address?: SavedAddress): void {
+    this.editingAddressId = address?.id ?? null;
+    this.addressForm.reset(address ?? { isDefault: false });
+    this.addressFormOpen = true;
+  }
+
+  closeAddressForm(): void {
+    this.addressFormOpen = false;
+    this.editingAddressId = null;
+    this.addressForm.reset({ isDefault: false });
+  }
+
+  onSaveAddress(): void {
+    this.addressForm.markAllAsTouched();
+    if (this.addressForm.invalid) return;
+
+    const { label, street, city, state, zip, isDefault } = this.addressForm.value;
+    const saved = this.userProfileService.saveAddress({
+      id: this.editingAddressId ?? undefined,
+      label: label.trim(),
+      street: street.trim(),
+      city: city.trim(),
+      state: state.toUpperCase(),
+      zip,
+      isDefault
+    });
+    this.notify.success(`Address "${saved.label}" saved.`);
+    this.closeAddressForm();
+  }
+
+  setDefaultAddress(address: SavedAddress): void {
+    this.userProfileService.setDefaultAddress(address.id);
+    this.notify.info(`"${address.label}" is now your default address.`);
+  }
+
+  deleteAddress(address: SavedAddress): void {
+    if (!confirm(`Delete the address "${address.label}"?`)) return;
+    this.userProfileService.deleteAddress(address.id);
+    if (this.editingAddressId === address.id) {
+      this.closeAddressForm();
+    }
+    this.notify.info(`Address "${address.label}" deleted.`);
+  }
+
+  /** Labels must be unique within the address book */
+  private uniqueLabel = (control: AbstractControl): ValidationErrors | null => {
+    const label = (control.value ?? '').trim().toLowerCase();
+    const taken = this.userProfileService.addresses().some(address =>
+      address.id !== this.editingAddressId && address.label.toLowerCase() === label
+    );
+    return label && taken ? { duplicate: true } : null;
+  };
+
+  // ── Saved Cards ─────────────────────────────────────────────
+
+  /** Tokenize and save the card, then wipe the form */
+  onAddCard(): void {
+    this.cardForm.markAllAsTouched();
+    if (this.cardForm.invalid || this.savingCard) return;
+
+    const { makeDefault, ...details } = this.cardForm.value;
+    this.savingCard = true;
+    this.paymentMethods.addCard(details, makeDefault).subscribe({
+      next: (card) => {
+        this.savingCard = false;
+        this.addingCard = false;
+        this.cardForm.reset({ makeDefault: false });
+        this.notify.success(`Card ending in ${card.last4} saved.`);
+      },
+      error: (err) => {
+        this.savingCard = false;
+        this.notify.error(err?.error || 'Could not save this card.');
+      }
+    });
+  }
+
+  cancelAddCard(): void {
+    this.addingCard = false;
+    this.cardForm.reset({ makeDefault: false });
+  }
+
+  setDefaultCard(card: SavedCard): void {
+    this.paymentMethods.setDefault(card.id);
+    this.notify.info(`Card ending in ${card.last4} is now your default.`);
+  }
+
+  removeCard(card: SavedCard): void {
+    if (!confirm(`Remove the card ending in ${card.last4}?`)) return;
+    this.paymentMethods.removeCard(card.id).subscribe(() => {
+      this.notify.info(`Card ending in ${card.last4} removed.`);
+    });
+  }
 }
@@ -0,0 +1,60 @@
+// ============================================================
+// VARIANT PICKER COMPONENT — Size / color choice on a product
+// ============================================================
+// ANGULAR CONCEPTS:
+//
+// 1. @Input / @Output between parent and child
+//    ProductDetailComponent passes the product in and listens
+//    for (variantChange), which emits the variant matching the
+//    choice — or undefined until every axis has a value.
+//
+// 2. ngOnChanges — The choice resets whenever a different
+//    product comes in. Axes with a single value are chosen
+//    up front.
+//
+// 3. Availability
+//    A value that can't lead to an in-stock variant, given the
+//    other axes already chosen, is struck through. It can still
+//    be picked, so shoppers can see it's sold out.
+// ============================================================
+
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { Product, ProductVariant } from '../../product.model';
+import { VariantSelection, findVariant, isValueAvailable } from '../../services/product-variants';
+
+@Component({
+  selector: 'app-variant-picker',
+  standalone: true,
+  templateUrl: './variant-picker.component.html',
+  styleUrl: './variant-picker.component.css'
+})
+export class VariantPickerComponent implements OnChanges {
+  @Input({ required: true }) product!: Product;
+
+  @Output() variantChange = new EventEmitter<ProductVariant | undefined>();
+
+  selection: VariantSelection = {};
+
+  ngOnChanges(): void {
+    this.selection = {};
+    for (const option of this.product.options ?? []) {
+      if (option.values.length === 1) this.selection[option.name] = option.values[0];
+    }
+    this.emitVariant();
+  }
+
+  select(option: string, value: string): void {
+    this.selection = { ...this.selection, [option]: value };
+    this.emitVariant();
+  }
+
+  /** True if the value can still lead to an in-stock variant */
+  isAvailable(option: string, value: string): boolean {
+    const { [option]: _, ...others } = this.selection;
+    return isValueAvailable(this.product, others, option, value);
+  }
+
+  private emitVariant(): void {
+    this.variantChange.emit(findVariant(this.product, this.selection));
+  }
+}
@@ -0,0 +1,25 @@
+// ============================================================
+// ENVIRONMENT CONFIG (PRODUCTION) — swapped in by `ng build`
+// ============================================================
+// angular.json replaces environment.ts with this file for the
+// production configuration. Dev auth is always off here, so
+// only real backend logins are possible.
+// ============================================================
+
+import { DataSource } from '../repositories/repository';
+
+export const environment = {
+  production: true,
+  apiUrl: '/api',
+  auctionFeedUrl: '/ws/auctions',
+  devAuth: false,
+  reviewsRequirePurchase: false,
+  dataSources: {
+    products: 'http',
+    orders: 'http',
+    carts: 'http',
+    users: 'http',
+    reviews: 'memory',
+    auctions: 'memory'
+  } as Record<'products' | 'orders' | 'carts' | 'users' | 'reviews' | 'auctions', DataSource>
+};
@@ -10,9 +10,43 @@
 // Usage in services:
 //   import { environment } from '../environments/environment';
 //   this.http.get(`${environment.apiUrl}/products`);
+//
+// dataSources picks the repository behind each service:
+//   'memory' — seeded in-memory store (no backend needed)
+//   'http'   — the Express API in backend/
+// Reviews and auctions have no backend routes yet, so leave
+// them on 'memory' unless you add /api/reviews, /api/auctions,
+// /api/bids and /api/proxy-bids.
+//
+// devAuth enables the password-less demo personas (see
+// services/dev-identity.provider.ts). Production builds swap
+// this file for environment.prod.ts, where it is off.
+//
+// reviewsRequirePurchase limits reviews to customers with an
+// order for the product (see REVIEW_POLICY in
+// services/review.service.ts). Either way, reviews from buyers
+// are flagged as verified purchases.
+//
+// auctionFeedUrl is the WebSocket that pushes live auction
+// events when auctions come from 'http'. With 'memory', open
+// tabs keep each other in sync instead (see AUCTION_FEED in
+// services/auction-feed.provider.ts).
 // ============================================================
 
+import { DataSource } from '../repositories/repository';
+
 export const environment = {
   production: false,
-  apiUrl: 'http://localhost:3000/api'
+  apiUrl: 'http://localhost:3000/api',
+  auctionFeedUrl: 'ws://localhost:3000/ws/auctions',
+  devAuth: true,
+  reviewsRequirePurchase: false,
+  dataSources: {
+    products: 'memory',
+    orders: 'memory',
+    carts: 'memory',
+    users: 'memory',
+    reviews: 'memory',
+    auctions: 'memory'
+  } as Record<'products' | 'orders' | 'carts' | 'users' | 'reviews' | 'auctions', DataSource>
 };
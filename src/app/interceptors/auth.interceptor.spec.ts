@@ -0,0 +1,86 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter, Router } from '@angular/router';
+
+import { authInterceptor } from './auth.interceptor';
+import { AuthService } from '../services/auth.service';
+import { environment } from '../environments/environment';
+
+/** Unsigned JWT with the given exp (seconds from now) */
+function fakeJwt(expiresInSeconds: number): string {
+  const exp = Math.floor(Date.now() / 1000) + expiresInSeconds;
+  return `header.${btoa(JSON.stringify({ id: 1, exp }))}.signature`;
+}
+
+describe('authInterceptor', () => {
+  let http: HttpClient;
+  let backend: HttpTestingController;
+  const api = environment.apiUrl;
+  const user = { id: 1, email: 'a@b.com', firstName: 'A', lastName: 'B', role: 'user' };
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({
+      providers: [
+        provideRouter([]),
+        provideHttpClient(withInterceptors([authInterceptor])),
+        provideHttpClientTesting()
+      ]
+    });
+    http = TestBed.inject(HttpClient);
+    backend = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    backend.verify();
+    localStorage.clear();
+  });
+
+  it('should never send a dev token to the backend', () => {
+    localStorage.setItem('token', 'dev-fake-admin');
+    http.get(`${api}/products`).subscribe();
+
+    const req = backend.expectOne(`${api}/products`);
+    expect(req.request.headers.has('Authorization')).toBeFalse();
+    req.flush([]);
+  });
+
+  it('should refresh once and replay concurrent requests after a 401', () => {
+    localStorage.setItem('token', fakeJwt(600));
+    localStorage.setItem('refresh_token', 'refresh-1');
+    TestBed.inject(AuthService);
+    backend.expectOne(`${api}/auth/me`).flush(user);
+
+    http.get(`${api}/orders`).subscribe();
+    http.get(`${api}/users`).subscribe();
+    backend.expectOne(`${api}/orders`).flush({ error: 'expired' }, { status: 401, statusText: 'Unauthorized' });
+    backend.expectOne(`${api}/users`).flush({ error: 'expired' }, { status: 401, statusText: 'Unauthorized' });
+
+    const fresh = fakeJwt(900);
+    backend.expectOne(`${api}/auth/refresh`).flush({ token: fresh, refreshToken: 'refresh-2', user });
+
+    const retries = [backend.expectOne(`${api}/orders`), backend.expectOne(`${api}/users`)];
+    retries.forEach(req => {
+      expect(req.request.headers.get('Authorization')).toBe(`Bearer ${fresh}`);
+      req.flush([]);
+    });
+    expect(localStorage.getItem('refresh_token')).toBe('refresh-2');
+  });
+
+  it('should log out and redirect to /login when the refresh fails', () => {
+    localStorage.setItem('token', fakeJwt(600));
+    localStorage.setItem('refresh_token', 'stale');
+    const auth = TestBed.inject(AuthService);
+    backend.expectOne(`${api}/auth/me`).flush(user);
+    const navigate = spyOn(TestBed.inject(Router), 'navigate');
+
+    http.get(`${api}/orders`).subscribe({ error: () => {} });
+    backend.expectOne(`${api}/orders`).flush({}, { status: 401, statusText: 'Unauthorized' });
+    backend.expectOne(`${api}/auth/refresh`).flush({}, { status: 401, statusText: 'Unauthorized' });
+
+    expect(auth.isLoggedIn()).toBeFalse();
+    expect(localStorage.getItem('token')).toBeNull();
+    expect(navigate).toHaveBeenCalledWith(['/login'], jasmine.objectContaining({ queryParams: jasmine.any(Object) }));
+  });
+});
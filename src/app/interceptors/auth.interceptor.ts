@@ -20,29 +20,76 @@
 //
 // Why clone? HttpRequest objects are IMMUTABLE in Angular.
 // You can't modify them directly — you must create a new one.
+//
+// Dev-fake tokens (demo personas) are never attached: they mean
+// nothing to the backend and must not leave the browser.
+//
+// Expiry and 401 recovery:
+//   - A token whose exp claim has passed is refreshed BEFORE the
+//     request goes out.
+//   - A 401 response triggers one refresh + retry.
+//   - AuthService shares a single in-flight refresh, so
+//     concurrent requests queue behind it instead of each
+//     calling /auth/refresh.
+//   - If the refresh (or the retry) fails, the session is
+//     expired: logout + redirect to /login?returnUrl=...
 // ============================================================
 
-import { HttpInterceptorFn } from '@angular/common/http';
+import { HttpErrorResponse, HttpInterceptorFn, HttpRequest } from '@angular/common/http';
+import { Injector, inject } from '@angular/core';
+import { catchError, switchMap, throwError } from 'rxjs';
+import { isDevToken } from '../services/dev-identity.provider';
+import { AuthService, isTokenExpired } from '../services/auth.service';
+
+// Token endpoints authenticate by body, not by header
+const TOKEN_ENDPOINTS = ['/auth/login', '/auth/register', '/auth/refresh'];
+
+function withToken(req: HttpRequest<unknown>, token: string): HttpRequest<unknown> {
+  // req.clone() creates a new request with modified properties
+  // We set the Authorization header using the "Bearer" scheme,
+  // which is the standard for JWT authentication.
+  return req.clone({
+    setHeaders: {
+      Authorization: `Bearer ${token}`
+    }
+  });
+}
 
 export const authInterceptor: HttpInterceptorFn = (req, next) => {
+  // AuthService itself sends requests through this interceptor,
+  // so resolve it lazily instead of injecting it up front.
+  const injector = inject(Injector);
+  const auth = () => injector.get(AuthService);
+
   // Retrieve the JWT token from localStorage
   const token = localStorage.getItem('token');
 
-  // If we have a token, clone the request and add the header
-  if (token) {
-    // req.clone() creates a new request with modified properties
-    // We set the Authorization header using the "Bearer" scheme,
-    // which is the standard for JWT authentication.
-    const authReq = req.clone({
-      setHeaders: {
-        Authorization: `Bearer ${token}`
+  // No token, a dev token, or a token endpoint — pass the
+  // original request unchanged
+  if (!token || isDevToken(token) || TOKEN_ENDPOINTS.some(path => req.url.endsWith(path))) {
+    return next(req);
+  }
+
+  // Refresh once, then replay the request with the new token.
+  // Failing either step means the session is gone.
+  const refreshAndRetry = () => auth().refreshAccessToken().pipe(
+    switchMap(fresh => next(withToken(req, fresh))),
+    catchError(err => {
+      if (err?.status === 401) {
+        auth().expireSession();
       }
-    });
+      return throwError(() => err);
+    })
+  );
 
-    // Pass the modified request to the next handler in the chain
-    return next(authReq);
+  if (isTokenExpired(token)) {
+    return refreshAndRetry();
   }
 
-  // No token — pass the original request unchanged
-  return next(req);
+  // Pass the modified request to the next handler in the chain
+  return next(withToken(req, token)).pipe(
+    catchError(err => err instanceof HttpErrorResponse && err.status === 401
+      ? refreshAndRetry()
+      : throwError(() => err))
+  );
 };
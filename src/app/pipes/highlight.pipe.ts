@@ -0,0 +1,56 @@
+// ============================================================
+// HIGHLIGHT PIPE — Mark the parts of a text that match a query
+// ============================================================
+// ANGULAR CONCEPT: Pipes that return structured data
+//
+// Instead of building an HTML string for [innerHTML], the pipe
+// splits the text into segments and flags the ones that match,
+// so the template can wrap them in <mark> itself — no
+// sanitizing needed.
+//
+// Usage in a template:
+//   @for (part of product.name | highlight:term; track $index) {
+//     @if (part.match) { <mark>{{ part.text }}</mark> } @else { {{ part.text }} }
+//   }
+//
+// A query word matches at the start of a word in the text,
+// ignoring case: "blue head" marks "Blue" and "Head" in
+// "Wireless Bluetooth Headphones".
+// ============================================================
+
+import { Pipe, PipeTransform } from '@angular/core';
+
+/** A run of text and whether it matched the query */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+@Pipe({
+  name: 'highlight',
+  standalone: true
+})
+export class HighlightPipe implements PipeTransform {
+
+  transform(value: string, query: string): HighlightSegment[] {
+    if (!value) return [];
+
+    const words = (query ?? '').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+    if (words.length === 0) return [{ text: value, match: false }];
+
+    // Longest words first so "head" doesn't cut "headphones" short
+    const pattern = words.sort((a, b) => b.length - a.length).join('|');
+    const regex = new RegExp(`\\b(${pattern})`, 'gi');
+
+    const segments: HighlightSegment[] = [];
+    let last = 0;
+    for (const found of value.matchAll(regex)) {
+      const start = found.index ?? 0;
+      if (start > last) segments.push({ text: value.slice(last, start), match: false });
+      segments.push({ text: found[0], match: true });
+      last = start + found[0].length;
+    }
+    if (last < value.length) segments.push({ text: value.slice(last), match: false });
+    return segments;
+  }
+}
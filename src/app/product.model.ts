@@ -10,16 +10,45 @@ export interface Product {
   price: number;
   image: string;
   category: string;
-  rating: number;
-  stock: number;
+  rating: number;               // Average of approved reviews (0 = none yet)
+  ratingCount?: number;         // Approved reviews behind `rating`
+  ratingHistogram?: number[];   // Approved reviews per star: [1★, 2★, 3★, 4★, 5★]
+  stock: number;                // Sum of the variants' stock when it has variants
+  weight?: number;              // Shipping weight in lb (category default if unset)
+  options?: ProductOption[];    // Option axes, e.g. Size and Color
+  variants?: ProductVariant[];  // One per combination of the options
   disabled?: boolean;
   created_at?: string;
   updated_at?: string;
 }
 
+/** An option axis and its values, e.g. Size: S, M, L */
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+/** One purchasable combination of a product's options */
+export interface ProductVariant {
+  id: number;
+  sku: string;
+  options: Record<string, string>;   // { Size: 'M', Color: 'Blue' }
+  price?: number;               // Overrides the product price
+  stock: number;
+  image?: string;               // Overrides the product image
+}
+
+/** Aggregate of a product's approved reviews */
+export interface RatingSummary {
+  average: number;              // Rounded to 1 decimal, 0 when count is 0
+  count: number;
+  histogram: number[];          // [1★, 2★, 3★, 4★, 5★]
+}
+
 /** Represents an item in the shopping cart */
 export interface CartItem {
   product: Product;
+  variant?: ProductVariant;     // The chosen combination, for products with variants
   quantity: number;
 }
 
@@ -40,6 +69,7 @@ export interface User {
 /** Response from login/register endpoints */
 export interface AuthResponse {
   token: string;
+  refreshToken?: string;   // Long-lived token for POST /auth/refresh
   user: User;
 }
 
@@ -50,9 +80,15 @@ export interface Order {
   user_id: number;
   status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
   subtotal: number;               // Sum of (price × qty)
-  tax: number;                    // Tax amount
-  fees: number;                   // Shipping / processing fees
-  total: number;                  // subtotal + tax + fees
+  tax: number;                    // Tax amount (sum of per-line tax)
+  tax_rate: number;               // Rate applied, e.g. 0.08625
+  tax_jurisdiction: string;       // Where it applied, e.g. "San Francisco, CA"
+  shipping_method: ShippingMethodId;
+  shipping_cost: number;          // Charged for the chosen method
+  delivery_earliest: string;      // Estimated delivery window (YYYY-MM-DD)
+  delivery_latest: string;
+  fees: number;                   // Processing fee
+  total: number;                  // subtotal + tax + shipping_cost + fees
   shipping_address: string;
   created_at: string;
   // Customer info (joined from users table in admin view)
@@ -63,6 +99,9 @@ export interface Order {
   items?: OrderItem[];
 }
 
+/** Shipping speed chosen at checkout ('free' = standard over the threshold) */
+export type ShippingMethodId = 'standard' | 'expedited' | 'overnight' | 'free';
+
 /** Represents a line item in an order */
 export interface OrderItem {
   id: number;
@@ -70,6 +109,10 @@ export interface OrderItem {
   product_id: number;
   quantity: number;
   price_at_purchase: number;
+  tax?: number;                   // Tax on this line, rounded to the cent
+  variant_id?: number;            // ProductVariant.id, for products with variants
+  variant_label?: string;         // Snapshot of the options, e.g. "Size: M, Color: Blue"
+  sku?: string;
   // Joined from products table
   name?: string;
   image?: string;
@@ -99,8 +142,39 @@ export interface Review {
   title: string;
   comment: string;
   createdAt: string;            // ISO date string
-  helpful: number;              // Upvote count
+  helpful: number;              // "Helpful" vote count
+  unhelpful?: number;           // "Not helpful" vote count
+  votes?: ReviewVote[];         // One per voter — toggled, never stacked
   status: 'approved' | 'pending' | 'rejected';
+  verifiedPurchase?: boolean;   // Reviewer has a non-cancelled order for the product
+  images?: string[];            // Photo attachments as data URLs
+  editedAt?: string;            // ISO date string — last edit by the author
+  storeResponse?: ReviewResponse;
+  rejectionReason?: string;     // Why a moderator rejected it
+  moderatedAt?: string;         // ISO date string — last approve/reject
+}
+
+/** One shopper's helpful / not-helpful vote on a review */
+export interface ReviewVote {
+  userId: number;
+  value: 'helpful' | 'unhelpful';
+}
+
+/** Orderings offered for a product's reviews */
+export type ReviewSort = 'helpful' | 'newest' | 'highest' | 'lowest';
+
+/** One page of a product's reviews */
+export interface ReviewPage {
+  reviews: Review[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+/** A public reply from the store, shown under a review */
+export interface ReviewResponse {
+  text: string;
+  respondedAt: string;          // ISO date string
 }
 
 /** Dashboard statistics for admin */
@@ -111,12 +185,43 @@ export interface DashboardStats {
   totalRevenue: number;
 }
 
+/** Orderings for the product listing */
+export type ProductSort = 'relevance' | 'price-asc' | 'price-desc' | 'rating' | 'newest';
+
+/** Storefront listing options — also the /products query params */
+export interface ProductQuery {
+  search?: string;
+  category?: string;
+  minPrice?: number;
+  maxPrice?: number;              // Exclusive, like the price bands
+  minRating?: number;
+  inStock?: boolean;
+  sort?: ProductSort;             // Default 'relevance' (catalog order without a search)
+  page?: number;
+  limit?: number;
+}
+
 /** Paginated product response from API */
 export interface ProductResponse {
   products: Product[];
   total: number;
   page: number;
   totalPages: number;
+  facets?: SearchFacets;          // Counts for the sidebar filters
+}
+
+/** One facet value with the number of products it would show */
+export interface FacetCount {
+  value: string;
+  label: string;
+  count: number;
+}
+
+/** Facet counts for a product listing */
+export interface SearchFacets {
+  categories: FacetCount[];
+  priceBands: FacetCount[];
+  ratings: FacetCount[];          // Cumulative: "4★ & up"
 }
 
 /** Represents an auction listing created by a user */
@@ -131,10 +236,13 @@ export interface Auction {
   startingPrice: number;        // Minimum opening bid
   currentPrice: number;         // Highest bid so far (equals startingPrice if no bids)
   bidCount: number;             // Number of bids placed
+  reservePrice?: number;        // Hidden least the seller will sell for
+  buyNowPrice?: number;         // Ends the auction at once when a buyer pays it
   status: 'active' | 'ended' | 'sold' | 'cancelled';
   createdAt: string;            // ISO date string
   endsAt: string;               // ISO date string — auction deadline
-  winnerId?: number;            // User.id of highest bidder when ended/sold
+  extensionCount?: number;      // Times a late bid pushed endsAt out
+  winnerId?: number;            // User.id of highest bidder when sold
   winnerName?: string;          // Display name of winner
 }
 
@@ -145,9 +253,22 @@ export interface Bid {
   bidderId: number;             // User.id
   bidderName: string;           // Display name: "FirstName L."
   amount: number;
+  auto?: boolean;               // Placed by the bidder's proxy, not by hand
+  extendedTo?: string;          // New endsAt when this bid extended the auction
+  buyNow?: boolean;             // The Buy It Now purchase that ended the auction
   createdAt: string;            // ISO date string
 }
 
+/** A bidder's secret maximum on an auction — the proxy bids up to it */
+export interface ProxyBid {
+  id: number;
+  auctionId: number;
+  bidderId: number;
+  bidderName: string;
+  maxAmount: number;
+  createdAt: string;            // When this maximum was set; earlier wins ties
+}
+
 /** Represents a toast notification displayed to the user */
 export interface AppNotification {
   id: number;
@@ -156,18 +277,39 @@ export interface AppNotification {
   createdAt: number;            // Timestamp (ms) for auto-dismiss scheduling
 }
 
-/** User profile with saved shipping and payment preferences */
+/** User profile with an address book (cards live in SavedCard) */
 export interface UserProfile {
   userId: number;
   firstName: string;
   lastName: string;
   email: string;
-  shippingAddress: string;
-  shippingCity: string;
-  shippingState: string;
-  shippingZip: string;
+  addresses: SavedAddress[];
+}
+
+/** A US mailing address */
+export interface PostalAddress {
+  street: string;
+  city: string;
+  state: string;                // 2-letter code
+  zip: string;                  // 5 digits
+}
+
+/** One entry in a user's address book */
+export interface SavedAddress extends PostalAddress {
+  id: number;
+  label: string;                // e.g. "Home", "Office", "Mom's place"
+  isDefault: boolean;
+}
+
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'discover' | 'card';
+
+/** A tokenized payment card — never holds the full number or CVV */
+export interface SavedCard {
+  id: number;
   cardName: string;
-  cardNumber: string;
-  cardExpiry: string;
-  cardCvv: string;
+  brand: CardBrand;
+  last4: string;
+  expiry: string;               // MM/YY
+  token: string;                // Opaque reference issued by the payment vault
+  isDefault: boolean;
 }
@@ -0,0 +1,84 @@
+// ============================================================
+// HTTP REPOSITORY — REST calls to the Express backend
+// ============================================================
+// Maps the Repository contract onto the usual REST routes:
+//   GET    /resource        findAll()
+//   GET    /resource/:id    findById()
+//   POST   /resource        create()
+//   PUT    /resource/:id    update()
+//   DELETE /resource/:id    delete()
+//
+// The backend speaks snake_case and returns DECIMAL columns
+// as strings, so each resource can pass mapper functions to
+// convert rows to and from the frontend models.
+// ============================================================
+
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Observable, catchError, map, throwError } from 'rxjs';
+import { Repository, RepositoryError } from './repository';
+
+/** Converts between API rows and frontend models */
+export interface HttpMapper<T> {
+  fromApi: (row: any) => T;
+  toApi: (entity: Partial<T>) => any;
+}
+
+export class HttpRepository<T extends { id: number }> extends Repository<T> {
+
+  /**
+   * @param http     Angular HttpClient (goes through authInterceptor)
+   * @param url      Resource URL, e.g. `${environment.apiUrl}/products`
+   * @param mapper   Row ↔ model conversion (defaults to pass-through)
+   */
+  constructor(
+    protected http: HttpClient,
+    protected url: string,
+    protected mapper: HttpMapper<T> = { fromApi: row => row, toApi: entity => entity }
+  ) {
+    super();
+  }
+
+  findAll(): Observable<T[]> {
+    return this.http.get<any[]>(this.url).pipe(
+      map(rows => rows.map(row => this.mapper.fromApi(row))),
+      catchError(toRepositoryError)
+    );
+  }
+
+  findById(id: number): Observable<T> {
+    return this.http.get<any>(`${this.url}/${id}`).pipe(
+      map(row => this.mapper.fromApi(row)),
+      catchError(toRepositoryError)
+    );
+  }
+
+  create(entity: Omit<T, 'id'>): Observable<T> {
+    return this.http.post<any>(this.url, this.mapper.toApi(entity as Partial<T>)).pipe(
+      map(row => this.mapper.fromApi(row)),
+      catchError(toRepositoryError)
+    );
+  }
+
+  update(entity: T): Observable<T> {
+    return this.http.put<any>(`${this.url}/${entity.id}`, this.mapper.toApi(entity)).pipe(
+      map(row => this.mapper.fromApi(row)),
+      catchError(toRepositoryError)
+    );
+  }
+
+  delete(id: number): Observable<void> {
+    return this.http.delete(`${this.url}/${id}`).pipe(
+      map(() => undefined),
+      catchError(toRepositoryError)
+    );
+  }
+}
+
+/** Normalise HttpErrorResponse into the shared { status, error } shape */
+export function toRepositoryError(err: HttpErrorResponse): Observable<never> {
+  const error: RepositoryError = {
+    status: err.status,
+    error: err.error?.error || err.message || 'Request failed'
+  };
+  return throwError(() => error);
+}
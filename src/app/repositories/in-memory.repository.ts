@@ -0,0 +1,63 @@
+// ============================================================
+// IN-MEMORY REPOSITORY — Seeded array store
+// ============================================================
+// Same behaviour the services had before the repository
+// layer: data lives in an array for the lifetime of the page
+// and every method answers synchronously through `of()`.
+// Entities are cloned on the way in and out so callers can
+// never mutate the store by accident.
+// ============================================================
+
+import { Observable, of, throwError } from 'rxjs';
+import { Repository, RepositoryError } from './repository';
+
+export class InMemoryRepository<T extends { id: number }> extends Repository<T> {
+
+  protected items: T[];
+  protected nextId: number;
+
+  /**
+   * @param seed        Initial entities (copied, never mutated)
+   * @param entityName  Used in error messages, e.g. "Product not found"
+   */
+  constructor(seed: T[], protected entityName: string) {
+    super();
+    this.items = seed.map(item => structuredClone(item));
+    this.nextId = this.items.reduce((max, item) => Math.max(max, item.id), 0) + 1;
+  }
+
+  findAll(): Observable<T[]> {
+    return of(this.items.map(item => structuredClone(item)));
+  }
+
+  findById(id: number): Observable<T> {
+    const item = this.items.find(i => i.id === id);
+    if (!item) return this.notFound();
+    return of(structuredClone(item));
+  }
+
+  create(entity: Omit<T, 'id'>): Observable<T> {
+    const item = { ...structuredClone(entity), id: this.nextId++ } as T;
+    this.items.push(item);
+    return of(structuredClone(item));
+  }
+
+  update(entity: T): Observable<T> {
+    const index = this.items.findIndex(i => i.id === entity.id);
+    if (index === -1) return this.notFound();
+    this.items[index] = structuredClone(entity);
+    return of(structuredClone(this.items[index]));
+  }
+
+  delete(id: number): Observable<void> {
+    const index = this.items.findIndex(i => i.id === id);
+    if (index === -1) return this.notFound();
+    this.items.splice(index, 1);
+    return of(undefined);
+  }
+
+  protected notFound(): Observable<never> {
+    const error: RepositoryError = { status: 404, error: `${this.entityName} not found` };
+    return throwError(() => error);
+  }
+}
@@ -0,0 +1,201 @@
+// ============================================================
+// ORDER REPOSITORIES — Orders own their stock side effects
+// ============================================================
+// Placing or cancelling an order moves inventory. The Express
+// route does this inside a DB transaction, so the in-memory
+// store mirrors it here instead of leaving it to the service:
+//
+//   create()           — checks every line has enough stock
+//                        (409 if not), then decrements it
+//   update(cancelled)  — puts the order's units back on the shelf
+//
+// Lines for a product variant move that variant's stock (and
+// so the product's total); see moveStock().
+//
+// Order numbers are derived from the ID ("ORD-10001" for id 1)
+// in both implementations.
+// ============================================================
+
+import { HttpClient } from '@angular/common/http';
+import { Observable, catchError, forkJoin, map, of, switchMap, throwError } from 'rxjs';
+import { Order, OrderItem, Product } from '../product.model';
+import { moveStock } from '../services/product-variants';
+import { Repository, RepositoryError } from './repository';
+import { InMemoryRepository } from './in-memory.repository';
+import { HttpRepository, toRepositoryError } from './http.repository';
+
+/** Display number for an order ID */
+export function formatOrderNumber(id: number): string {
+  return `ORD-${10000 + id}`;
+}
+
+// ── In-memory ───────────────────────────────────────────────
+
+export class InMemoryOrderRepository extends InMemoryRepository<Order> {
+
+  private nextItemId: number;
+
+  /**
+   * @param seed      Initial orders
+   * @param products  Product repository whose stock orders draw from
+   */
+  constructor(seed: Order[], private products: Repository<Product>) {
+    super(seed, 'Order');
+    this.nextItemId = this.items
+      .flatMap(o => o.items || [])
+      .reduce((max, i) => Math.max(max, i.id), 0) + 1;
+  }
+
+  override create(order: Omit<Order, 'id'>): Observable<Order> {
+    const lines = order.items || [];
+    if (lines.length === 0) {
+      return throwError((): RepositoryError => ({ status: 400, error: 'Order must contain at least one item.' }));
+    }
+
+    return this.moveStock(lines, -1).pipe(
+      switchMap(({ products, shortages }) => {
+        if (shortages.length > 0) {
+          return throwError((): RepositoryError => ({
+            status: 409,
+            error: `Not enough stock for: ${shortages.join(', ')}. Your cart has been updated.`
+          }));
+        }
+        return forkJoin(products.map(p => this.products.update(p)));
+      }),
+      switchMap(() => {
+        const id = this.nextId;
+        return super.create({
+          ...order,
+          orderNumber: formatOrderNumber(id),
+          items: lines.map(line => ({ ...line, id: this.nextItemId++, order_id: id }))
+        });
+      })
+    );
+  }
+
+  override update(order: Order): Observable<Order> {
+    const existing = this.items.find(o => o.id === order.id);
+    if (!existing) return this.notFound();
+
+    const restoring = order.status === 'cancelled' && existing.status !== 'cancelled';
+    const lines = restoring ? existing.items || [] : [];
+    if (lines.length === 0) return super.update(order);
+
+    // Products or variants deleted since have nothing to restore
+    return this.moveStock(lines, 1).pipe(
+      switchMap(({ products }) => products.length > 0 ? forkJoin(products.map(p => this.products.update(p))) : of([])),
+      switchMap(() => super.update(order))
+    );
+  }
+
+  /**
+   * Apply the lines' quantities to their products (direction -1
+   * takes stock, 1 returns it). Lines for the same product are
+   * applied in turn, so each product is saved once. Returns the
+   * updated products and the names of lines that couldn't be
+   * applied.
+   */
+  private moveStock(lines: OrderItem[], direction: 1 | -1): Observable<{ products: Product[]; shortages: string[] }> {
+    const ids = [...new Set(lines.map(line => line.product_id))];
+    return forkJoin(ids.map(id =>
+      this.products.findById(id).pipe(catchError(() => of(null)))
+    )).pipe(
+      map(found => {
+        const products = new Map(found.filter((p): p is Product => !!p).map(p => [p.id, p]));
+        const shortages: string[] = [];
+        for (const line of lines) {
+          const product = products.get(line.product_id);
+          const moved = product && moveStock(product, direction * line.quantity, line.variant_id);
+          if (moved) {
+            products.set(moved.id, moved);
+          } else {
+            const name = product?.name || line.name || `Product #${line.product_id}`;
+            shortages.push(line.variant_label ? `${name} (${line.variant_label})` : name);
+          }
+        }
+        return { products: [...products.values()], shortages };
+      })
+    );
+  }
+}
+
+// ── HTTP ────────────────────────────────────────────────────
+// Older rows only store `total`; subtotal/tax/fees are derived
+// for them so the UI can still show a breakdown. Rows from
+// before shipping methods count as standard shipping.
+
+/** DATE columns come back as full timestamps — keep YYYY-MM-DD */
+function toDateOnly(value: any): string {
+  return value ? String(value).slice(0, 10) : '';
+}
+
+export function orderFromApi(row: any): Order {
+  const items = (row.items || []).map((i: any) => ({
+    ...i,
+    quantity: Number(i.quantity),
+    price_at_purchase: Number(i.price_at_purchase),
+    tax: i.tax !== undefined ? Number(i.tax) : undefined
+  }));
+  const total = Number(row.total);
+  const subtotal = row.subtotal !== undefined
+    ? Number(row.subtotal)
+    : items.reduce((s: number, i: any) => s + i.price_at_purchase * i.quantity, 0) || total;
+  const tax = Number(row.tax ?? 0);
+  const shippingCost = Number(row.shipping_cost ?? 0);
+
+  return {
+    ...row,
+    orderNumber: row.orderNumber || formatOrderNumber(row.id),
+    subtotal,
+    tax,
+    tax_rate: Number(row.tax_rate ?? 0),
+    tax_jurisdiction: row.tax_jurisdiction ?? '',
+    shipping_method: row.shipping_method ?? 'standard',
+    shipping_cost: shippingCost,
+    delivery_earliest: toDateOnly(row.delivery_earliest),
+    delivery_latest: toDateOnly(row.delivery_latest),
+    fees: Number(row.fees ?? Math.max(0, Math.round((total - subtotal - tax - shippingCost) * 100) / 100)),
+    total,
+    items
+  };
+}
+
+export class HttpOrderRepository extends HttpRepository<Order> {
+
+  constructor(http: HttpClient, url: string) {
+    super(http, url, { fromApi: orderFromApi, toApi: order => order });
+  }
+
+  /**
+   * POST /orders expects cart lines rather than a full Order. The
+   * server reprices them and sends back 409 if the totals shown
+   * at checkout no longer match.
+   */
+  override create(order: Omit<Order, 'id'>): Observable<Order> {
+    const body = {
+      shippingAddress: order.shipping_address,
+      subtotal: order.subtotal,
+      tax: order.tax,
+      shippingMethod: order.shipping_method,
+      shippingCost: order.shipping_cost,
+      fees: order.fees,
+      items: (order.items || []).map(i => ({
+        productId: i.product_id,
+        variantId: i.variant_id,
+        quantity: i.quantity
+      }))
+    };
+    return this.http.post<any>(this.url, body).pipe(
+      map(row => orderFromApi({ ...order, ...row })),
+      catchError(toRepositoryError)
+    );
+  }
+
+  /** Only the status can change — PUT /orders/:id/status */
+  override update(order: Order): Observable<Order> {
+    return this.http.put<any>(`${this.url}/${order.id}/status`, { status: order.status }).pipe(
+      map(row => orderFromApi({ ...order, ...row })),
+      catchError(toRepositoryError)
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, HttpInterceptorFn, HttpResponse, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { firstValueFrom, of } from 'rxjs';
+
+import { HttpProductRepository } from './product.repository';
+import { PRODUCT_MAPPER } from '../services/product.service';
+
+/** A products row as Postgres returns it: snake_case, DECIMALs as strings */
+function row(id: number) {
+  return {
+    id, name: `Product ${id}`, description: '', price: '19.99', image: '', category: 'Books',
+    rating: '4.5', rating_count: 2, rating_histogram: [0, 0, 0, 1, 1], stock: 3, options: [], variants: []
+  };
+}
+
+/** Stands in for GET /api/products: paged, with the same clamping as the route */
+function pagedProducts(url: string, count: number, requests: string[]): HttpInterceptorFn {
+  const rows = Array.from({ length: count }, (_, i) => row(i + 1));
+  return (req) => {
+    requests.push(req.urlWithParams);
+    const page = Math.max(1, Number(req.params.get('page')) || 1);
+    const limit = Math.min(100, Math.max(1, Number(req.params.get('limit')) || 50));
+    const body = {
+      products: rows.slice((page - 1) * limit, page * limit),
+      total: rows.length,
+      page,
+      totalPages: Math.ceil(rows.length / limit)
+    };
+    return of(new HttpResponse({ status: 200, url, body }));
+  };
+}
+
+describe('HttpProductRepository', () => {
+  const url = '/api/products';
+
+  function create(count: number, requests: string[] = []): HttpProductRepository {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(withInterceptors([pagedProducts(url, count, requests)]))]
+    });
+    return new HttpProductRepository(TestBed.inject(HttpClient), url, PRODUCT_MAPPER);
+  }
+
+  it('should unwrap the paged listing and map its rows', async () => {
+    const products = await firstValueFrom(create(3).findAll());
+    expect(products.length).toBe(3);
+    expect(products[0].price).toBe(19.99);
+    expect(products[0].rating).toBe(4.5);
+    expect(products[0].ratingCount).toBe(2);
+  });
+
+  it('should follow totalPages past the 100-row cap', async () => {
+    const requests: string[] = [];
+    const products = await firstValueFrom(create(230, requests).findAll());
+    expect(products.map(p => p.id)).toEqual(Array.from({ length: 230 }, (_, i) => i + 1));
+    expect(requests).toEqual([
+      '/api/products?page=1&limit=100',
+      '/api/products?page=2&limit=100',
+      '/api/products?page=3&limit=100'
+    ]);
+  });
+
+  it('should return no products for an empty catalog', async () => {
+    expect(await firstValueFrom(create(0).findAll())).toEqual([]);
+  });
+
+  it('should request just the listing page asked for', async () => {
+    const requests: string[] = [];
+    const response = await firstValueFrom(create(30, requests).findPage({
+      search: '', category: 'Books', maxPrice: 50, inStock: false, sort: 'price-asc', page: 2, limit: 12
+    }));
+    expect(requests).toEqual(['/api/products?category=Books&maxPrice=50&sort=price-asc&page=2&limit=12']);
+    expect(response.products.map(p => p.id)).toEqual(Array.from({ length: 12 }, (_, i) => i + 13));
+    expect(response.products[0].price).toBe(19.99);
+    expect(response.totalPages).toBe(3);
+  });
+});
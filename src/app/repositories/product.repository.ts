@@ -0,0 +1,124 @@
+// ============================================================
+// PRODUCT REPOSITORY — Products, plus the paged storefront listing
+// ============================================================
+// Besides the usual CRUD, product repositories answer one page
+// of the storefront listing (findPage), so the catalog never
+// has to be downloaded just to show 12 products:
+//
+//   InMemoryProductRepository — runs listProducts() over the
+//                               seeded array
+//   HttpProductRepository     — sends the query to
+//                               GET /api/products, which
+//                               searches, filters, counts facets
+//                               and pages on the server
+//
+// GET /api/products doesn't return a bare array like the other
+// resources: it answers { products, total, page, totalPages,
+// facets } and caps each page at 100 rows. findAll() therefore
+// reads the first page, then fetches the rest in parallel and
+// joins them in order.
+//
+// Review aggregates go through updateRating() rather than
+// update(): PUT /api/products/:id is admin-only, but a shopper
+// editing or deleting their own review changes the rating too.
+// ============================================================
+
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, catchError, forkJoin, map, of, switchMap } from 'rxjs';
+import { Product, ProductQuery, ProductResponse, RatingSummary, SearchFacets } from '../product.model';
+import { listProducts } from '../services/product-search';
+import { Repository } from './repository';
+import { InMemoryRepository } from './in-memory.repository';
+import { HttpMapper, HttpRepository, toRepositoryError } from './http.repository';
+
+/** Rows per page requested from GET /api/products (the backend's cap) */
+export const PRODUCT_PAGE_SIZE = 100;
+
+/** A product repository that can also page the storefront listing */
+export interface ProductRepository extends Repository<Product> {
+
+  /** One page of matching products, with facet counts for every match */
+  findPage(query: ProductQuery): Observable<ProductResponse>;
+
+  /** Store a product's review aggregate — allowed for any signed-in user */
+  updateRating(id: number, summary: RatingSummary): Observable<Product>;
+}
+
+// ── In-memory ───────────────────────────────────────────────
+
+export class InMemoryProductRepository extends InMemoryRepository<Product> implements ProductRepository {
+
+  constructor(seed: Product[]) {
+    super(seed, 'Product');
+  }
+
+  findPage(query: ProductQuery): Observable<ProductResponse> {
+    return this.findAll().pipe(map(products => listProducts(products, query)));
+  }
+
+  updateRating(id: number, summary: RatingSummary): Observable<Product> {
+    return this.patch(id, {
+      rating: summary.average,
+      ratingCount: summary.count,
+      ratingHistogram: summary.histogram
+    });
+  }
+}
+
+// ── HTTP ────────────────────────────────────────────────────
+
+/** One page of GET /api/products, before mapping */
+interface ProductPage {
+  products: any[];
+  total: number;
+  page: number;
+  totalPages: number;
+  facets?: SearchFacets;
+}
+
+export class HttpProductRepository extends HttpRepository<Product> implements ProductRepository {
+
+  constructor(http: HttpClient, url: string, mapper: HttpMapper<Product>) {
+    super(http, url, mapper);
+  }
+
+  /** Every product, read page by page */
+  override findAll(): Observable<Product[]> {
+    return this.fetchPage({ page: 1, limit: PRODUCT_PAGE_SIZE }).pipe(
+      switchMap(first => {
+        const rest = Array.from({ length: Math.max(0, first.totalPages - 1) }, (_, i) =>
+          this.fetchPage({ page: i + 2, limit: PRODUCT_PAGE_SIZE })
+        );
+        return rest.length === 0 ? of([first]) : forkJoin(rest).pipe(map(pages => [first, ...pages]));
+      }),
+      map(pages => pages.flatMap(page => page.products).map(row => this.mapper.fromApi(row))),
+      catchError(toRepositoryError)
+    );
+  }
+
+  findPage(query: ProductQuery): Observable<ProductResponse> {
+    return this.fetchPage(query).pipe(
+      map(page => ({ ...page, products: page.products.map(row => this.mapper.fromApi(row)) })),
+      catchError(toRepositoryError)
+    );
+  }
+
+  /** PUT /products/:id/rating — the server derives average and count from the histogram */
+  updateRating(id: number, summary: RatingSummary): Observable<Product> {
+    return this.http.put<any>(`${this.url}/${id}/rating`, { histogram: summary.histogram }).pipe(
+      map(row => this.mapper.fromApi(row)),
+      catchError(toRepositoryError)
+    );
+  }
+
+  /** GET /products with the query's params — unset and empty ones left out */
+  private fetchPage(query: ProductQuery): Observable<ProductPage> {
+    let params = new HttpParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== null && value !== '' && value !== false) {
+        params = params.set(key, value);
+      }
+    }
+    return this.http.get<ProductPage>(this.url, { params });
+  }
+}
@@ -0,0 +1,126 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, HttpInterceptorFn, HttpResponse, HttpErrorResponse, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { firstValueFrom, of, throwError } from 'rxjs';
+
+import { Repository, RepositoryError } from './repository';
+import { InMemoryRepository } from './in-memory.repository';
+import { HttpRepository } from './http.repository';
+
+interface Widget {
+  id: number;
+  name: string;
+  price: number;
+}
+
+const SEED: Widget[] = [
+  { id: 1, name: 'Sprocket', price: 4.5 },
+  { id: 2, name: 'Gear', price: 12 }
+];
+
+/**
+ * Stands in for an Express resource router: same routes, same
+ * status codes and the same `{ error }` body on failure.
+ */
+function fakeRestBackend(url: string, seed: Widget[]): HttpInterceptorFn {
+  let rows = structuredClone(seed);
+  let nextId = Math.max(0, ...rows.map(r => r.id)) + 1;
+  const notFound = (req: { url: string }) => throwError(() => new HttpErrorResponse({
+    status: 404, url: req.url, error: { error: 'Widget not found.' }
+  }));
+
+  return (req) => {
+    const id = Number(req.url.slice(url.length + 1));
+    const existing = rows.find(r => r.id === id);
+
+    switch (req.method) {
+      case 'GET':
+        if (req.url === url) return of(new HttpResponse({ status: 200, body: structuredClone(rows) }));
+        return existing ? of(new HttpResponse({ status: 200, body: { ...existing } })) : notFound(req);
+      case 'POST': {
+        const created = { ...(req.body as Omit<Widget, 'id'>), id: nextId++ };
+        rows.push(created);
+        return of(new HttpResponse({ status: 201, body: { ...created } }));
+      }
+      case 'PUT': {
+        if (!existing) return notFound(req);
+        const updated = { ...(req.body as Widget), id };
+        rows = rows.map(r => r.id === id ? updated : r);
+        return of(new HttpResponse({ status: 200, body: { ...updated } }));
+      }
+      case 'DELETE':
+        if (!existing) return notFound(req);
+        rows = rows.filter(r => r.id !== id);
+        return of(new HttpResponse({ status: 200, body: { message: 'Widget deleted.' } }));
+      default:
+        return throwError(() => new HttpErrorResponse({ status: 405, url: req.url }));
+    }
+  };
+}
+
+/** The contract every Repository implementation must satisfy */
+function repositoryContract(name: string, create: () => Repository<Widget>): void {
+  describe(`${name} (repository contract)`, () => {
+    let repository: Repository<Widget>;
+
+    beforeEach(() => {
+      repository = create();
+    });
+
+    it('should list the seeded entities', async () => {
+      const all = await firstValueFrom(repository.findAll());
+      expect(all.map(w => w.name)).toEqual(['Sprocket', 'Gear']);
+    });
+
+    it('should find an entity by id', async () => {
+      const widget = await firstValueFrom(repository.findById(2));
+      expect(widget).toEqual({ id: 2, name: 'Gear', price: 12 });
+    });
+
+    it('should fail with a 404 for an unknown id', async () => {
+      const err = await firstValueFrom(repository.findById(99)).catch(e => e as RepositoryError);
+      expect((err as RepositoryError).status).toBe(404);
+      expect((err as RepositoryError).error).toContain('not found');
+    });
+
+    it('should assign a new id on create', async () => {
+      const created = await firstValueFrom(repository.create({ name: 'Cog', price: 3 }));
+      expect(created.id).toBe(3);
+      const all = await firstValueFrom(repository.findAll());
+      expect(all.length).toBe(3);
+    });
+
+    it('should replace an entity on update', async () => {
+      await firstValueFrom(repository.update({ id: 1, name: 'Sprocket XL', price: 6 }));
+      const widget = await firstValueFrom(repository.findById(1));
+      expect(widget.name).toBe('Sprocket XL');
+    });
+
+    it('should merge changes on patch', async () => {
+      const patched = await firstValueFrom(repository.patch(2, { price: 10 }));
+      expect(patched).toEqual({ id: 2, name: 'Gear', price: 10 });
+    });
+
+    it('should remove an entity on delete', async () => {
+      await firstValueFrom(repository.delete(1));
+      const err = await firstValueFrom(repository.findById(1)).catch(e => e as RepositoryError);
+      expect((err as RepositoryError).status).toBe(404);
+    });
+
+    it('should not share state with the caller', async () => {
+      const widget = await firstValueFrom(repository.findById(1));
+      widget.name = 'Mutated';
+      const again = await firstValueFrom(repository.findById(1));
+      expect(again.name).toBe('Sprocket');
+    });
+  });
+}
+
+repositoryContract('InMemoryRepository', () => new InMemoryRepository<Widget>(SEED, 'Widget'));
+
+repositoryContract('HttpRepository', () => {
+  const url = '/api/widgets';
+  TestBed.configureTestingModule({
+    providers: [provideHttpClient(withInterceptors([fakeRestBackend(url, SEED)]))]
+  });
+  return new HttpRepository<Widget>(TestBed.inject(HttpClient), url);
+});
@@ -0,0 +1,55 @@
+// ============================================================
+// REPOSITORY — Data access contract shared by every service
+// ============================================================
+// ANGULAR CONCEPTS:
+//
+// 1. Abstract class as a DI contract
+//    Services depend on Repository<T>, never on a concrete
+//    store. An InjectionToken per resource decides which
+//    implementation is handed out (see each service file).
+//
+// 2. Two interchangeable implementations
+//    - InMemoryRepository — seeded arrays, works offline
+//    - HttpRepository     — REST calls to the Express API
+//    environment.dataSources picks one per resource.
+//
+// 3. One error shape
+//    Both implementations fail with { status, error } so
+//    components handle errors the same way in either mode.
+// ============================================================
+
+import { Observable, switchMap } from 'rxjs';
+
+/** Where a resource's data lives */
+export type DataSource = 'memory' | 'http';
+
+/** Error shape emitted by every repository */
+export interface RepositoryError {
+  status: number;
+  error: string;
+}
+
+export abstract class Repository<T extends { id: number }> {
+
+  /** Get every entity */
+  abstract findAll(): Observable<T[]>;
+
+  /** Get one entity — fails with a 404 RepositoryError if missing */
+  abstract findById(id: number): Observable<T>;
+
+  /** Store a new entity and return it with its assigned ID */
+  abstract create(entity: Omit<T, 'id'>): Observable<T>;
+
+  /** Replace an existing entity */
+  abstract update(entity: T): Observable<T>;
+
+  /** Remove an entity — fails with a 404 RepositoryError if missing */
+  abstract delete(id: number): Observable<void>;
+
+  /** Read-modify-write helper: merge changes into the stored entity */
+  patch(id: number, changes: Partial<T>): Observable<T> {
+    return this.findById(id).pipe(
+      switchMap(current => this.update({ ...current, ...changes, id }))
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { Bid, ProxyBid } from '../product.model';
+import {
+  bidIncrement,
+  buyNowAvailable,
+  minimumBid,
+  reserveMet,
+  resolveProxyBids,
+  resolveRaisedMaximum,
+  softCloseExtension,
+  topBid
+} from './auction-bidding';
+
+describe('auction proxy bidding', () => {
+  const proxy = (bidderId: number, maxAmount: number, createdAt: string): ProxyBid => ({
+    id: bidderId, auctionId: 1, bidderId, bidderName: `Bidder ${bidderId}`, maxAmount, createdAt
+  });
+  const auction = { startingPrice: 40, currentPrice: 50, bidCount: 3 };
+  const leader = proxy(1, 80, '2024-01-01T10:00:00Z');
+
+  it('should open at the starting price', () => {
+    const opening = { startingPrice: 40, currentPrice: 40, bidCount: 0 };
+    expect(minimumBid(opening)).toBe(40);
+    const outcome = resolveProxyBids(opening, undefined, proxy(2, 100, '2024-01-02T10:00:00Z'));
+    expect(outcome.price).toBe(40);
+    expect(outcome.bids).toEqual([{ bidderId: 2, bidderName: 'Bidder 2', amount: 40, auto: false }]);
+  });
+
+  it('should let the leader\'s proxy answer a lower maximum', () => {
+    const outcome = resolveProxyBids(auction, leader, proxy(2, 60, '2024-01-02T10:00:00Z'));
+    expect(outcome.winner).toBe(leader);
+    expect(outcome.price).toBe(61);
+    expect(outcome.bids.map(b => [b.bidderId, b.amount, b.auto])).toEqual([[2, 60, false], [1, 61, true]]);
+  });
+
+  it('should outbid the leader by one increment, capped at the new maximum', () => {
+    const higher = proxy(2, 100, '2024-01-02T10:00:00Z');
+    expect(resolveProxyBids(auction, leader, higher).price).toBe(81);
+    expect(resolveProxyBids(auction, leader, { ...higher, maxAmount: 80.5 }).price).toBe(80.5);
+    expect(resolveProxyBids(auction, leader, higher).bids.map(b => [b.bidderId, b.amount, b.auto]))
+      .toEqual([[1, 80, true], [2, 81, false]]);
+  });
+
+  it('should give equal maximums to the one set first', () => {
+    const outcome = resolveProxyBids(auction, leader, proxy(2, 80, '2024-01-02T10:00:00Z'));
+    expect(outcome.winner).toBe(leader);
+    expect(outcome.price).toBe(80);
+  });
+
+  it('should not re-record a leader whose maximum is the current price', () => {
+    const seeded = proxy(1, 50, '2024-01-01T10:00:00Z');
+    const outcome = resolveProxyBids(auction, seeded, proxy(2, 70, '2024-01-02T10:00:00Z'));
+    expect(outcome.price).toBe(51);
+    expect(outcome.bids.map(b => b.bidderId)).toEqual([2]);
+  });
+
+  it('should lead with the later of two equal bids', () => {
+    const bid = (id: number, bidderId: number, amount: number): Bid => ({
+      id, auctionId: 1, bidderId, bidderName: '', amount, createdAt: '2024-01-02T10:00:00Z'
+    });
+    expect(topBid([bid(1, 2, 80), bid(2, 1, 80), bid(3, 3, 70)])?.bidderId).toBe(1);
+  });
+
+  it('should step bids by the price band', () => {
+    expect([0.5, 4.99, 24, 99.99, 100, 640, 7200].map(p => bidIncrement(p)))
+      .toEqual([0.05, 0.25, 0.5, 1, 2.5, 10, 100]);
+    expect(minimumBid({ startingPrice: 100, currentPrice: 180, bidCount: 4 })).toBe(182.5);
+    expect(bidIncrement(40, [{ from: 0, increment: 2 }])).toBe(2);
+  });
+
+  it('should jump to the reserve once a maximum covers it', () => {
+    const reserved = { ...auction, reservePrice: 75 };
+    expect(resolveProxyBids(reserved, proxy(1, 50, '2024-01-01T10:00:00Z'), proxy(2, 100, '2024-01-02T10:00:00Z')).price).toBe(75);
+    expect(resolveProxyBids(reserved, proxy(1, 50, '2024-01-01T10:00:00Z'), proxy(2, 70, '2024-01-02T10:00:00Z')).price).toBe(51);
+    expect(reserveMet(reserved)).toBeFalse();
+    expect(reserveMet({ ...reserved, currentPrice: 75 })).toBeTrue();
+    expect(reserveMet(auction)).toBeTrue();
+  });
+
+  it('should jump to the reserve when the leader raises their maximum past it', () => {
+    const reserved = { startingPrice: 60, currentPrice: 95, bidCount: 4, reservePrice: 120 };
+    const outcome = resolveRaisedMaximum(reserved, proxy(1, 150, '2024-01-03T10:00:00Z'));
+    expect(outcome?.price).toBe(120);
+    expect(outcome?.bids).toEqual([{ bidderId: 1, bidderName: 'Bidder 1', amount: 120, auto: false }]);
+    expect(resolveRaisedMaximum(reserved, proxy(1, 110, '2024-01-03T10:00:00Z'))).toBeNull();
+    expect(resolveRaisedMaximum({ ...reserved, currentPrice: 125 }, proxy(1, 150, '2024-01-03T10:00:00Z'))).toBeNull();
+    expect(resolveRaisedMaximum(auction, proxy(1, 150, '2024-01-03T10:00:00Z'))).toBeNull();
+  });
+
+  it('should extend a late bid, a limited number of times', () => {
+    const now = new Date('2024-01-05T11:57:00Z');
+    const closing = { endsAt: '2024-01-05T12:00:00Z' };
+    expect(softCloseExtension(closing, now)).toBe('2024-01-05T12:05:00.000Z');
+    expect(softCloseExtension({ endsAt: '2024-01-05T12:10:00Z' }, now)).toBeNull();
+    expect(softCloseExtension({ ...closing, extensionCount: 10 }, now)).toBeNull();
+    expect(softCloseExtension(closing, now, { windowMinutes: 2, extensionMinutes: 1, maxExtensions: 3 })).toBeNull();
+  });
+
+  it('should offer Buy It Now until bidding nears the price', () => {
+    const listing = { status: 'active' as const, buyNowPrice: 120, currentPrice: 35, bidCount: 0 };
+    expect(buyNowAvailable(listing)).toBeTrue();
+    expect(buyNowAvailable({ ...listing, currentPrice: 59, bidCount: 2 })).toBeTrue();
+    expect(buyNowAvailable({ ...listing, currentPrice: 60, bidCount: 3 })).toBeFalse();
+    expect(buyNowAvailable({ ...listing, currentPrice: 60, bidCount: 3 }, 0.75)).toBeTrue();
+    expect(buyNowAvailable({ ...listing, status: 'sold' })).toBeFalse();
+    expect(buyNowAvailable({ ...listing, buyNowPrice: undefined })).toBeFalse();
+  });
+});
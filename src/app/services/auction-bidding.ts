@@ -0,0 +1,197 @@
+// ============================================================
+// AUCTION BIDDING — Proxy (automatic) bid resolution
+// ============================================================
+// CONCEPTS:
+//
+// 1. Proxy bids
+//    A bidder enters a secret maximum rather than a fixed
+//    amount. The auction only climbs as far as it must: one
+//    increment above the runner-up's maximum, capped at the
+//    leader's own maximum.
+//
+// 2. Resolving a new bid
+//    Each new maximum is either below the current price (and
+//    rejected) or competes with the current leader alone —
+//    everyone else has already been outbid. resolveProxyBids()
+//    settles that contest and returns the bids to record: the
+//    loser's bid at their maximum, then the winner's at the new
+//    price. Equal maximums go to the one set first.
+//
+// 3. Seeded bids
+//    Bids placed before proxies existed have no maximum; their
+//    bidder is treated as having bid exactly the current price.
+//
+// 4. Increments and reserves
+//    The step between bids grows with the price, following a
+//    table of price bands (DEFAULT_BID_INCREMENTS). A seller's
+//    hidden reserve is the least they'll sell for: once a
+//    maximum reaches it — a new bidder's, or the leader's
+//    raised one — the price jumps straight to the reserve, and
+//    an auction that ends below it doesn't sell.
+//
+// 5. Soft close
+//    A bid in the last few minutes pushes the end out, so a
+//    last-second bid can still be answered. The number of
+//    extensions is capped so an auction always ends.
+//
+// 6. Buy It Now
+//    A seller's buy-now price sells the item outright. It is
+//    offered until bidding reaches a share of it, after which
+//    the auction has to run its course.
+// ============================================================
+
+import { Auction, Bid, ProxyBid } from '../product.model';
+
+/** A price band: bids from `from` up step by `increment` */
+export interface BidIncrementBand {
+  from: number;
+  increment: number;
+}
+
+/** Bid increments by price band, lowest band first */
+export const DEFAULT_BID_INCREMENTS: BidIncrementBand[] = [
+  { from: 0,    increment: 0.05 },
+  { from: 1,    increment: 0.25 },
+  { from: 5,    increment: 0.50 },
+  { from: 25,   increment: 1.00 },
+  { from: 100,  increment: 2.50 },
+  { from: 250,  increment: 5.00 },
+  { from: 500,  increment: 10.00 },
+  { from: 1000, increment: 25.00 },
+  { from: 2500, increment: 50.00 },
+  { from: 5000, increment: 100.00 }
+];
+
+/** Auction fields bid resolution reads */
+export type BiddingState = Pick<Auction, 'startingPrice' | 'currentPrice' | 'bidCount' | 'reservePrice'>;
+
+/** The step a bid must clear over `price` */
+export function bidIncrement(price: number, bands: BidIncrementBand[] = DEFAULT_BID_INCREMENTS): number {
+  const band = [...bands].reverse().find(b => price >= b.from);
+  return band?.increment ?? bands[0]?.increment ?? 1;
+}
+
+/** Lowest maximum a new bidder may enter: the opening price, then one increment above the current bid */
+export function minimumBid(auction: BiddingState, bands: BidIncrementBand[] = DEFAULT_BID_INCREMENTS): number {
+  return auction.bidCount === 0
+    ? auction.startingPrice
+    : round2(auction.currentPrice + bidIncrement(auction.currentPrice, bands));
+}
+
+/** Anti-sniping rules: a bid in the last `windowMinutes` adds `extensionMinutes`, at most `maxExtensions` times */
+export interface SoftCloseRules {
+  windowMinutes: number;
+  extensionMinutes: number;
+  maxExtensions: number;
+}
+
+export const DEFAULT_SOFT_CLOSE: SoftCloseRules = {
+  windowMinutes: 5,
+  extensionMinutes: 5,
+  maxExtensions: 10
+};
+
+/** The new end time if a bid at `now` lands in the closing window, else null */
+export function softCloseExtension(
+  auction: Pick<Auction, 'endsAt' | 'extensionCount'>,
+  now: Date,
+  rules: SoftCloseRules = DEFAULT_SOFT_CLOSE
+): string | null {
+  const end = new Date(auction.endsAt).getTime();
+  const inWindow = end - now.getTime() <= rules.windowMinutes * 60 * 1000;
+  if (!inWindow || (auction.extensionCount ?? 0) >= rules.maxExtensions) return null;
+  return new Date(end + rules.extensionMinutes * 60 * 1000).toISOString();
+}
+
+/** Share of the buy-now price bidding may reach before Buy It Now is withdrawn */
+export const DEFAULT_BUY_NOW_CUTOFF = 0.5;
+
+/** True while the auction can still be bought outright */
+export function buyNowAvailable(
+  auction: Pick<Auction, 'status' | 'buyNowPrice' | 'currentPrice' | 'bidCount'>,
+  cutoff: number = DEFAULT_BUY_NOW_CUTOFF
+): boolean {
+  if (auction.status !== 'active' || auction.buyNowPrice == null) return false;
+  return auction.bidCount === 0 || auction.currentPrice < auction.buyNowPrice * cutoff;
+}
+
+/** True if the auction has no reserve or its price has reached it */
+export function reserveMet(auction: BiddingState): boolean {
+  return auction.reservePrice == null || (auction.bidCount > 0 && auction.currentPrice >= auction.reservePrice);
+}
+
+/**
+ * The bid currently leading. On equal amounts the later bid
+ * leads — it's the proxy answering a bid that tied its maximum.
+ */
+export function topBid(bids: Bid[]): Bid | undefined {
+  return [...bids].sort((a, b) => b.amount - a.amount || b.id - a.id)[0];
+}
+
+/** A bid resolveProxyBids() asks the service to record */
+export type ResolvedBid = Pick<Bid, 'bidderId' | 'bidderName' | 'amount' | 'auto'>;
+
+export interface ProxyResolution {
+  bids: ResolvedBid[];
+  price: number;
+  winner: ProxyBid;
+}
+
+/**
+ * Settle a challenger's maximum against the current leader's.
+ * The challenger must not already lead and must have cleared
+ * minimumBid(); `leader` is undefined while there are no bids.
+ */
+export function resolveProxyBids(
+  auction: BiddingState,
+  leader: ProxyBid | undefined,
+  challenger: ProxyBid,
+  bands: BidIncrementBand[] = DEFAULT_BID_INCREMENTS
+): ProxyResolution {
+  if (!leader) {
+    const price = meetReserve(auction, challenger, auction.startingPrice);
+    return { bids: [toBid(challenger, price, false)], price, winner: challenger };
+  }
+
+  const [winner, loser] = [leader, challenger].sort((a, b) =>
+    b.maxAmount - a.maxAmount || new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+  const price = meetReserve(auction, winner, Math.min(
+    winner.maxAmount,
+    round2(loser.maxAmount + bidIncrement(loser.maxAmount, bands))
+  ));
+
+  const bids: ResolvedBid[] = [];
+  // The leader's standing bid already shows the current price
+  if (loser.maxAmount > auction.currentPrice) {
+    bids.push(toBid(loser, loser.maxAmount, loser !== challenger));
+  }
+  bids.push(toBid(winner, price, winner !== challenger));
+  return { bids, price, winner };
+}
+
+/**
+ * Settle a leader raising their own maximum. Nothing needs
+ * bidding unless the new maximum reaches a reserve the price
+ * hasn't met yet — then the leader bids the reserve. Null if
+ * the price stays where it is.
+ */
+export function resolveRaisedMaximum(auction: BiddingState, leader: ProxyBid): ProxyResolution | null {
+  const price = meetReserve(auction, leader, auction.currentPrice);
+  if (price <= auction.currentPrice) return null;
+  return { bids: [toBid(leader, price, false)], price, winner: leader };
+}
+
+/** The price raised to the reserve when the winner's maximum covers it */
+function meetReserve(auction: BiddingState, winner: ProxyBid, price: number): number {
+  const reserve = auction.reservePrice;
+  return reserve != null && winner.maxAmount >= reserve ? Math.max(price, reserve) : price;
+}
+
+function toBid(proxy: ProxyBid, amount: number, auto: boolean): ResolvedBid {
+  return { bidderId: proxy.bidderId, bidderName: proxy.bidderName, amount: round2(amount), auto };
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
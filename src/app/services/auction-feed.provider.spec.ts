@@ -0,0 +1,55 @@
+import { Auction } from '../product.model';
+import { AuctionEvent, BroadcastChannelAuctionFeed, WebSocketAuctionFeed } from './auction-feed.provider';
+
+describe('BroadcastChannelAuctionFeed', () => {
+  let channel = 0;
+  const event = (auctionId: number): AuctionEvent => ({
+    type: 'bid', auctionId, auction: { id: auctionId, currentPrice: 60 } as Auction
+  });
+
+  it('should deliver events to other tabs, but not back to the sender', (done) => {
+    const name = `auction-feed-spec-${++channel}`;
+    const sender = new BroadcastChannelAuctionFeed(name);
+    const receiver = new BroadcastChannelAuctionFeed(name);
+    const echoed: AuctionEvent[] = [];
+    sender.events().subscribe(e => echoed.push(e));
+
+    receiver.events().subscribe(received => {
+      expect(received).toEqual(event(3));
+      setTimeout(() => {
+        expect(echoed).toEqual([]);
+        done();
+      });
+    });
+    sender.publish(event(3));
+  });
+
+  it('should filter events to one auction', (done) => {
+    const name = `auction-feed-spec-${++channel}`;
+    const sender = new BroadcastChannelAuctionFeed(name);
+    const receiver = new BroadcastChannelAuctionFeed(name);
+
+    receiver.events(2).subscribe(received => {
+      expect(received.auctionId).toBe(2);
+      done();
+    });
+    sender.publish(event(1));
+    sender.publish(event(2));
+  });
+});
+
+describe('WebSocketAuctionFeed', () => {
+  it('should keep proxy maximums off the socket', () => {
+    const feed = new WebSocketAuctionFeed('http://localhost:3000/ws/auctions');
+    const socket = (feed as any).socket;
+    const sent = spyOn(socket, 'next');
+    const proxies = [{ id: 1, auctionId: 3, bidderId: 7, bidderName: 'Bidder 7', maxAmount: 150, createdAt: '2024-01-01T10:00:00Z' }];
+    const auction = { id: 3, currentPrice: 120 } as Auction;
+
+    feed.publish({ type: 'bid', auctionId: 3, auction, bids: [], proxies });
+    feed.publish({ type: 'maximum', auctionId: 3, auction, proxies });
+
+    expect(sent.calls.count()).toBe(1);
+    expect(sent).toHaveBeenCalledWith({ action: 'publish', event: { type: 'bid', auctionId: 3, auction, bids: [] } });
+  });
+});
@@ -0,0 +1,151 @@
+// ============================================================
+// AUCTION FEED — Live auction events pushed between clients
+// ============================================================
+// ANGULAR CONCEPTS:
+//
+// 1. Abstract class as a DI contract
+//    AuctionService publishes and listens through AuctionFeed,
+//    never through a concrete transport. AUCTION_FEED picks
+//    one to match the auction data source.
+//
+// 2. Two transports
+//    - BroadcastChannelAuctionFeed — tabs of the same browser
+//      talk directly, so the in-memory demo stays in sync
+//      without a server
+//    - WebSocketAuctionFeed — the Express relay on
+//      /ws/auctions (backend/realtime/auction-feed.js)
+//    Neither hands a client back its own events: it already
+//    knows what it just did.
+//
+// 3. Replicas vs. a shared source
+//    With BroadcastChannel every tab keeps its own copy of the
+//    data, so `replicates` is true and AuctionService writes
+//    incoming events into its repositories. Over WebSocket the
+//    server holds the data, and an event is only a cue to
+//    reload it.
+//
+// 4. Secret maximums
+//    Replicas also need each other's proxy maximums, or a bid
+//    in one tab would be settled against a stale maximum. They
+//    travel as `proxies` (and 'maximum' events, for a leader
+//    raising their own) between replicas only — the WebSocket
+//    feed strips them, so they never reach the server.
+// ============================================================
+
+import { InjectionToken } from '@angular/core';
+import { Observable, filter, map, retry } from 'rxjs';
+import { webSocket, WebSocketSubject } from 'rxjs/webSocket';
+import { Auction, Bid, ProxyBid } from '../product.model';
+import { environment } from '../environments/environment';
+
+/** What happened to an auction */
+export type AuctionEventType = 'created' | 'bid' | 'maximum' | 'extended' | 'ended' | 'cancelled';
+
+/** One change to an auction, as pushed to other clients */
+export interface AuctionEvent {
+  type: AuctionEventType;
+  auctionId: number;
+  auction: Auction;             // The auction after the change
+  bids?: Bid[];                 // Bids recorded by the change, oldest first
+  proxies?: ProxyBid[];         // Maximums set by the change (replicas only)
+}
+
+export abstract class AuctionFeed {
+
+  /** True if each client keeps its own copy of the data and must apply events itself */
+  abstract readonly replicates: boolean;
+
+  /** Tell the other clients about a change */
+  abstract publish(event: AuctionEvent): void;
+
+  /** Changes made by other clients — to one auction, or to all of them */
+  abstract events(auctionId?: number): Observable<AuctionEvent>;
+}
+
+// ── BroadcastChannel ────────────────────────────────────────
+
+/** Keeps tabs of the same browser in sync — no server needed */
+export class BroadcastChannelAuctionFeed extends AuctionFeed {
+  readonly replicates = true;
+
+  // Null where BroadcastChannel isn't available (SSR, old browsers)
+  private channel: BroadcastChannel | null;
+
+  constructor(channelName: string) {
+    super();
+    this.channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(channelName);
+  }
+
+  publish(event: AuctionEvent): void {
+    this.channel?.postMessage(event);
+  }
+
+  events(auctionId?: number): Observable<AuctionEvent> {
+    return new Observable<AuctionEvent>(subscriber => {
+      const channel = this.channel;
+      if (!channel) return;
+      const onMessage = (message: MessageEvent<AuctionEvent>) => {
+        if (auctionId == null || message.data.auctionId === auctionId) subscriber.next(message.data);
+      };
+      channel.addEventListener('message', onMessage);
+      return () => channel.removeEventListener('message', onMessage);
+    });
+  }
+}
+
+// ── WebSocket ───────────────────────────────────────────────
+
+/** Messages exchanged with the relay (see backend/realtime/auction-feed.js) */
+type AuctionFeedMessage =
+  | { action: 'subscribe' | 'unsubscribe'; auctionId?: number }
+  | { action: 'publish' | 'event'; event: AuctionEvent };
+
+/** Delay before reconnecting a dropped socket */
+const RECONNECT_DELAY_MS = 3000;
+
+/** Talks to the Express relay; one socket shared by every subscription */
+export class WebSocketAuctionFeed extends AuctionFeed {
+  readonly replicates = false;
+
+  private socket: WebSocketSubject<AuctionFeedMessage>;
+
+  constructor(url: string) {
+    super();
+    this.socket = webSocket<AuctionFeedMessage>(toWebSocketUrl(url));
+  }
+
+  publish(event: AuctionEvent): void {
+    // Maximums stay secret: the server has its own copy
+    if (event.type === 'maximum') return;
+    const { proxies: _, ...shared } = event;
+    this.socket.next({ action: 'publish', event: shared });
+  }
+
+  events(auctionId?: number): Observable<AuctionEvent> {
+    // multiplex() sends subscribe/unsubscribe as watchers come and go
+    return this.socket.multiplex(
+      () => ({ action: 'subscribe', auctionId }),
+      () => ({ action: 'unsubscribe', auctionId }),
+      message => message.action === 'event'
+    ).pipe(
+      map(message => (message as { event: AuctionEvent }).event),
+      filter(event => auctionId == null || event.auctionId === auctionId),
+      retry({ delay: RECONNECT_DELAY_MS })
+    );
+  }
+}
+
+/** "/ws/auctions" → "wss://shop.example.com/ws/auctions" */
+function toWebSocketUrl(url: string): string {
+  const resolved = new URL(url, globalThis.location?.href);
+  resolved.protocol = resolved.protocol.replace(/^http/, 'ws');
+  return resolved.toString();
+}
+
+/** The auction feed — follows environment.dataSources.auctions */
+export const AUCTION_FEED = new InjectionToken<AuctionFeed>('AUCTION_FEED', {
+  providedIn: 'root',
+  factory: () => environment.dataSources.auctions === 'http'
+    ? new WebSocketAuctionFeed(environment.auctionFeedUrl)
+    : new BroadcastChannelAuctionFeed('shopng-auctions')
+});
@@ -1,28 +1,97 @@
 // ============================================================
-// AUCTION SERVICE — In-memory auction & bid management
+// AUCTION SERVICE — Auction & bid management
 // ============================================================
 // ANGULAR CONCEPTS:
 //
-// 1. In-memory data store (same pattern as OrderService)
-//    Six seed auctions and ~15 bids pre-populate the system
-//    so the marketplace has realistic data from the start.
+// 1. Repository-backed data (same pattern as OrderService)
+//    Six seed auctions and ~15 bids pre-populate the in-memory
+//    auction and bid repositories so the marketplace has
+//    realistic data from the start.
 //
 // 2. Observable-based API
-//    Every method returns Observable<T> via RxJS `of()` so
-//    component code works identically against a real backend.
+//    Every method returns Observable<T> so component code
+//    works identically against either repository.
 //
 // 3. Auto-expiration
-//    `checkAndEndAuctions()` runs before reads and transitions
-//    active auctions past their `endsAt` to ended/sold.
+//    `checkAndEndAuctions()` runs on every load and transitions
+//    active auctions past their `endsAt` to ended/sold. One
+//    that ends below its reserve is 'ended' with no winner.
 //
 // 4. Bid validation
-//    `placeBid()` enforces: amount > currentPrice, bidder ≠
-//    seller, auction active & not expired.
+//    `placeBid()` enforces: maximum ≥ minimum bid, bidder ≠
+//    seller, auction active & not expired. The minimum steps
+//    up by the BID_INCREMENTS band the current price falls in.
+//
+// 5. Proxy bidding
+//    A bid is a secret maximum kept in the proxy-bid repository.
+//    `placeBid()` saves it, lets resolveProxyBids() settle it
+//    against the leader's maximum and records the bids that
+//    follow — auto bids are flagged so the history can show
+//    them. A leader who bids again only raises their maximum —
+//    unless it now covers the reserve, which is then bid.
+//    Over HTTP, /api/proxy-bids should only return the caller's
+//    own maximums.
+//
+// 6. Soft close
+//    A bid inside SOFT_CLOSE's closing window pushes `endsAt`
+//    out and bumps `extensionCount`; the newest bid recorded
+//    carries `extendedTo` so the history shows the extension.
+//
+// 7. Buy It Now
+//    `buyNow()` sells the auction at its buy-now price and ends
+//    it on the spot. The purchase is recorded as a bid flagged
+//    `buyNow`, so it shows in the history and in My Bids. It is
+//    offered until bidding reaches BUY_NOW_CUTOFF of the price.
+//
+// 8. Live updates
+//    New auctions, bids, extensions, endings and cancellations
+//    are published on AUCTION_FEED, along with any maximums set.
+//    Changes from other clients are applied (see
+//    AuctionFeed.replicates), the snapshots reloaded, and then
+//    re-emitted by `auctionEvents()` for components.
 // ============================================================
 
-import { Injectable } from '@angular/core';
-import { Observable, of, throwError } from 'rxjs';
-import { Auction, Bid } from '../product.model';
+import { Inject, Injectable, InjectionToken, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import {
+  EMPTY,
+  Observable,
+  Subject,
+  catchError,
+  concatMap,
+  filter,
+  forkJoin,
+  from,
+  map,
+  of,
+  switchMap,
+  tap,
+  throwError,
+  toArray
+} from 'rxjs';
+import { Auction, Bid, ProxyBid } from '../product.model';
+import { environment } from '../environments/environment';
+import { Repository } from '../repositories/repository';
+import { InMemoryRepository } from '../repositories/in-memory.repository';
+import { HttpRepository } from '../repositories/http.repository';
+import {
+  BidIncrementBand,
+  DEFAULT_BID_INCREMENTS,
+  DEFAULT_BUY_NOW_CUTOFF,
+  DEFAULT_SOFT_CLOSE,
+  ProxyResolution,
+  ResolvedBid,
+  SoftCloseRules,
+  bidIncrement,
+  buyNowAvailable,
+  minimumBid,
+  reserveMet,
+  resolveProxyBids,
+  resolveRaisedMaximum,
+  softCloseExtension,
+  topBid
+} from './auction-bidding';
+import { AUCTION_FEED, AuctionEvent, AuctionEventType, AuctionFeed } from './auction-feed.provider';
 
 // ── Helper: round to 2 decimal places ─────────────────────
 function round2(n: number): number {
@@ -87,6 +156,7 @@ const SEED_AUCTIONS: Auction[] = [
     startingPrice: 60.00,
     currentPrice: 95.00,
     bidCount: 3,
+    reservePrice: 120.00,
     status: 'active',
     createdAt: daysAgo(4),
     endsAt: daysFromNow(1)
@@ -102,6 +172,8 @@ const SEED_AUCTIONS: Auction[] = [
     startingPrice: 35.00,
     currentPrice: 52.00,
     bidCount: 2,
+    reservePrice: 45.00,
+    buyNowPrice: 120.00,
     status: 'active',
     createdAt: daysAgo(1),
     endsAt: daysFromNow(3)
@@ -170,105 +242,279 @@ const SEED_BIDS: Bid[] = [
   { id: 17, auctionId: 5, bidderId: 101, bidderName: 'Mark J.',  amount: 145.00, createdAt: daysAgo(2) }
 ];
 
+// ── Seed proxy bids ───────────────────────────────────────
+// The current leaders of auctions 1 and 2 bid above the price
+const SEED_PROXY_BIDS: ProxyBid[] = [
+  { id: 1, auctionId: 1, bidderId: 998, bidderName: 'Demo U.', maxAmount: 90.00,  createdAt: daysAgo(1) },
+  { id: 2, auctionId: 2, bidderId: 100, bidderName: 'Jane S.', maxAmount: 210.00, createdAt: daysAgo(0.5) }
+];
+
+/** Repository behind AuctionService's listings */
+export const AUCTION_REPOSITORY = new InjectionToken<Repository<Auction>>('AUCTION_REPOSITORY', {
+  providedIn: 'root',
+  factory: () => environment.dataSources.auctions === 'http'
+    ? new HttpRepository<Auction>(inject(HttpClient), `${environment.apiUrl}/auctions`)
+    : new InMemoryRepository<Auction>(SEED_AUCTIONS, 'Auction')
+});
+
+/** Repository behind AuctionService's bids (follows the auction data source) */
+export const BID_REPOSITORY = new InjectionToken<Repository<Bid>>('BID_REPOSITORY', {
+  providedIn: 'root',
+  factory: () => environment.dataSources.auctions === 'http'
+    ? new HttpRepository<Bid>(inject(HttpClient), `${environment.apiUrl}/bids`)
+    : new InMemoryRepository<Bid>(SEED_BIDS, 'Bid')
+});
+
+/** Repository behind bidders' secret maximums (follows the auction data source) */
+export const PROXY_BID_REPOSITORY = new InjectionToken<Repository<ProxyBid>>('PROXY_BID_REPOSITORY', {
+  providedIn: 'root',
+  factory: () => environment.dataSources.auctions === 'http'
+    ? new HttpRepository<ProxyBid>(inject(HttpClient), `${environment.apiUrl}/proxy-bids`)
+    : new InMemoryRepository<ProxyBid>(SEED_PROXY_BIDS, 'Proxy bid')
+});
+
+/** Bid increments by price band — provide your own table to change them */
+export const BID_INCREMENTS = new InjectionToken<BidIncrementBand[]>('BID_INCREMENTS', {
+  providedIn: 'root',
+  factory: () => DEFAULT_BID_INCREMENTS
+});
+
+/** Anti-sniping rules for bids near the end */
+export const SOFT_CLOSE = new InjectionToken<SoftCloseRules>('SOFT_CLOSE', {
+  providedIn: 'root',
+  factory: () => DEFAULT_SOFT_CLOSE
+});
+
+/** Share of the buy-now price bidding may reach before Buy It Now is withdrawn */
+export const BUY_NOW_CUTOFF = new InjectionToken<number>('BUY_NOW_CUTOFF', {
+  providedIn: 'root',
+  factory: () => DEFAULT_BUY_NOW_CUTOFF
+});
+
+/** What placeBid() did with a bidder's maximum */
+export interface BidResult {
+  auction: Auction;
+  bids: Bid[];                  // Recorded by this call, oldest first
+  winning: boolean;             // The bidder leads after the proxies settled
+  maxAmount: number;
+  extendedTo?: string;          // New endsAt if the bid extended the auction
+}
+
+/** Newest auctions first */
+function byNewest(a: Auction, b: Auction): number {
+  return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+}
+
 @Injectable({ providedIn: 'root' })
 export class AuctionService {
 
-  private auctions: Auction[] = SEED_AUCTIONS.map(a => ({ ...a }));
-  private bids: Bid[] = SEED_BIDS.map(b => ({ ...b }));
-  private nextAuctionId = 7;
-  private nextBidId = 18;
+  // Last snapshot read from the repositories. Backs the
+  // synchronous helpers (categories, bid lookups, counts).
+  private auctions: Auction[] = [];
+  private bids: Bid[] = [];
+  private proxyBids: ProxyBid[] = [];
+
+  // Other clients' changes, once applied here
+  private remoteEvents = new Subject<AuctionEvent>();
+
+  constructor(
+    @Inject(AUCTION_REPOSITORY) private auctionRepository: Repository<Auction>,
+    @Inject(BID_REPOSITORY) private bidRepository: Repository<Bid>,
+    @Inject(PROXY_BID_REPOSITORY) private proxyBidRepository: Repository<ProxyBid>,
+    @Inject(BID_INCREMENTS) private increments: BidIncrementBand[],
+    @Inject(SOFT_CLOSE) private softClose: SoftCloseRules,
+    @Inject(BUY_NOW_CUTOFF) private buyNowCutoff: number,
+    @Inject(AUCTION_FEED) private feed: AuctionFeed
+  ) {
+    this.load().subscribe({ error: () => {} });
+    this.feed.events().pipe(
+      concatMap(event => this.applyRemoteEvent(event).pipe(catchError(() => EMPTY)))
+    ).subscribe(event => this.remoteEvents.next(event));
+  }
+
+  /** Refresh the snapshots, then settle any expired auctions */
+  private load(): Observable<Auction[]> {
+    return forkJoin([
+      this.auctionRepository.findAll(),
+      this.bidRepository.findAll(),
+      this.proxyBidRepository.findAll()
+    ]).pipe(
+      tap(([auctions, bids, proxyBids]) => {
+        this.auctions = auctions;
+        this.bids = bids;
+        this.proxyBids = proxyBids;
+      }),
+      switchMap(() => this.checkAndEndAuctions())
+    );
+  }
+
+  // ── Live updates ──────────────────────────────────────────
+
+  /** Changes other clients made — to one auction, or to all of them */
+  auctionEvents(auctionId?: number): Observable<AuctionEvent> {
+    return this.remoteEvents.pipe(filter(event => auctionId == null || event.auctionId === auctionId));
+  }
+
+  private publish(type: AuctionEventType, auction: Auction, bids?: Bid[], proxies?: ProxyBid[]): void {
+    this.feed.publish({ type, auctionId: auction.id, auction, bids, proxies });
+  }
+
+  /**
+   * Bring this client up to date with another's change. The
+   * re-emitted event carries the auction as read back from the
+   * repository, not as the sender described it.
+   */
+  private applyRemoteEvent(event: AuctionEvent): Observable<AuctionEvent> {
+    const applied$: Observable<unknown> = this.feed.replicates
+      ? from(event.proxies ?? []).pipe(
+          concatMap(proxy => this.replicateProxyBid(proxy)),
+          toArray(),
+          switchMap(() => from(event.bids ?? [])),
+          concatMap(({ id: _, ...bid }) => this.bidRepository.create(bid)),
+          toArray(),
+          switchMap(() => event.type === 'created'
+            ? this.auctionRepository.create(event.auction)
+            : this.auctionRepository.update(event.auction))
+        )
+      : of(null);
+    return applied$.pipe(
+      switchMap(() => this.load()),
+      switchMap(auctions => {
+        const auction = auctions.find(a => a.id === event.auctionId);
+        // A new maximum changes nothing anyone can see
+        return auction && event.type !== 'maximum' ? of({ ...event, auction }) : EMPTY;
+      })
+    );
+  }
+
+  /** Store another replica's maximum as this bidder's own */
+  private replicateProxyBid({ id: _, ...proxy }: ProxyBid): Observable<ProxyBid> {
+    const existing = this.findProxyBid(proxy.auctionId, proxy.bidderId);
+    return (existing
+      ? this.proxyBidRepository.update({ ...existing, ...proxy })
+      : this.proxyBidRepository.create(proxy)
+    ).pipe(tap(saved => {
+      this.proxyBids = [...this.proxyBids.filter(p => p.id !== saved.id), saved];
+    }));
+  }
+
+  private replaceCached(auction: Auction): void {
+    const index = this.auctions.findIndex(a => a.id === auction.id);
+    if (index !== -1) this.auctions[index] = auction;
+  }
 
   // ── Auto-expiration ───────────────────────────────────────
   // Transitions active auctions past their end time to
-  // 'ended' (no bids) or 'sold' (has bids, sets winner).
+  // 'ended' (no bids, or reserve not met) or 'sold' (sets winner).
 
-  private checkAndEndAuctions(): void {
+  private checkAndEndAuctions(): Observable<Auction[]> {
     const now = new Date();
-    this.auctions.forEach(auction => {
-      if (auction.status === 'active' && new Date(auction.endsAt) <= now) {
-        if (auction.bidCount > 0) {
-          // Find the highest bid for this auction
-          const auctionBids = this.bids
-            .filter(b => b.auctionId === auction.id)
-            .sort((a, b) => b.amount - a.amount);
-          const topBid = auctionBids[0];
-          auction.status = 'sold';
-          auction.winnerId = topBid.bidderId;
-          auction.winnerName = topBid.bidderName;
-        } else {
-          auction.status = 'ended';
+    const expired = this.auctions
+      .filter(auction => auction.status === 'active' && new Date(auction.endsAt) <= now)
+      .map(auction => {
+        if (auction.bidCount > 0 && reserveMet(auction)) {
+          const winningBid = topBid(this.bids.filter(b => b.auctionId === auction.id));
+          return {
+            ...auction,
+            status: 'sold' as const,
+            winnerId: winningBid?.bidderId,
+            winnerName: winningBid?.bidderName
+          };
         }
-      }
-    });
+        return { ...auction, status: 'ended' as const };
+      });
+
+    if (expired.length === 0) return of(this.auctions);
+
+    return forkJoin(expired.map(a => this.auctionRepository.update(a))).pipe(
+      tap(updated => updated.forEach(a => {
+        this.replaceCached(a);
+        this.publish('ended', a);
+      })),
+      map(() => this.auctions)
+    );
   }
 
   // ── Read ──────────────────────────────────────────────────
 
   /** Get all active auctions (storefront browsing) */
   getActiveAuctions(): Observable<Auction[]> {
-    this.checkAndEndAuctions();
-    const active = this.auctions
+    return this.load().pipe(map(auctions => auctions
       .filter(a => a.status === 'active')
-      .sort((a, b) => new Date(a.endsAt).getTime() - new Date(b.endsAt).getTime());
-    return of(active.map(a => ({ ...a })));
+      .sort((a, b) => new Date(a.endsAt).getTime() - new Date(b.endsAt).getTime())
+    ));
   }
 
   /** Get all auctions regardless of status (admin) */
   getAllAuctions(): Observable<Auction[]> {
-    this.checkAndEndAuctions();
-    const sorted = [...this.auctions]
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-    return of(sorted.map(a => ({ ...a })));
+    return this.load().pipe(map(auctions => [...auctions].sort(byNewest)));
   }
 
   /** Get a single auction by ID */
   getAuctionById(id: number): Observable<Auction> {
-    this.checkAndEndAuctions();
-    const auction = this.auctions.find(a => a.id === id);
-    if (!auction) return throwError(() => ({ status: 404, error: 'Auction not found' }));
-    return of({ ...auction });
+    return this.load().pipe(
+      switchMap(() => this.auctionRepository.findById(id))
+    );
   }
 
   /** Get auctions created by a specific user */
   getAuctionsBySeller(sellerId: number): Observable<Auction[]> {
-    this.checkAndEndAuctions();
-    const results = this.auctions
+    return this.load().pipe(map(auctions => auctions
       .filter(a => a.sellerId === sellerId)
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-    return of(results.map(a => ({ ...a })));
+      .sort(byNewest)
+    ));
   }
 
   /** Get auctions a user has bid on */
   getAuctionsByBidder(bidderId: number): Observable<Auction[]> {
-    this.checkAndEndAuctions();
-    const bidAuctionIds = [...new Set(
-      this.bids.filter(b => b.bidderId === bidderId).map(b => b.auctionId)
-    )];
-    const results = this.auctions
-      .filter(a => bidAuctionIds.includes(a.id))
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-    return of(results.map(a => ({ ...a })));
+    return this.load().pipe(map(auctions => {
+      const bidAuctionIds = new Set(
+        this.bids.filter(b => b.bidderId === bidderId).map(b => b.auctionId)
+      );
+      return auctions.filter(a => bidAuctionIds.has(a.id)).sort(byNewest);
+    }));
   }
 
   /** Get bids for an auction (sorted newest first) */
   getBidsByAuction(auctionId: number): Observable<Bid[]> {
-    const auctionBids = this.bids
-      .filter(b => b.auctionId === auctionId)
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-    return of(auctionBids.map(b => ({ ...b })));
+    return this.bidRepository.findAll().pipe(
+      tap(bids => this.bids = bids),
+      map(bids => bids
+        .filter(b => b.auctionId === auctionId)
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      )
+    );
   }
 
   /** Search auctions by title or description */
   searchAuctions(term: string): Observable<Auction[]> {
-    this.checkAndEndAuctions();
     const lower = term.toLowerCase();
-    const results = this.auctions.filter(a =>
+    return this.load().pipe(map(auctions => auctions.filter(a =>
       a.title.toLowerCase().includes(lower) ||
       a.description.toLowerCase().includes(lower) ||
       a.sellerName.toLowerCase().includes(lower) ||
       a.category.toLowerCase().includes(lower)
-    );
-    return of(results.map(a => ({ ...a })));
+    )));
+  }
+
+  /** The step a bid must clear over `price` */
+  getBidIncrement(price: number): number {
+    return bidIncrement(price, this.increments);
+  }
+
+  /** Lowest maximum a new bidder may enter on an auction */
+  getMinimumBid(auction: Auction): number {
+    return minimumBid(auction, this.increments);
+  }
+
+  /** The anti-sniping rules in force */
+  getSoftCloseRules(): SoftCloseRules {
+    return this.softClose;
+  }
+
+  /** True while the auction can still be bought outright */
+  canBuyNow(auction: Auction): boolean {
+    return buyNowAvailable(auction, this.buyNowCutoff) && new Date(auction.endsAt) > new Date();
   }
 
   /** Get unique categories from auctions */
@@ -284,14 +530,20 @@ export class AuctionService {
     return Math.max(...userBids.map(b => b.amount));
   }
 
+  /** Get the secret maximum a user set on an auction, if any */
+  getUserMaxBid(auctionId: number, userId: number): number | undefined {
+    return this.findProxyBid(auctionId, userId)?.maxAmount;
+  }
+
   /** Check if a user is currently the highest bidder on an auction */
   isHighestBidder(auctionId: number, userId: number): boolean {
     const auction = this.auctions.find(a => a.id === auctionId);
     if (!auction || auction.bidCount === 0) return false;
-    const topBid = this.bids
-      .filter(b => b.auctionId === auctionId)
-      .sort((a, b) => b.amount - a.amount)[0];
-    return topBid ? topBid.bidderId === userId : false;
+    return topBid(this.bids.filter(b => b.auctionId === auctionId))?.bidderId === userId;
+  }
+
+  private findProxyBid(auctionId: number, bidderId: number): ProxyBid | undefined {
+    return this.proxyBids.find(p => p.auctionId === auctionId && p.bidderId === bidderId);
   }
 
   // ── Create ────────────────────────────────────────────────
@@ -305,10 +557,11 @@ export class AuctionService {
     imageUrl: string;
     category: string;
     startingPrice: number;
+    reservePrice?: number;
+    buyNowPrice?: number;
     endsAt: string;
   }): Observable<Auction> {
-    const auction: Auction = {
-      id: this.nextAuctionId++,
+    return this.auctionRepository.create({
       sellerId: data.sellerId,
       sellerName: data.sellerName,
       title: data.title,
@@ -317,81 +570,219 @@ export class AuctionService {
       category: data.category,
       startingPrice: round2(data.startingPrice),
       currentPrice: round2(data.startingPrice),
+      reservePrice: data.reservePrice ? round2(data.reservePrice) : undefined,
+      buyNowPrice: data.buyNowPrice ? round2(data.buyNowPrice) : undefined,
       bidCount: 0,
       status: 'active',
       createdAt: new Date().toISOString(),
       endsAt: data.endsAt
-    };
-    this.auctions.push(auction);
-    return of({ ...auction });
+    }).pipe(
+      tap(created => {
+        this.auctions.push(created);
+        this.publish('created', created);
+      })
+    );
   }
 
-  /** Place a bid on an auction */
-  placeBid(auctionId: number, bidderId: number, bidderName: string, amount: number): Observable<Bid> {
-    this.checkAndEndAuctions();
+  /**
+   * Bid up to `maxAmount` on an auction. The proxy bids only
+   * as much as it takes to lead; the maximum stays secret.
+   */
+  placeBid(auctionId: number, bidderId: number, bidderName: string, maxAmount: number): Observable<BidResult> {
+    return this.load().pipe(switchMap(() => {
+      const auction = this.auctions.find(a => a.id === auctionId);
+      if (!auction) {
+        return throwError(() => ({ error: 'Auction not found' }));
+      }
+      if (auction.status !== 'active') {
+        return throwError(() => ({ error: 'This auction is no longer active' }));
+      }
+      if (new Date(auction.endsAt) <= new Date()) {
+        return throwError(() => ({ error: 'This auction has ended' }));
+      }
+      if (auction.sellerId === bidderId) {
+        return throwError(() => ({ error: 'You cannot bid on your own auction' }));
+      }
+
+      const max = round2(maxAmount);
+      const leader = this.leaderProxy(auction);
 
-    const auction = this.auctions.find(a => a.id === auctionId);
-    if (!auction) {
-      return throwError(() => ({ error: 'Auction not found' }));
-    }
-    if (auction.status !== 'active') {
-      return throwError(() => ({ error: 'This auction is no longer active' }));
-    }
-    if (new Date(auction.endsAt) <= new Date()) {
-      return throwError(() => ({ error: 'This auction has ended' }));
-    }
-    if (auction.sellerId === bidderId) {
-      return throwError(() => ({ error: 'You cannot bid on your own auction' }));
-    }
-    const minBid = round2(auction.currentPrice + 1);
-    if (amount < minBid) {
-      return throwError(() => ({ error: `Bid must be at least $${minBid.toFixed(2)}` }));
-    }
-
-    // Create the bid
-    const bid: Bid = {
-      id: this.nextBidId++,
-      auctionId,
-      bidderId,
-      bidderName,
-      amount: round2(amount),
-      createdAt: new Date().toISOString()
+      // The leader bidding again raises their maximum, and only
+      // bids if the new maximum reaches an unmet reserve
+      if (leader?.bidderId === bidderId) {
+        if (max <= leader.maxAmount) {
+          return throwError(() => ({ error: `Your maximum bid is already $${leader.maxAmount.toFixed(2)}` }));
+        }
+        return this.saveProxyBid(auctionId, bidderId, bidderName, max).pipe(
+          switchMap(proxy => {
+            const outcome = resolveRaisedMaximum(auction, proxy);
+            if (outcome) return this.applyResolution(auction, outcome, proxy);
+            this.publish('maximum', auction, [], [proxy]);
+            return of({ auction, bids: [], winning: true, maxAmount: proxy.maxAmount });
+          })
+        );
+      }
+
+      const minBid = this.getMinimumBid(auction);
+      if (max < minBid) {
+        return throwError(() => ({ error: `Bid must be at least $${minBid.toFixed(2)}` }));
+      }
+
+      return this.saveProxyBid(auctionId, bidderId, bidderName, max).pipe(
+        switchMap(challenger => this.applyResolution(
+          auction, resolveProxyBids(auction, leader, challenger, this.increments), challenger
+        ))
+      );
+    }));
+  }
+
+  /**
+   * Record a resolution's bids and move the auction to its
+   * price, extending it if the bids came in the closing window.
+   */
+  private applyResolution(auction: Auction, outcome: ProxyResolution, bidder: ProxyBid): Observable<BidResult> {
+    const extendedTo = softCloseExtension(auction, new Date(), this.softClose) ?? undefined;
+    return this.recordBids(auction.id, outcome.bids, extendedTo).pipe(
+      switchMap(bids => this.auctionRepository.update({
+        ...auction,
+        currentPrice: outcome.price,
+        bidCount: auction.bidCount + bids.length,
+        ...(extendedTo ? { endsAt: extendedTo, extensionCount: (auction.extensionCount ?? 0) + 1 } : {})
+      }).pipe(
+        tap(updated => {
+          this.replaceCached(updated);
+          this.publish('bid', updated, bids, [bidder]);
+          if (extendedTo) this.publish('extended', updated);
+        }),
+        map(updated => ({
+          auction: updated,
+          bids,
+          winning: outcome.winner === bidder,
+          maxAmount: bidder.maxAmount,
+          extendedTo
+        }))
+      ))
+    );
+  }
+
+  /** Buy the auction outright at its buy-now price, ending it */
+  buyNow(auctionId: number, buyerId: number, buyerName: string): Observable<Auction> {
+    return this.load().pipe(switchMap(() => {
+      const auction = this.auctions.find(a => a.id === auctionId);
+      if (!auction) {
+        return throwError(() => ({ error: 'Auction not found' }));
+      }
+      if (auction.sellerId === buyerId) {
+        return throwError(() => ({ error: 'You cannot buy your own auction' }));
+      }
+      if (!this.canBuyNow(auction)) {
+        return throwError(() => ({ error: 'Buy It Now is no longer available' }));
+      }
+
+      const now = new Date().toISOString();
+      return this.bidRepository.create({
+        auctionId,
+        bidderId: buyerId,
+        bidderName: buyerName,
+        amount: auction.buyNowPrice!,
+        buyNow: true,
+        createdAt: now
+      }).pipe(
+        tap(bid => this.bids.push(bid)),
+        switchMap(bid => this.auctionRepository.update({
+          ...auction,
+          currentPrice: bid.amount,
+          bidCount: auction.bidCount + 1,
+          status: 'sold',
+          endsAt: now,
+          winnerId: buyerId,
+          winnerName: buyerName
+        }).pipe(
+          tap(updated => {
+            this.replaceCached(updated);
+            this.publish('ended', updated, [bid]);
+          })
+        ))
+      );
+    }));
+  }
+
+  /**
+   * The leading bidder's maximum. A leader from before proxy
+   * bidding has none, so their maximum is the current price.
+   */
+  private leaderProxy(auction: Auction): ProxyBid | undefined {
+    const leadingBid = topBid(this.bids.filter(b => b.auctionId === auction.id));
+    if (!leadingBid) return undefined;
+    return this.findProxyBid(auction.id, leadingBid.bidderId) ?? {
+      id: 0,
+      auctionId: auction.id,
+      bidderId: leadingBid.bidderId,
+      bidderName: leadingBid.bidderName,
+      maxAmount: auction.currentPrice,
+      createdAt: leadingBid.createdAt
     };
-    this.bids.push(bid);
+  }
 
-    // Update auction
-    auction.currentPrice = bid.amount;
-    auction.bidCount++;
+  /** Set a bidder's maximum, replacing any earlier one */
+  private saveProxyBid(auctionId: number, bidderId: number, bidderName: string, maxAmount: number): Observable<ProxyBid> {
+    const existing = this.findProxyBid(auctionId, bidderId);
+    const createdAt = new Date().toISOString();
+    const saved$ = existing
+      ? this.proxyBidRepository.update({ ...existing, maxAmount, createdAt })
+      : this.proxyBidRepository.create({ auctionId, bidderId, bidderName, maxAmount, createdAt });
+    return saved$.pipe(tap(saved => {
+      this.proxyBids = [...this.proxyBids.filter(p => p.id !== saved.id), saved];
+    }));
+  }
 
-    return of({ ...bid });
+  /**
+   * Record resolved bids one at a time so their IDs keep their
+   * order. The last one notes any soft-close extension.
+   */
+  private recordBids(auctionId: number, resolved: ResolvedBid[], extendedTo?: string): Observable<Bid[]> {
+    const createdAt = new Date().toISOString();
+    return from(resolved).pipe(
+      concatMap((bid, i) => this.bidRepository.create({
+        ...bid,
+        auctionId,
+        createdAt,
+        ...(extendedTo && i === resolved.length - 1 ? { extendedTo } : {})
+      })),
+      tap(bid => this.bids.push(bid)),
+      toArray()
+    );
   }
 
   // ── Update ────────────────────────────────────────────────
 
   /** Cancel an auction (only if seller owns it and status is active) */
   cancelAuction(auctionId: number, sellerId: number): Observable<Auction> {
-    const auction = this.auctions.find(a => a.id === auctionId);
-    if (!auction) {
-      return throwError(() => ({ error: 'Auction not found' }));
-    }
-    if (auction.sellerId !== sellerId) {
-      return throwError(() => ({ error: 'You can only cancel your own auctions' }));
-    }
-    if (auction.status !== 'active') {
-      return throwError(() => ({ error: 'Only active auctions can be cancelled' }));
-    }
-    auction.status = 'cancelled';
-    return of({ ...auction });
+    return this.auctionRepository.findById(auctionId).pipe(
+      switchMap(auction => {
+        if (auction.sellerId !== sellerId) {
+          return throwError(() => ({ error: 'You can only cancel your own auctions' }));
+        }
+        if (auction.status !== 'active') {
+          return throwError(() => ({ error: 'Only active auctions can be cancelled' }));
+        }
+        return this.auctionRepository.update({ ...auction, status: 'cancelled' });
+      }),
+      tap(updated => {
+        this.replaceCached(updated);
+        this.publish('cancelled', updated);
+      })
+    );
   }
 
   /** Admin: update auction status */
   updateAuctionStatus(id: number, status: Auction['status']): Observable<Auction> {
-    const auction = this.auctions.find(a => a.id === id);
-    if (!auction) {
-      return throwError(() => ({ error: 'Auction not found' }));
-    }
-    auction.status = status;
-    return of({ ...auction });
+    return this.auctionRepository.patch(id, { status }).pipe(
+      tap(updated => {
+        this.replaceCached(updated);
+        if (status !== 'active') this.publish(status === 'cancelled' ? 'cancelled' : 'ended', updated);
+      })
+    );
   }
 
   // ── Aggregations (for admin dashboard) ────────────────────
@@ -401,8 +792,8 @@ export class AuctionService {
   }
 
   getActiveAuctionCount(): number {
-    this.checkAndEndAuctions();
-    return this.auctions.filter(a => a.status === 'active').length;
+    const now = new Date();
+    return this.auctions.filter(a => a.status === 'active' && new Date(a.endsAt) > now).length;
   }
 
   getTotalBidCount(): number {
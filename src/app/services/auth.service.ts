@@ -1,10 +1,53 @@
-import { Injectable, signal, computed } from '@angular/core';
+import { Inject, Injectable, signal, computed } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
 import { Router } from '@angular/router';
-import { firstValueFrom } from 'rxjs';
+import {
+  Observable,
+  finalize,
+  firstValueFrom,
+  fromEvent,
+  map,
+  merge,
+  shareReplay,
+  throttleTime,
+  throwError
+} from 'rxjs';
 import { User, AuthResponse } from '../product.model';
 import { environment } from '../environments/environment';
-import { LOCAL_ACCOUNTS } from '../credentials.local';
+import { NotificationService } from './notification.service';
+import {
+  DEV_IDENTITY_PROVIDER,
+  DevIdentityProvider,
+  DevPersona,
+  DevPersonaKey,
+  isDevToken
+} from './dev-identity.provider';
+
+const TOKEN_KEY = 'token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+
+// Idle sessions are signed out after IDLE_TIMEOUT_MS without
+// user activity; a warning toast shows IDLE_WARNING_MS earlier.
+const IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const IDLE_WARNING_MS = 2 * 60 * 1000;
+
+/** Expiry time (ms since epoch) from a JWT's exp claim, or null */
+export function tokenExpiresAt(token: string): number | null {
+  try {
+    const payload = token.split('.')[1];
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    const exp = JSON.parse(json).exp;
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/** True if the JWT expires within `skewMs` (dev tokens never expire) */
+export function isTokenExpired(token: string, skewMs = 10_000): boolean {
+  const expiresAt = tokenExpiresAt(token);
+  return expiresAt !== null && expiresAt - skewMs <= Date.now();
+}
 
 @Injectable({
   providedIn: 'root'
@@ -20,31 +63,39 @@ export class AuthService {
     return user !== null && user.role === 'admin';
   });
 
+  // Demo personas offered by the dev identity provider
+  // (empty when dev auth is disabled, e.g. production builds)
+  readonly devPersonas: DevPersona[];
+  private activePersonaSignal = signal<DevPersona | null>(null);
+  readonly activePersona = this.activePersonaSignal.asReadonly();
+
+  // In-flight refresh, shared by every request that hits an
+  // expired token so only one POST /auth/refresh goes out
+  private refreshInFlight: Observable<string> | null = null;
+
+  private idleWarningTimer?: ReturnType<typeof setTimeout>;
+  private idleLogoutTimer?: ReturnType<typeof setTimeout>;
+
   constructor(
     private http: HttpClient,
-    private router: Router
+    private router: Router,
+    private notify: NotificationService,
+    @Inject(DEV_IDENTITY_PROVIDER) private devIdentity: DevIdentityProvider | null
   ) {
+    this.devPersonas = devIdentity?.personas ?? [];
     this.loadUserFromToken();
+
+    // Any interaction counts as activity and restarts the idle clock
+    merge(
+      fromEvent(document, 'click'),
+      fromEvent(document, 'keydown'),
+      fromEvent(document, 'mousemove')
+    ).pipe(throttleTime(5000)).subscribe(() => this.resetIdleTimers());
   }
 
   // ── Login ───────────────────────────────────────────────────
-  // Checks local credentials (from credentials.local.ts) first.
-  // If no match, falls through to the real backend API.
+  // Email/password logins always go to the real backend API.
   async login(email: string, password: string): Promise<User> {
-    // Check local accounts first (git-ignored file)
-    const fakeMatch = LOCAL_ACCOUNTS.find(
-      a => a.email === email && a.password === password
-    );
-
-    if (fakeMatch) {
-      // Store a dev token that encodes which fake account it is.
-      // Format: "dev-fake-<email>" so loadUserFromToken can restore it.
-      localStorage.setItem('token', `dev-fake-${fakeMatch.email}`);
-      this.currentUserSignal.set(fakeMatch.user);
-      return fakeMatch.user;
-    }
-
-    // No fake match — hit the real backend
     const response = await firstValueFrom(
       this.http.post<AuthResponse>(`${this.apiUrl}/auth/login`, {
         email,
@@ -52,25 +103,33 @@ export class AuthService {
       })
     );
 
-    localStorage.setItem('token', response.token);
-    this.currentUserSignal.set(response.user);
+    this.startSession(response.token, response.user, response.refreshToken);
     return response.user;
   }
 
+  // ── Dev Sign-in ─────────────────────────────────────────────
+  // Password-less sign-in as a demo persona. Also used by the
+  // navbar role switcher to hop between personas.
+  signInAsPersona(key: DevPersonaKey): User {
+    if (!this.devIdentity) {
+      throw { error: { error: 'Demo sign-in is disabled in this build.' } };
+    }
+    const { token, user } = this.devIdentity.signInAs(key);
+    this.startSession(token, user);
+    return user;
+  }
+
   // ── Register ────────────────────────────────────────────────
-  // Checks if the email already exists in local accounts.
-  // If no backend is running, creates a local-only session.
+  // Tries the real backend first. If it is unreachable and dev
+  // auth is enabled, creates a local-only session instead.
   async register(data: {
     email: string;
     password: string;
     firstName: string;
     lastName: string;
   }): Promise<User> {
-    // Check if email is already taken by a local account
-    const existing = LOCAL_ACCOUNTS.find(
-      a => a.email.toLowerCase() === data.email.toLowerCase()
-    );
-    if (existing) {
+    // Check if email is already taken by a demo or offline account
+    if (this.devIdentity?.isTaken(data.email)) {
       throw { error: { error: 'An account with this email already exists.' } };
     }
 
@@ -79,12 +138,12 @@ export class AuthService {
       const response = await firstValueFrom(
         this.http.post<AuthResponse>(`${this.apiUrl}/auth/register`, data)
       );
-      localStorage.setItem('token', response.token);
-      this.currentUserSignal.set(response.user);
+      this.startSession(response.token, response.user, response.refreshToken);
       return response.user;
     } catch (backendError: any) {
       // If backend is unreachable, create a local-only session
-      if (backendError?.status === 0 || backendError?.status >= 500) {
+      const unreachable = backendError?.status === 0 || backendError?.status >= 500;
+      if (this.devIdentity && unreachable) {
         const localUser: User = {
           id: Date.now(),
           email: data.email,
@@ -92,8 +151,8 @@ export class AuthService {
           lastName: data.lastName,
           role: 'user'
         };
-        localStorage.setItem('token', `dev-fake-${localUser.email}`);
-        this.currentUserSignal.set(localUser);
+        const session = this.devIdentity.signInLocal(localUser);
+        this.startSession(session.token, session.user);
         return localUser;
       }
       // Backend returned a real error (e.g. 400 duplicate email)
@@ -103,46 +162,126 @@ export class AuthService {
 
   // ── Logout ──────────────────────────────────────────────────
   logout(): void {
-    localStorage.removeItem('token');
-    this.currentUserSignal.set(null);
+    this.clearSession();
     this.router.navigate(['/']);
   }
 
+  // ── Session Expired ─────────────────────────────────────────
+  // Called when the session can't be recovered (refresh failed,
+  // or idle timeout). Signs out and sends the user to /login
+  // with a returnUrl so they land back where they were.
+  expireSession(message = 'Your session has expired. Please sign in again.'): void {
+    if (!this.getToken()) return;   // already handled by a concurrent request
+
+    const returnUrl = this.router.url;
+    this.clearSession();
+    this.notify.warning(message);
+    this.router.navigate(['/login'], {
+      queryParams: returnUrl.startsWith('/login') ? {} : { returnUrl }
+    });
+  }
+
   // ── Get Token ───────────────────────────────────────────────
   getToken(): string | null {
-    return localStorage.getItem('token');
+    return localStorage.getItem(TOKEN_KEY);
+  }
+
+  // ── Silent Refresh ──────────────────────────────────────────
+  // Trades the refresh token for a new access token. Concurrent
+  // callers share one request and all receive the new token.
+  // Errors are passed on; the caller decides whether to expire
+  // the session (see authInterceptor).
+  refreshAccessToken(): Observable<string> {
+    if (!this.refreshInFlight) {
+      const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+      if (!refreshToken) {
+        return throwError(() => ({ status: 401, error: { error: 'No refresh token.' } }));
+      }
+
+      this.refreshInFlight = this.http.post<AuthResponse>(`${this.apiUrl}/auth/refresh`, { refreshToken }).pipe(
+        map(response => {
+          this.startSession(response.token, response.user, response.refreshToken);
+          return response.token;
+        }),
+        finalize(() => this.refreshInFlight = null),
+        shareReplay(1)
+      );
+    }
+    return this.refreshInFlight;
+  }
+
+  private startSession(token: string, user: User, refreshToken?: string): void {
+    localStorage.setItem(TOKEN_KEY, token);
+    if (refreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    }
+    this.currentUserSignal.set(user);
+    this.activePersonaSignal.set(this.devIdentity?.personaFor(token) ?? null);
+    this.resetIdleTimers();
+  }
+
+  private clearSession(): void {
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    this.currentUserSignal.set(null);
+    this.activePersonaSignal.set(null);
+    this.resetIdleTimers();
+  }
+
+  // ── Idle Timeout ────────────────────────────────────────────
+  // Backend sessions only — dev persona sessions never expire.
+  private resetIdleTimers(): void {
+    clearTimeout(this.idleWarningTimer);
+    clearTimeout(this.idleLogoutTimer);
+
+    const token = this.getToken();
+    if (!token || isDevToken(token)) return;
+
+    this.idleWarningTimer = setTimeout(() => {
+      this.notify.show(
+        'Your session is about to expire due to inactivity. Click anywhere to stay signed in.',
+        'warning',
+        IDLE_WARNING_MS
+      );
+    }, IDLE_TIMEOUT_MS - IDLE_WARNING_MS);
+
+    this.idleLogoutTimer = setTimeout(() => {
+      this.expireSession('You were signed out after 30 minutes of inactivity.');
+    }, IDLE_TIMEOUT_MS);
   }
 
   // ── Load User from Token ────────────────────────────────────
-  // On app startup, restores the session. If the token is a
-  // dev-fake token, restores the fake user without an API call.
-  // Otherwise hits GET /auth/me to validate the real JWT.
+  // On app startup, restores the session. Dev tokens are restored
+  // by the dev identity provider without an API call (and dropped
+  // if dev auth is off). An expired JWT is refreshed first, then
+  // GET /auth/me validates it.
   private async loadUserFromToken(): Promise<void> {
     const token = this.getToken();
     if (!token) return;
 
-    // Check if it's a dev-fake token
-    if (token.startsWith('dev-fake-')) {
-      const email = token.replace('dev-fake-', '');
-      const fakeMatch = LOCAL_ACCOUNTS.find(a => a.email === email);
-      if (fakeMatch) {
-        this.currentUserSignal.set(fakeMatch.user);
+    if (isDevToken(token)) {
+      const user = this.devIdentity?.restore(token);
+      if (user) {
+        this.startSession(token, user);
         return;
       }
-      // Invalid fake token — clean up
-      localStorage.removeItem('token');
+      // Unknown dev token, or dev auth disabled — clean up
+      this.clearSession();
       return;
     }
 
-    // Real token — validate with backend
+    // Real token — refresh if needed, then validate with backend
     try {
+      if (isTokenExpired(token)) {
+        await firstValueFrom(this.refreshAccessToken());
+      }
       const user = await firstValueFrom(
         this.http.get<User>(`${this.apiUrl}/auth/me`)
       );
       this.currentUserSignal.set(user);
+      this.resetIdleTimers();
     } catch {
-      localStorage.removeItem('token');
-      this.currentUserSignal.set(null);
+      this.clearSession();
     }
   }
 }
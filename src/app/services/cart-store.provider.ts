@@ -0,0 +1,103 @@
+// ============================================================
+// CART STORE — Where a logged-in user's cart is kept
+// ============================================================
+// ANGULAR CONCEPTS:
+//
+// 1. Abstract class as a DI contract
+//    CartService saves account carts through CartStore, never
+//    through a concrete store. CART_STORE picks one to match
+//    environment.dataSources.carts.
+//
+// 2. Two stores
+//    - LocalCartStore — localStorage, so the cart follows the
+//      account on this device only (no backend needed)
+//    - HttpCartStore  — GET/PUT /api/cart, so the cart follows
+//      the account to every device it logs in on
+//    Guest carts always stay in localStorage (see CartService).
+// ============================================================
+
+import { InjectionToken, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, catchError, map, of } from 'rxjs';
+import { environment } from '../environments/environment';
+import { toRepositoryError } from '../repositories/http.repository';
+
+/** A saved cart line: IDs, quantity and a price snapshot */
+export interface StoredCartLine {
+  productId: number;
+  variantId?: number;
+  quantity: number;
+  price: number;          // Price when the line was saved
+}
+
+export abstract class CartStore {
+
+  /** The user's saved cart (empty if there is none) */
+  abstract load(userId: number): Observable<StoredCartLine[]>;
+
+  /** Replace the user's saved cart */
+  abstract save(userId: number, lines: StoredCartLine[]): Observable<void>;
+}
+
+/** localStorage key of a user's cart */
+export function userCartKey(userId: number): string {
+  return `cart_${userId}`;
+}
+
+/** Parse stored lines, treating anything unreadable as an empty cart */
+export function parseCartLines(stored: string | null): StoredCartLine[] {
+  if (!stored) return [];
+  try {
+    const lines = JSON.parse(stored);
+    return Array.isArray(lines) ? lines : [];
+  } catch {
+    return [];
+  }
+}
+
+// ── localStorage ────────────────────────────────────────────
+
+/** Keeps account carts on this device */
+export class LocalCartStore extends CartStore {
+
+  load(userId: number): Observable<StoredCartLine[]> {
+    return of(parseCartLines(localStorage.getItem(userCartKey(userId))));
+  }
+
+  save(userId: number, lines: StoredCartLine[]): Observable<void> {
+    localStorage.setItem(userCartKey(userId), JSON.stringify(lines));
+    return of(undefined);
+  }
+}
+
+// ── HTTP ────────────────────────────────────────────────────
+
+/** Keeps account carts on the server — the logged-in user's only */
+export class HttpCartStore extends CartStore {
+
+  constructor(private http: HttpClient, private url: string) {
+    super();
+  }
+
+  load(_userId: number): Observable<StoredCartLine[]> {
+    return this.http.get<{ lines: StoredCartLine[] }>(this.url).pipe(
+      map(cart => cart.lines ?? []),
+      catchError(toRepositoryError)
+    );
+  }
+
+  save(_userId: number, lines: StoredCartLine[]): Observable<void> {
+    return this.http.put(this.url, { lines }).pipe(
+      map(() => undefined),
+      catchError(toRepositoryError)
+    );
+  }
+}
+
+/** The store behind account carts — follows environment.dataSources.carts */
+export const CART_STORE = new InjectionToken<CartStore>('CART_STORE', {
+  providedIn: 'root',
+  factory: () => environment.dataSources.carts === 'http'
+    ? new HttpCartStore(inject(HttpClient), `${environment.apiUrl}/cart`)
+    : new LocalCartStore()
+});
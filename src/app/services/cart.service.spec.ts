@@ -1,16 +1,51 @@
 import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
 
 import { CartService } from './cart.service';
+import { ProductService } from './product.service';
 
 describe('CartService', () => {
   let service: CartService;
+  let productService: ProductService;
 
   beforeEach(() => {
-    TestBed.configureTestingModule({});
+    localStorage.removeItem('cart_guest');
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient()]
+    });
     service = TestBed.inject(CartService);
+    productService = TestBed.inject(ProductService);
   });
 
   it('should be created', () => {
     expect(service).toBeTruthy();
   });
+
+  it('should cap quantities at available stock', () => {
+    productService.getProductById(6).subscribe(product => {
+      const added = service.addToCart(product, 500);
+      expect(added).toBe(product.stock);
+      expect(service.itemCount()).toBe(product.stock);
+      expect(service.addToCart(product)).toBe(0);
+    });
+  });
+
+  it('should save the guest cart to localStorage', () => {
+    productService.getProductById(1).subscribe(product => {
+      service.addToCart(product, 2);
+      const stored = JSON.parse(localStorage.getItem('cart_guest') || '[]');
+      expect(stored).toEqual([{ productId: 1, quantity: 2, price: product.price }]);
+    });
+  });
+
+  it('should keep each variant on its own line at its own price', () => {
+    productService.getProductById(4).subscribe(product => {
+      const [, , medium, , , , extraLarge] = product.variants!;
+      service.addToCart(product, 1, medium);
+      service.addToCart(product, 1, extraLarge);
+      service.addToCart(product, 5, extraLarge);
+      expect(service.items().map(i => [i.variant?.sku, i.quantity])).toEqual([['DENIM-M-BLUE', 1], ['DENIM-XL-BLUE', 1]]);
+      expect(service.totalPrice()).toBeCloseTo(89.99 + 94.99, 2);
+    });
+  });
 });
@@ -18,10 +18,47 @@
 //    - Automatic dependency tracking
 //    - Better performance with fine-grained change detection
 //    - Read them in templates with just `mySignal()` — no async pipe!
+//
+// 5. Stock-aware quantities
+//    Quantities are capped at the stock ProductService reports,
+//    so the cart can never hold more units than are available.
+//
+// 6. Persistence
+//    A guest cart is saved to localStorage. A logged-in user's
+//    cart goes to CART_STORE, which keeps it with the account
+//    (on the server with 'http', so it follows them across
+//    devices). On login the guest cart is merged into the
+//    account cart. Only product IDs, quantities and a price
+//    snapshot are stored; products are re-read from
+//    ProductService on load so prices stay current.
+//
+// 7. Variants
+//    A cart line is a product plus, for products sold in sizes
+//    or colors, the chosen variant. Two sizes of the same
+//    sneaker are two lines; price and stock come from the
+//    variant (see product-variants.ts).
 // ============================================================
 
-import { Injectable, signal, computed } from '@angular/core';
-import { Product, CartItem } from '../product.model';
+import { Inject, Injectable, signal, computed, effect } from '@angular/core';
+import { Observable, Subject, catchError, concatMap, forkJoin, map, of } from 'rxjs';
+import { Product, CartItem, ProductVariant, User } from '../product.model';
+import { ProductService } from './product.service';
+import { AuthService } from './auth.service';
+import { variantPrice } from './product-variants';
+import { CART_STORE, CartStore, StoredCartLine, parseCartLines } from './cart-store.provider';
+
+// ── Storage keys ────────────────────────────────────────────
+const GUEST_CART_KEY = 'cart_guest';
+
+/** Price of one unit of a cart line */
+export function unitPrice(item: CartItem): number {
+  return variantPrice(item.product, item.variant);
+}
+
+/** True if a cart line is this product (and variant) */
+function isLine(item: CartItem, productId: number, variantId?: number): boolean {
+  return item.product.id === productId && item.variant?.id === variantId;
+}
 
 @Injectable({
   providedIn: 'root'
@@ -34,6 +71,30 @@ export class CartService {
   // ──────────────────────────────────────────────────────────────
 
   private cartItems = signal<CartItem[]>([]);
+  private owner: User | null = null;
+
+  // Account cart saves, sent one at a time so they land in order
+  private accountSaves = new Subject<{ userId: number; lines: StoredCartLine[] }>();
+
+  constructor(
+    private productService: ProductService,
+    private authService: AuthService,
+    @Inject(CART_STORE) private store: CartStore
+  ) {
+    this.restore(this.readGuestCart());
+
+    this.accountSaves.pipe(
+      concatMap(({ userId, lines }) => this.store.save(userId, lines).pipe(catchError(() => of(undefined))))
+    ).subscribe();
+
+    // Swap carts when the user logs in or out
+    effect(() => {
+      const user = this.authService.currentUser();
+      if (user?.id !== this.owner?.id) {
+        this.switchOwner(user);
+      }
+    }, { allowSignalWrites: true });
+  }
 
   // ─── PUBLIC COMPUTED SIGNALS ─────────────────────────────────
   // These are read-only. Components use them in templates like:
@@ -53,7 +114,7 @@ export class CartService {
   /** Total price of all items in the cart */
   readonly totalPrice = computed(() =>
     this.cartItems().reduce(
-      (total, item) => total + (item.product.price * item.quantity),
+      (total, item) => total + (unitPrice(item) * item.quantity),
       0
     )
   );
@@ -61,65 +122,222 @@ export class CartService {
   // ─── PUBLIC METHODS ──────────────────────────────────────────
 
   /**
-   * Add a product to the cart.
-   * If the product is already in the cart, increase its quantity.
+   * Add a product (or one of its variants) to the cart.
+   * If it is already in the cart, increase its quantity.
    * Otherwise, add it as a new cart item.
+   * The quantity is capped at available stock; returns how many
+   * units were actually added (0 if none are left).
    */
-  addToCart(product: Product, quantity: number = 1): void {
+  addToCart(product: Product, quantity: number = 1, variant?: ProductVariant): number {
     const currentItems = this.cartItems();
 
     // Check if product is already in cart
     const existingIndex = currentItems.findIndex(
-      item => item.product.id === product.id
+      item => isLine(item, product.id, variant?.id)
     );
+    const inCart = existingIndex > -1 ? currentItems[existingIndex].quantity : 0;
+    const added = Math.max(0, Math.min(quantity, this.availableStock(product.id, variant?.id) - inCart));
+
+    if (added === 0) {
+      return 0;
+    }
 
     if (existingIndex > -1) {
       // Product exists — update quantity (immutable update)
       // We create a NEW array so Angular's signal detects the change
       const updatedItems = currentItems.map((item, index) =>
         index === existingIndex
-          ? { ...item, quantity: item.quantity + quantity }
+          ? { ...item, quantity: item.quantity + added }
           : item
       );
-      this.cartItems.set(updatedItems);
+      this.setItems(updatedItems);
     } else {
       // New product — add to cart
-      this.cartItems.set([...currentItems, { product, quantity }]);
+      this.setItems([...currentItems, { product, variant, quantity: added }]);
     }
+    return added;
   }
 
   /**
-   * Remove a product from the cart entirely.
+   * Remove a product (or one variant of it) from the cart entirely.
    */
-  removeFromCart(productId: number): void {
-    this.cartItems.set(
-      this.cartItems().filter(item => item.product.id !== productId)
+  removeFromCart(productId: number, variantId?: number): void {
+    this.setItems(
+      this.cartItems().filter(item => !isLine(item, productId, variantId))
     );
   }
 
   /**
    * Update the quantity of a specific cart item.
    * If quantity drops to 0 or below, remove the item.
+   * Quantities above available stock are capped.
    */
-  updateQuantity(productId: number, quantity: number): void {
+  updateQuantity(productId: number, quantity: number, variantId?: number): void {
     if (quantity <= 0) {
-      this.removeFromCart(productId);
+      this.removeFromCart(productId, variantId);
       return;
     }
 
-    this.cartItems.set(
+    const capped = Math.min(quantity, this.availableStock(productId, variantId));
+    if (capped <= 0) {
+      this.removeFromCart(productId, variantId);
+      return;
+    }
+
+    this.setItems(
       this.cartItems().map(item =>
-        item.product.id === productId
-          ? { ...item, quantity }
+        isLine(item, productId, variantId)
+          ? { ...item, quantity: capped }
           : item
       )
     );
   }
 
+  /**
+   * Re-read every product from ProductService so the cart never
+   * holds a stale price. Returns the names of products whose
+   * price changed since they were added.
+   */
+  refreshProducts(): Observable<string[]> {
+    const current = this.cartItems();
+    return this.hydrate(current.map(toStoredLine)).pipe(
+      map(({ items, repriced }) => {
+        this.setItems(items);
+        return repriced;
+      })
+    );
+  }
+
+  /** Units of a product (or variant) currently available to buy */
+  availableStock(productId: number, variantId?: number): number {
+    return this.productService.getAvailableStock(productId, variantId);
+  }
+
+  /**
+   * Re-check every cart line against current stock. Lines that
+   * sold out are removed and the rest are capped. Returns the
+   * names of the products that were adjusted.
+   */
+  reconcileStock(): string[] {
+    const adjusted: string[] = [];
+    const reconciled = this.cartItems()
+      .map(item => {
+        const available = this.availableStock(item.product.id, item.variant?.id);
+        if (item.quantity <= available) return item;
+        adjusted.push(item.product.name);
+        return { ...item, quantity: available };
+      })
+      .filter(item => item.quantity > 0);
+
+    if (adjusted.length > 0) {
+      this.setItems(reconciled);
+    }
+    return adjusted;
+  }
+
   /**
    * Empty the entire cart (used after checkout).
    */
   clearCart(): void {
-    this.cartItems.set([]);
+    this.setItems([]);
+  }
+
+  // ─── PERSISTENCE ─────────────────────────────────────────────
+
+  /** Update the signal and save the cart for its owner */
+  private setItems(items: CartItem[]): void {
+    this.cartItems.set(items);
+    const lines = items.map(toStoredLine);
+    if (this.owner) {
+      this.accountSaves.next({ userId: this.owner.id, lines });
+    } else {
+      localStorage.setItem(GUEST_CART_KEY, JSON.stringify(lines));
+    }
+  }
+
+  /**
+   * Move the cart to a new owner. Logging in merges the guest
+   * cart into the account cart (keeping the larger quantity of
+   * any shared line) and clears the guest cart. Logging out
+   * starts from the (now empty) guest cart.
+   */
+  private switchOwner(user: User | null): void {
+    const wasGuest = this.owner === null;
+    this.owner = user;
+
+    if (!user) {
+      this.restore(this.readGuestCart());
+      return;
+    }
+
+    const guestLines = wasGuest ? this.readGuestCart() : [];
+    localStorage.removeItem(GUEST_CART_KEY);
+    this.store.load(user.id).pipe(
+      catchError(() => of([]))
+    ).subscribe(accountLines => {
+      // Skip it if the user changed while the cart was loading
+      if (this.owner?.id === user.id) this.restore(mergeLines(accountLines, guestLines));
+    });
+  }
+
+  /** Hydrate stored lines and replace the cart with the result */
+  private restore(lines: StoredCartLine[]): void {
+    const owner = this.owner;
+    this.hydrate(lines).subscribe(({ items }) => {
+      if (this.owner === owner) this.setItems(items);
+    });
+  }
+
+  /**
+   * Turn stored lines into cart items using current product data.
+   * Products or variants that no longer exist or sold out are
+   * dropped, and quantities are capped at available stock.
+   */
+  private hydrate(lines: StoredCartLine[]): Observable<{ items: CartItem[]; repriced: string[] }> {
+    if (lines.length === 0) return of({ items: [], repriced: [] });
+
+    return forkJoin(
+      lines.map(line => this.productService.getProductById(line.productId).pipe(
+        map(product => ({ line, product: product as Product | null })),
+        catchError(() => of({ line, product: null }))
+      ))
+    ).pipe(
+      map(results => {
+        const items: CartItem[] = [];
+        const repriced: string[] = [];
+        for (const { line, product } of results) {
+          if (!product) continue;
+          const variant = product.variants?.find(v => v.id === line.variantId);
+          if (line.variantId != null && !variant) continue;
+          const quantity = Math.min(line.quantity, this.availableStock(product.id, variant?.id));
+          if (quantity <= 0) continue;
+          if (variantPrice(product, variant) !== line.price) repriced.push(product.name);
+          items.push({ product, variant, quantity });
+        }
+        return { items, repriced };
+      })
+    );
+  }
+
+  private readGuestCart(): StoredCartLine[] {
+    return parseCartLines(localStorage.getItem(GUEST_CART_KEY));
+  }
+}
+
+/** Snapshot of a cart line for saving */
+function toStoredLine(item: CartItem): StoredCartLine {
+  return { productId: item.product.id, variantId: item.variant?.id, quantity: item.quantity, price: unitPrice(item) };
+}
+
+/** Combine two carts, keeping the larger quantity of shared lines */
+function mergeLines(a: StoredCartLine[], b: StoredCartLine[]): StoredCartLine[] {
+  const merged = new Map<string, StoredCartLine>();
+  for (const line of [...a, ...b]) {
+    const key = `${line.productId}:${line.variantId ?? ''}`;
+    const existing = merged.get(key);
+    if (!existing || line.quantity > existing.quantity) {
+      merged.set(key, line);
+    }
   }
+  return [...merged.values()];
 }
@@ -0,0 +1,126 @@
+// ============================================================
+// DEV IDENTITY PROVIDER — Password-less demo sign-in
+// ============================================================
+// ANGULAR CONCEPTS:
+//
+// 1. InjectionToken with a factory
+//    DEV_IDENTITY_PROVIDER resolves to a provider only when
+//    environment.devAuth is on. Production builds swap in
+//    environment.prod.ts (devAuth: false), so the token is
+//    null there and AuthService only talks to the backend.
+//
+// 2. Committed demo personas
+//    Shopper, seller and admin map onto seeded users, so their
+//    orders, auctions and admin rights line up with the
+//    in-memory data. No passwords — you pick a persona.
+//
+// 3. Dev tokens never leave the browser
+//    Dev sessions store a "dev-fake-…" token. isDevToken() lets
+//    authInterceptor drop it instead of sending it as a Bearer
+//    token to the real backend.
+// ============================================================
+
+import { InjectionToken } from '@angular/core';
+import { User } from '../product.model';
+import { environment } from '../environments/environment';
+
+/** Prefix of every token minted by the dev identity provider */
+export const DEV_TOKEN_PREFIX = 'dev-fake-';
+
+/** True for tokens minted locally rather than by the backend */
+export function isDevToken(token: string | null): boolean {
+  return token !== null && token.startsWith(DEV_TOKEN_PREFIX);
+}
+
+export type DevPersonaKey = 'shopper' | 'seller' | 'admin';
+
+/** A ready-made demo identity */
+export interface DevPersona {
+  key: DevPersonaKey;
+  label: string;
+  description: string;
+  user: User;
+}
+
+export const DEV_PERSONAS: DevPersona[] = [
+  {
+    key: 'shopper',
+    label: 'Shopper',
+    description: 'Browses, buys and bids — has past orders',
+    user: { id: 998, email: 'user@shopng.com', firstName: 'Demo', lastName: 'User', role: 'user' }
+  },
+  {
+    key: 'seller',
+    label: 'Seller',
+    description: 'Runs auctions and watches the bids come in',
+    user: { id: 100, email: 'jane.smith@example.com', firstName: 'Jane', lastName: 'Smith', role: 'user' }
+  },
+  {
+    key: 'admin',
+    label: 'Admin',
+    description: 'Full access to the admin panel',
+    user: { id: 999, email: 'admin@shopng.com', firstName: 'Admin', lastName: 'User', role: 'admin' }
+  }
+];
+
+// Accounts created through the register form while offline
+const LOCAL_USERS_KEY = 'dev_local_users';
+
+export class DevIdentityProvider {
+
+  constructor(readonly personas: DevPersona[]) {}
+
+  /** Start a session as one of the personas */
+  signInAs(key: DevPersonaKey): { token: string; user: User } {
+    const persona = this.personas.find(p => p.key === key);
+    if (!persona) {
+      throw { error: { error: `Unknown demo persona: ${key}` } };
+    }
+    return { token: `${DEV_TOKEN_PREFIX}${persona.key}`, user: persona.user };
+  }
+
+  /** Start a session for a user registered while the backend was down */
+  signInLocal(user: User): { token: string; user: User } {
+    const users = this.localUsers().filter(u => u.id !== user.id);
+    localStorage.setItem(LOCAL_USERS_KEY, JSON.stringify([...users, user]));
+    return { token: `${DEV_TOKEN_PREFIX}local-${user.id}`, user };
+  }
+
+  /** Whether an email already belongs to a persona or offline account */
+  isTaken(email: string): boolean {
+    const lower = email.toLowerCase();
+    return [...this.personas.map(p => p.user), ...this.localUsers()]
+      .some(u => u.email.toLowerCase() === lower);
+  }
+
+  /** Persona behind a dev token, if it is a persona session */
+  personaFor(token: string | null): DevPersona | null {
+    if (!isDevToken(token)) return null;
+    const key = token!.slice(DEV_TOKEN_PREFIX.length);
+    return this.personas.find(p => p.key === key) ?? null;
+  }
+
+  /** Turn a dev token back into its user (null if unknown) */
+  restore(token: string): User | null {
+    const persona = this.personaFor(token);
+    if (persona) return persona.user;
+
+    const match = token.match(/^dev-fake-local-(\d+)$/);
+    if (!match) return null;
+    return this.localUsers().find(u => u.id === Number(match[1])) ?? null;
+  }
+
+  private localUsers(): User[] {
+    try {
+      return JSON.parse(localStorage.getItem(LOCAL_USERS_KEY) ?? '[]');
+    } catch {
+      return [];
+    }
+  }
+}
+
+/** The dev identity provider, or null when dev auth is disabled */
+export const DEV_IDENTITY_PROVIDER = new InjectionToken<DevIdentityProvider | null>('DEV_IDENTITY_PROVIDER', {
+  providedIn: 'root',
+  factory: () => environment.devAuth ? new DevIdentityProvider(DEV_PERSONAS) : null
+});
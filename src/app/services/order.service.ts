@@ -1,35 +1,78 @@
 // ============================================================
-// ORDER SERVICE — In-memory order management for admin
+// ORDER SERVICE — Order management for storefront and admin
 // ============================================================
 // ANGULAR CONCEPTS:
 //
-// 1. In-memory data store (same pattern as ProductService)
-//    Five seed orders pre-populate the system so the admin
-//    panel has real-looking data from the start.
+// 1. Repository-backed data (same pattern as ProductService)
+//    Five seed orders pre-populate the in-memory repository so
+//    the admin panel has real-looking data from the start. Set
+//    environment.dataSources.orders to 'http' to use the API.
 //
 // 2. Observable-based API
-//    Every method returns Observable<T> using RxJS `of()` so
-//    the component code is identical to what you'd write
-//    against a real HTTP backend.
+//    Every method returns Observable<T> so the component code
+//    is identical whichever repository is behind the service.
 //
 // 3. Computed fields
-//    Each order has subtotal, tax (8.25%), fees ($4.99 flat),
-//    and total = subtotal + tax + fees.
+//    Each order has subtotal, tax (from the TaxCalculator for
+//    its shipping address, rounded per line), shipping_cost
+//    (from the method picked among the ShippingCalculator's
+//    options), fees ($0.99 processing) and total = subtotal +
+//    tax + shipping_cost + fees. The tax rate/jurisdiction and
+//    the delivery window are stored on the order.
+//
+// 4. Placing orders
+//    placeOrder() turns the cart into an Order + OrderItems
+//    using the same cost math as the seed orders, so new
+//    orders show up in order history and the admin panel.
+//
+// 5. Inventory
+//    The order repository reserves stock when an order is
+//    created and restores it on cancellation (mirroring the
+//    backend transaction); ProductService is then reloaded.
 // ============================================================
 
-import { Injectable } from '@angular/core';
-import { Observable, of, throwError } from 'rxjs';
-import { Order, OrderItem } from '../product.model';
+import { Inject, Injectable, InjectionToken, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, catchError, forkJoin, map, of, switchMap, tap, throwError } from 'rxjs';
+import { CartItem, Order, OrderItem, PostalAddress, ShippingMethodId, User } from '../product.model';
+import { environment } from '../environments/environment';
+import { Repository } from '../repositories/repository';
+import { InMemoryOrderRepository, HttpOrderRepository } from '../repositories/order.repository';
+import { ProductService, PRODUCT_REPOSITORY } from './product.service';
+import { formatAddress } from './user-profile.service';
+import { variantLabel, variantPrice } from './product-variants';
+import {
+  RateTableTaxCalculator,
+  TAX_CALCULATOR,
+  TaxCalculator,
+  TaxDestination,
+  US_TAX_RATES,
+  parseTaxDestination,
+  toTaxDestination
+} from './tax-calculator.provider';
+import {
+  SHIPPING_CALCULATOR,
+  ShippingCalculator,
+  ShippingOption,
+  US_SHIPPING_RATES,
+  ZoneRateShippingCalculator,
+  deliveryWindow,
+  unitWeight
+} from './shipping-calculator.provider';
 
-// ── Tax & fee constants ─────────────────────────────────────
-const TAX_RATE = 0.0825;   // 8.25%
-const FLAT_FEE = 4.99;     // Shipping / processing
+// ── Fee constants ───────────────────────────────────────────
+const PROCESSING_FEE = 0.99;
 
 // ── Helper: round to 2 decimal places ───────────────────────
 function round2(n: number): number {
   return Math.round(n * 100) / 100;
 }
 
+// Seed orders use the default tax and shipping tables. Declared
+// before SEED_ORDERS, which calls buildOrder() as the module loads.
+const SEED_TAX_CALCULATOR = new RateTableTaxCalculator(US_TAX_RATES);
+const SEED_SHIPPING_CALCULATOR = new ZoneRateShippingCalculator(US_SHIPPING_RATES);
+
 // ── Seed orders ─────────────────────────────────────────────
 // Five realistic orders tied to demo users.
 const SEED_ORDERS: Order[] = [
@@ -46,7 +89,8 @@ const SEED_ORDERS: Order[] = [
     'jane.smith@example.com', 'Jane', 'Smith',
     [
       { id: 3, order_id: 2, product_id: 2, quantity: 1, price_at_purchase: 199.99, name: 'Smart Watch Pro', image: 'https://picsum.photos/seed/smartwatch/400/400', category: 'Electronics' }
-    ]
+    ],
+    'expedited'
   ),
   buildOrder(3, 'ORD-10003', 101, 'shipped', '2026-01-22T09:12:00Z',
     '350 Fifth Avenue, New York, NY 10118',
@@ -55,14 +99,15 @@ const SEED_ORDERS: Order[] = [
       { id: 4, order_id: 3, product_id: 7, quantity: 1, price_at_purchase: 34.99, name: 'The Art of Clean Code', image: 'https://picsum.photos/seed/coding-book/400/400', category: 'Books' },
       { id: 5, order_id: 3, product_id: 8, quantity: 1, price_at_purchase: 44.99, name: 'Modern JavaScript Deep Dive', image: 'https://picsum.photos/seed/js-book/400/400', category: 'Books' },
       { id: 6, order_id: 3, product_id: 9, quantity: 1, price_at_purchase: 39.99, name: 'Design Patterns Handbook', image: 'https://picsum.photos/seed/patterns-book/400/400', category: 'Books' }
-    ]
+    ],
+    'overnight'
   ),
   buildOrder(4, 'ORD-10004', 102, 'delivered', '2026-02-01T16:30:00Z',
     '221B Baker Street, London, CA 90210',
     'sarah.williams@example.com', 'Sarah', 'Williams',
     [
-      { id: 7, order_id: 4, product_id: 4, quantity: 1, price_at_purchase: 89.99, name: 'Classic Denim Jacket', image: 'https://picsum.photos/seed/denim-jacket/400/400', category: 'Clothing' },
-      { id: 8, order_id: 4, product_id: 5, quantity: 1, price_at_purchase: 129.99, name: 'Running Sneakers Ultra', image: 'https://picsum.photos/seed/sneakers/400/400', category: 'Clothing' }
+      { id: 7, order_id: 4, product_id: 4, quantity: 1, price_at_purchase: 89.99, variant_id: 3, variant_label: 'Size: M, Color: Blue', sku: 'DENIM-M-BLUE', name: 'Classic Denim Jacket', image: 'https://picsum.photos/seed/denim-jacket/400/400', category: 'Clothing' },
+      { id: 8, order_id: 4, product_id: 5, quantity: 1, price_at_purchase: 129.99, variant_id: 3, variant_label: 'Size: 10', sku: 'SNEAKER-10', name: 'Running Sneakers Ultra', image: 'https://picsum.photos/seed/sneakers/400/400', category: 'Clothing' }
     ]
   ),
   buildOrder(5, 'ORD-10005', 998, 'cancelled', '2026-02-10T11:05:00Z',
@@ -74,79 +119,250 @@ const SEED_ORDERS: Order[] = [
   )
 ];
 
+/** Money fields of an order (also used for cart/checkout previews) */
+export type CostBreakdown = Pick<Order,
+  'subtotal' | 'tax' | 'tax_rate' | 'tax_jurisdiction' | 'shipping_cost' | 'fees' | 'total'>;
+
+/**
+ * Helper to compute tax, shipping, fees and total from line
+ * items. Without a destination there is no tax yet (rate 0,
+ * no jurisdiction); without a shipping option, no shipping
+ * cost. Line items get their per-line tax filled in.
+ */
+function computeTotals(
+  items: OrderItem[],
+  calculator: TaxCalculator,
+  destination: TaxDestination | null,
+  shipping: ShippingOption | null
+): CostBreakdown {
+  const subtotal = round2(items.reduce((s, i) => s + i.price_at_purchase * i.quantity, 0));
+  const quote = destination
+    ? calculator.quote(items.map(i => ({ amount: i.price_at_purchase * i.quantity, category: i.category })), destination)
+    : { rate: 0, jurisdiction: '', lineTaxes: items.map(() => 0), tax: 0 };
+  items.forEach((item, index) => item.tax = quote.lineTaxes[index]);
+
+  const shipping_cost = shipping?.cost ?? 0;
+  const fees = PROCESSING_FEE;
+  const total = round2(subtotal + quote.tax + shipping_cost + fees);
+  return {
+    subtotal, tax: quote.tax, tax_rate: quote.rate, tax_jurisdiction: quote.jurisdiction,
+    shipping_cost, fees, total
+  };
+}
+
+/** The requested option, or the cheapest if it isn't offered */
+function pickShippingOption(options: ShippingOption[], method: ShippingMethodId | null): ShippingOption | null {
+  return options.find(o => o.method === method) ?? options[0] ?? null;
+}
+
 /** Helper to build an order with auto-computed totals */
 function buildOrder(
   id: number, orderNumber: string, userId: number,
   status: Order['status'], createdAt: string,
   address: string, email: string, firstName: string, lastName: string,
-  items: OrderItem[]
+  items: OrderItem[],
+  method: ShippingMethodId = 'standard'
 ): Order {
-  const subtotal = round2(items.reduce((s, i) => s + i.price_at_purchase * i.quantity, 0));
-  const tax = round2(subtotal * TAX_RATE);
-  const fees = FLAT_FEE;
-  const total = round2(subtotal + tax + fees);
+  const destination = parseTaxDestination(address)!;
+  const shipping = pickShippingOption(SEED_SHIPPING_CALCULATOR.options(
+    items.map(i => ({ amount: i.price_at_purchase * i.quantity, weight: unitWeight(i) * i.quantity })),
+    destination
+  ), method)!;
+  const totals = computeTotals(items, SEED_TAX_CALCULATOR, destination, shipping);
+  const window = deliveryWindow(shipping, new Date(createdAt));
 
   return {
-    id, orderNumber, user_id: userId, status, subtotal, tax, fees, total,
+    id, orderNumber, user_id: userId, status, ...totals,
+    shipping_method: shipping.method,
+    delivery_earliest: window.earliest,
+    delivery_latest: window.latest,
     shipping_address: address, created_at: createdAt,
     email, first_name: firstName, last_name: lastName, items
   };
 }
 
+/** Helper to snapshot a cart line as an order line item */
+function toOrderItem(id: number, orderId: number, item: CartItem): OrderItem {
+  return {
+    id,
+    order_id: orderId,
+    product_id: item.product.id,
+    quantity: item.quantity,
+    price_at_purchase: variantPrice(item.product, item.variant),
+    variant_id: item.variant?.id,
+    variant_label: item.variant && variantLabel(item.variant),
+    sku: item.variant?.sku,
+    name: item.product.name,
+    image: item.variant?.image ?? item.product.image,
+    category: item.product.category
+  };
+}
+
+/** Repository behind OrderService — memory or HTTP per environment.dataSources */
+export const ORDER_REPOSITORY = new InjectionToken<Repository<Order>>('ORDER_REPOSITORY', {
+  providedIn: 'root',
+  factory: () => environment.dataSources.orders === 'http'
+    ? new HttpOrderRepository(inject(HttpClient), `${environment.apiUrl}/orders`)
+    : new InMemoryOrderRepository(SEED_ORDERS, inject(PRODUCT_REPOSITORY))
+});
+
+/** Newest orders first */
+function byNewest(a: Order, b: Order): number {
+  return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+}
+
 @Injectable({ providedIn: 'root' })
 export class OrderService {
 
-  private orders: Order[] = SEED_ORDERS.map(o => ({ ...o, items: o.items?.map(i => ({ ...i })) }));
-  private nextId = 6;
-  private nextOrderNum = 10006;
+  // Last snapshot read from the repository. Backs the
+  // synchronous dashboard aggregations.
+  private orders: Order[] = [];
+
+  constructor(
+    @Inject(ORDER_REPOSITORY) private repository: Repository<Order>,
+    @Inject(TAX_CALCULATOR) private taxCalculator: TaxCalculator,
+    @Inject(SHIPPING_CALCULATOR) private shippingCalculator: ShippingCalculator,
+    private productService: ProductService
+  ) {
+    this.load().subscribe({ error: () => {} });
+  }
+
+  private load(): Observable<Order[]> {
+    return this.repository.findAll().pipe(
+      tap(orders => this.orders = orders)
+    );
+  }
 
   // ── Read ──────────────────────────────────────────────────
 
   /** Get all orders (admin) */
   getAllOrders(): Observable<Order[]> {
-    return of([...this.orders].sort((a, b) =>
-      new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-    ));
+    return this.load().pipe(map(orders => [...orders].sort(byNewest)));
   }
 
   /** Get orders for a specific user (storefront order history) */
   getOrdersByUserId(userId: number): Observable<Order[]> {
-    const userOrders = this.orders
-      .filter(o => o.user_id === userId)
-      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-    return of(userOrders.map(o => ({ ...o, items: o.items?.map(i => ({ ...i })) })));
+    return this.load().pipe(map(orders =>
+      orders.filter(o => o.user_id === userId).sort(byNewest)
+    ));
+  }
+
+  /** True if the user has a non-cancelled order containing the product */
+  hasPurchased(userId: number, productId: number): Observable<boolean> {
+    return this.load().pipe(
+      map(orders => orders.filter(o => o.user_id === userId && o.status !== 'cancelled')),
+      // GET /orders leaves out line items (every order has some),
+      // so read orders listed without them one by one
+      switchMap(orders => orders.length === 0 ? of([]) : forkJoin(orders.map(o =>
+        o.items?.length ? of(o) : this.repository.findById(o.id)
+      ))),
+      map(orders => orders.some(o => (o.items ?? []).some(i => i.product_id === productId)))
+    );
   }
 
   /** Get a single order by ID */
   getOrderById(id: number): Observable<Order> {
-    const order = this.orders.find(o => o.id === id);
-    if (!order) return throwError(() => ({ status: 404, error: 'Order not found' }));
-    return of({ ...order, items: order.items?.map(i => ({ ...i })) });
+    return this.repository.findById(id);
   }
 
   /** Search orders by order number, customer name, or email */
   searchOrders(term: string): Observable<Order[]> {
     const lower = term.toLowerCase();
-    const results = this.orders.filter(o =>
-      o.orderNumber.toLowerCase().includes(lower) ||
-      (o.email && o.email.toLowerCase().includes(lower)) ||
-      (o.first_name && o.first_name.toLowerCase().includes(lower)) ||
-      (o.last_name && o.last_name.toLowerCase().includes(lower)) ||
-      o.status.toLowerCase().includes(lower)
-    );
-    return of(results.sort((a, b) =>
-      new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+    return this.load().pipe(map(orders =>
+      orders.filter(o =>
+        o.orderNumber.toLowerCase().includes(lower) ||
+        (o.email && o.email.toLowerCase().includes(lower)) ||
+        (o.first_name && o.first_name.toLowerCase().includes(lower)) ||
+        (o.last_name && o.last_name.toLowerCase().includes(lower)) ||
+        o.status.toLowerCase().includes(lower)
+      ).sort(byNewest)
     ));
   }
 
+  /** Shipping options for cart items, cheapest first ([] without a destination) */
+  getShippingOptions(cartItems: CartItem[], destination: TaxDestination | null): ShippingOption[] {
+    if (!destination || cartItems.length === 0) return [];
+    return this.shippingCalculator.options(
+      cartItems.map(c => ({ amount: variantPrice(c.product, c.variant) * c.quantity, weight: unitWeight(c.product) * c.quantity })),
+      destination
+    );
+  }
+
+  /**
+   * Preview the cost breakdown for cart items (cart + checkout
+   * summaries). Tax and shipping are only estimated once a
+   * destination is known; shipping defaults to the cheapest option.
+   */
+  getCostBreakdown(
+    cartItems: CartItem[],
+    destination: TaxDestination | null = null,
+    method: ShippingMethodId | null = null
+  ): CostBreakdown {
+    const shipping = pickShippingOption(this.getShippingOptions(cartItems, destination), method);
+    return computeTotals(cartItems.map(c => toOrderItem(0, 0, c)), this.taxCalculator, destination, shipping);
+  }
+
+  // ── Create ────────────────────────────────────────────────
+
+  /** Place a new order for the logged-in user from the cart contents */
+  placeOrder(
+    user: User,
+    cartItems: CartItem[],
+    shippingAddress: PostalAddress,
+    method: ShippingMethodId
+  ): Observable<Order> {
+    if (cartItems.length === 0) {
+      return throwError(() => ({ status: 400, error: 'Cart is empty' }));
+    }
+
+    const destination = toTaxDestination(shippingAddress);
+    const shipping = this.getShippingOptions(cartItems, destination).find(o => o.method === method);
+    if (!shipping) {
+      return throwError(() => ({ status: 400, error: 'That shipping method is not available for this address.' }));
+    }
+
+    const now = new Date();
+    const window = deliveryWindow(shipping, now);
+    const items = cartItems.map(c => toOrderItem(0, 0, c));
+    const order: Omit<Order, 'id'> = {
+      orderNumber: '',            // Assigned by the repository
+      user_id: user.id,
+      status: 'pending',
+      ...computeTotals(items, this.taxCalculator, destination, shipping),
+      shipping_method: shipping.method,
+      delivery_earliest: window.earliest,
+      delivery_latest: window.latest,
+      shipping_address: formatAddress(shippingAddress),
+      created_at: now.toISOString(),
+      email: user.email,
+      first_name: user.firstName,
+      last_name: user.lastName,
+      items
+    };
+
+    // Stock moved either way — refresh the catalog before answering
+    return this.repository.create(order).pipe(
+      tap(created => this.orders.push(created)),
+      switchMap(created => this.productService.reload().pipe(map(() => created))),
+      catchError(err => err?.status === 409
+        ? this.productService.reload().pipe(switchMap(() => throwError(() => err)))
+        : throwError(() => err))
+    );
+  }
+
   // ── Update ────────────────────────────────────────────────
 
-  /** Update order status */
+  /** Update order status (cancelling returns the items to stock) */
   updateOrderStatus(id: number, status: Order['status']): Observable<Order> {
-    const index = this.orders.findIndex(o => o.id === id);
-    if (index === -1) return throwError(() => ({ status: 404, error: 'Order not found' }));
-    this.orders[index] = { ...this.orders[index], status };
-    return of(this.orders[index]);
+    return this.repository.patch(id, { status }).pipe(
+      tap(updated => {
+        const index = this.orders.findIndex(o => o.id === updated.id);
+        if (index !== -1) this.orders[index] = updated;
+      }),
+      switchMap(updated => status === 'cancelled'
+        ? this.productService.reload().pipe(map(() => updated))
+        : of(updated))
+    );
   }
 
   // ── Aggregations (for dashboard) ──────────────────────────
@@ -164,9 +380,6 @@ export class OrderService {
   }
 
   getRecentOrders(count: number = 5): Observable<Order[]> {
-    const sorted = [...this.orders]
-      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-      .slice(0, count);
-    return of(sorted);
+    return this.load().pipe(map(orders => [...orders].sort(byNewest).slice(0, count)));
   }
 }
@@ -0,0 +1,130 @@
+// ============================================================
+// PAYMENT METHOD SERVICE — Saved cards per user
+// ============================================================
+// Keeps a list of tokenized cards for the logged-in user, one
+// of which is the default for checkout. Follows the same
+// signal + localStorage pattern as UserProfileService.
+//
+// Only SavedCard is persisted: brand, last4, expiry and the
+// vault token. Full card numbers and CVVs are handed to the
+// PaymentVault and never written anywhere.
+// ============================================================
+
+import { Inject, Injectable, signal, computed, effect } from '@angular/core';
+import { Observable, map, tap, throwError } from 'rxjs';
+import { AuthService } from './auth.service';
+import { CardDetails, PAYMENT_VAULT, PaymentVault, cardLengths, detectCardBrand } from './payment-vault.provider';
+import { SavedCard } from '../product.model';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PaymentMethodService {
+
+  private cardsSignal = signal<SavedCard[]>([]);
+
+  /** Saved cards for the current user, default first */
+  readonly cards = computed(() =>
+    [...this.cardsSignal()].sort((a, b) => Number(b.isDefault) - Number(a.isDefault))
+  );
+
+  /** The card checkout pre-selects */
+  readonly defaultCard = computed(() =>
+    this.cardsSignal().find(c => c.isDefault) ?? null
+  );
+
+  constructor(
+    private authService: AuthService,
+    @Inject(PAYMENT_VAULT) private vault: PaymentVault
+  ) {
+    // Load/clear cards when auth state changes
+    effect(() => {
+      const user = this.authService.currentUser();
+      this.cardsSignal.set(user ? this.read(user.id) : []);
+    }, { allowSignalWrites: true });
+  }
+
+  // ── Add Card ────────────────────────────────────────────────
+  // Tokenizes through the vault, then stores the safe fields.
+  // The first card saved becomes the default automatically.
+  addCard(details: CardDetails, makeDefault = false): Observable<SavedCard> {
+    const user = this.authService.currentUser();
+    if (!user) {
+      return throwError(() => ({ error: 'Log in to save a card.' }));
+    }
+    return this.addCardFor(user.id, details, makeDefault);
+  }
+
+  // ── Remove Card ─────────────────────────────────────────────
+  // Revokes the token; if the default goes, the next card
+  // takes over as default.
+  removeCard(id: number): Observable<void> {
+    const card = this.cardsSignal().find(c => c.id === id);
+    return this.vault.revoke(card?.token ?? '').pipe(
+      tap(() => {
+        const remaining = this.cardsSignal().filter(c => c.id !== id);
+        if (card?.isDefault && remaining.length > 0) {
+          remaining[0] = { ...remaining[0], isDefault: true };
+        }
+        this.save(remaining);
+      })
+    );
+  }
+
+  // ── Set Default ─────────────────────────────────────────────
+  setDefault(id: number): void {
+    this.save(this.cardsSignal().map(c => ({ ...c, isDefault: c.id === id })));
+  }
+
+  // ── Legacy Import ───────────────────────────────────────────
+  // Older profiles stored the raw card in localStorage. This
+  // tokenizes it into a saved card for that user so
+  // UserProfileService can delete the plain-text copy.
+  importLegacyCard(userId: number, details: Omit<CardDetails, 'cvv'>): Observable<SavedCard> {
+    // The vault checks the CVV format; the real one was never needed
+    const cvv = '0'.repeat(cardLengths(detectCardBrand(details.cardNumber)).cvv);
+    return this.addCardFor(userId, { ...details, cvv }, false);
+  }
+
+  private addCardFor(userId: number, details: CardDetails, makeDefault: boolean): Observable<SavedCard> {
+    return this.vault.tokenize(details).pipe(
+      map(vaulted => {
+        const existing = this.read(userId);
+        const card: SavedCard = {
+          id: Math.max(0, ...existing.map(c => c.id)) + 1,
+          cardName: details.cardName,
+          ...vaulted,
+          isDefault: makeDefault || existing.length === 0
+        };
+        const cards = [
+          ...existing.map(c => card.isDefault ? { ...c, isDefault: false } : c),
+          card
+        ];
+        this.write(userId, cards);
+        if (this.authService.currentUser()?.id === userId) {
+          this.cardsSignal.set(cards);
+        }
+        return card;
+      })
+    );
+  }
+
+  private save(cards: SavedCard[]): void {
+    const user = this.authService.currentUser();
+    if (!user) return;
+    this.write(user.id, cards);
+    this.cardsSignal.set(cards);
+  }
+
+  private read(userId: number): SavedCard[] {
+    try {
+      return JSON.parse(localStorage.getItem(`payment_methods_${userId}`) ?? '[]');
+    } catch {
+      return [];
+    }
+  }
+
+  private write(userId: number, cards: SavedCard[]): void {
+    localStorage.setItem(`payment_methods_${userId}`, JSON.stringify(cards));
+  }
+}
@@ -0,0 +1,34 @@
+import { firstValueFrom } from 'rxjs';
+import { LocalPaymentVault, cardFormatError } from './payment-vault.provider';
+
+describe('LocalPaymentVault', () => {
+  const vault = new LocalPaymentVault();
+  const card = { cardName: 'Demo User', expiry: '12/99' };
+
+  it('should tokenize a 16-digit Visa with a 3-digit CVV', async () => {
+    const vaulted = await firstValueFrom(vault.tokenize({ ...card, cardNumber: '4111111111111111', cvv: '123' }));
+    expect(vaulted.brand).toBe('visa');
+    expect(vaulted.last4).toBe('1111');
+    expect(vaulted.token).toMatch(/^tok_local_/);
+  });
+
+  it('should tokenize a 15-digit Amex with a 4-digit CVV', async () => {
+    const vaulted = await firstValueFrom(vault.tokenize({ ...card, cardNumber: '378282246310005', cvv: '1234' }));
+    expect(vaulted.brand).toBe('amex');
+    expect(vaulted.last4).toBe('0005');
+  });
+
+  it('should hold each brand to its own lengths', () => {
+    expect(cardFormatError('378282246310005', '123')).toBe('CVV must be 4 digits for American Express.');
+    expect(cardFormatError('3782822463100051', '1234')).toBe('Card number must be 15 digits for American Express.');
+    expect(cardFormatError('411111111111111', '123')).toBe('Card number must be 16 digits.');
+    expect(cardFormatError('4111111111111111', '1234')).toBe('CVV must be 3 digits.');
+    expect(cardFormatError('4111 1111 1111 1111', '123')).toBeNull();
+  });
+
+  it('should fail with an error observable for a rejected card', async () => {
+    const err = await firstValueFrom(vault.tokenize({ ...card, cardNumber: '378282246310005', cvv: '123' }))
+      .catch(e => e);
+    expect(err).toEqual({ error: 'CVV must be 4 digits for American Express.' });
+  });
+});
@@ -0,0 +1,135 @@
+// ============================================================
+// PAYMENT VAULT — Tokenizes cards so the app never stores them
+// ============================================================
+// ANGULAR CONCEPTS:
+//
+// 1. Abstract class as a DI contract
+//    PaymentMethodService depends on PaymentVault, never on a
+//    concrete processor. PAYMENT_VAULT decides which one is
+//    handed out — swap the factory for a Stripe/Braintree
+//    adapter without touching the rest of the app.
+//
+// 2. Tokenization
+//    The vault receives the full card details once and returns
+//    an opaque token plus display-safe fields (brand, last4,
+//    expiry). Only those are persisted; the CVV is checked
+//    and then dropped.
+//
+// 3. Local fake
+//    LocalPaymentVault validates and tokenizes in the browser
+//    so the demo works without a payment provider. Lengths
+//    follow the brand: American Express numbers have 15
+//    digits and a 4-digit CVV, other brands 16 and 3.
+// ============================================================
+
+import { InjectionToken } from '@angular/core';
+import { ValidatorFn } from '@angular/forms';
+import { Observable, of, throwError } from 'rxjs';
+import { CardBrand } from '../product.model';
+
+/** Card details as typed by the user — only ever held in memory */
+export interface CardDetails {
+  cardName: string;
+  cardNumber: string;
+  expiry: string;               // MM/YY
+  cvv: string;
+}
+
+/** What the vault hands back: safe to persist */
+export interface VaultedCard {
+  token: string;
+  brand: CardBrand;
+  last4: string;
+  expiry: string;
+}
+
+export abstract class PaymentVault {
+
+  /** Exchange card details for a token — fails with { error } if the card is rejected */
+  abstract tokenize(card: CardDetails): Observable<VaultedCard>;
+
+  /** Invalidate a token when the card is removed */
+  abstract revoke(token: string): Observable<void>;
+}
+
+/** Guess the card network from the number's prefix */
+export function detectCardBrand(cardNumber: string): CardBrand {
+  if (/^4/.test(cardNumber)) return 'visa';
+  if (/^(5[1-5]|2[2-7])/.test(cardNumber)) return 'mastercard';
+  if (/^3[47]/.test(cardNumber)) return 'amex';
+  if (/^6(011|5)/.test(cardNumber)) return 'discover';
+  return 'card';
+}
+
+/** Digits in a card number and its CVV for a brand */
+export function cardLengths(brand: CardBrand): { number: number; cvv: number } {
+  return brand === 'amex' ? { number: 15, cvv: 4 } : { number: 16, cvv: 3 };
+}
+
+/** Why a card number and CVV don't fit together, or null if they do */
+export function cardFormatError(cardNumber: string, cvv: string): string | null {
+  const digits = cardNumber.replace(/\s/g, '');
+  const brand = detectCardBrand(digits);
+  const lengths = cardLengths(brand);
+  const forBrand = brand === 'amex' ? ' for American Express' : '';
+  if (digits.length !== lengths.number || !/^\d+$/.test(digits)) {
+    return `Card number must be ${lengths.number} digits${forBrand}.`;
+  }
+  if (cvv.length !== lengths.cvv || !/^\d+$/.test(cvv)) {
+    return `CVV must be ${lengths.cvv} digits${forBrand}.`;
+  }
+  return null;
+}
+
+/**
+ * Form-group validator for `cardNumber` + `cvv` controls: once
+ * each passes its own checks, their lengths must suit the
+ * card's brand. Fails with { cardFormat: message }.
+ */
+export const cardFormatValidator: ValidatorFn = group => {
+  const cardNumber = group.get('cardNumber');
+  const cvv = group.get('cvv');
+  // Disabled controls aren't valid either, so they're skipped too
+  if (!cardNumber?.valid || !cvv?.valid) return null;
+  const error = cardFormatError(cardNumber.value, cvv.value);
+  return error ? { cardFormat: error } : null;
+};
+
+/** True if an MM/YY expiry is in the past */
+export function isCardExpired(expiry: string, now = new Date()): boolean {
+  const [month, year] = expiry.split('/').map(Number);
+  // Cards are valid through the last day of their expiry month
+  return new Date(2000 + year, month, 1) <= now;
+}
+
+export class LocalPaymentVault extends PaymentVault {
+
+  tokenize(card: CardDetails): Observable<VaultedCard> {
+    const digits = card.cardNumber.replace(/\s/g, '');
+    const invalid = cardFormatError(digits, card.cvv);
+    if (invalid) {
+      return throwError(() => ({ error: invalid }));
+    }
+    if (isCardExpired(card.expiry)) {
+      return throwError(() => ({ error: 'This card has expired.' }));
+    }
+
+    return of({
+      token: `tok_local_${crypto.randomUUID()}`,
+      brand: detectCardBrand(digits),
+      last4: digits.slice(-4),
+      expiry: card.expiry
+    });
+  }
+
+  revoke(_token: string): Observable<void> {
+    // Nothing is stored on the fake side
+    return of(undefined);
+  }
+}
+
+/** The payment vault used to tokenize saved cards */
+export const PAYMENT_VAULT = new InjectionToken<PaymentVault>('PAYMENT_VAULT', {
+  providedIn: 'root',
+  factory: () => new LocalPaymentVault()
+});
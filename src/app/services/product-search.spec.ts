@@ -0,0 +1,80 @@
+import { computeFacets, editDistance, matchesFilters, searchProducts, stem, tokenize } from './product-search';
+import { Product } from '../product.model';
+
+const product = (id: number, name: string, category: string, price: number, rating: number, description = ''): Product => ({
+  id, name, description, price, image: '', category, rating, stock: 10
+});
+
+const CATALOG: Product[] = [
+  product(1, 'Wireless Bluetooth Headphones', 'Electronics', 79.99, 4.3, 'Noise cancelling over-ear headphones.'),
+  product(2, 'Running Sneakers Ultra', 'Clothing', 129.99, 5, 'Lightweight shoes for long runs.'),
+  product(3, 'Portable Bluetooth Speaker', 'Electronics', 49.99, 0, 'Pairs with any phone.'),
+  product(4, 'Modern JavaScript Deep Dive', 'Books', 44.99, 4.5, 'Covers headphones-free focus techniques.')
+];
+
+describe('product search text processing', () => {
+  it('should drop stop words, punctuation and accents', () => {
+    expect(tokenize('The Café-Style Mug, with Lid')).toEqual(['cafe', 'style', 'mug', 'lid']);
+  });
+
+  it('should stem plurals and -ing endings', () => {
+    expect(['running', 'glasses', 'watches', 'batteries', 'shoes'].map(stem))
+      .toEqual(['run', 'glass', 'watch', 'battery', 'shoe']);
+  });
+
+  it('should count a swap of neighbouring letters as one edit', () => {
+    expect(editDistance('javsacript', 'javascript', 2)).toBe(1);
+    expect(editDistance('lamp', 'desk', 1)).toBe(2);
+  });
+});
+
+describe('searchProducts', () => {
+  const names = (query: string) => searchProducts(CATALOG, query).map(hit => hit.product.name);
+
+  it('should rank name matches above description matches', () => {
+    expect(names('headphones')).toEqual(['Wireless Bluetooth Headphones', 'Modern JavaScript Deep Dive']);
+  });
+
+  it('should tolerate typos and match word prefixes', () => {
+    expect(names('hedphones')[0]).toBe('Wireless Bluetooth Headphones');
+    expect(names('javscript')).toEqual(['Modern JavaScript Deep Dive']);
+    expect(names('blue')).toContain('Portable Bluetooth Speaker');
+  });
+
+  it('should require every query word to match', () => {
+    expect(names('running shoes')).toEqual(['Running Sneakers Ultra']);
+    expect(names('bluetooth books')).toEqual([]);
+  });
+});
+
+describe('computeFacets', () => {
+  it('should count categories, price bands and ratings', () => {
+    const facets = computeFacets(CATALOG);
+    expect(facets.categories).toEqual([
+      { value: 'Books', label: 'Books', count: 1 },
+      { value: 'Clothing', label: 'Clothing', count: 1 },
+      { value: 'Electronics', label: 'Electronics', count: 2 }
+    ]);
+    expect(facets.priceBands.find(f => f.value === '25-50')?.count).toBe(2);
+    expect(facets.ratings.find(f => f.value === '4')?.count).toBe(3);
+  });
+
+  it('should filter by price range and minimum rating', () => {
+    const names = CATALOG.filter(p => matchesFilters(p, { minPrice: 40, maxPrice: 130, minRating: 4.4 })).map(p => p.name);
+    expect(names).toEqual(['Running Sneakers Ultra', 'Modern JavaScript Deep Dive']);
+  });
+
+  it('should bound a price range the way the price bands are bounded', () => {
+    const fifty = product(5, 'Desk Lamp', 'Home', 50, 4);
+    expect(matchesFilters(fifty, { minPrice: 25, maxPrice: 50 })).toBeFalse();
+    expect(matchesFilters(fifty, { minPrice: 50, maxPrice: 100 })).toBeTrue();
+    expect(computeFacets([fifty]).priceBands.find(f => f.count === 1)?.value).toBe('50-100');
+  });
+
+  it('should not narrow a facet by its own filter', () => {
+    const facets = computeFacets(CATALOG, { category: 'Books', minPrice: 40, maxPrice: 50 });
+    expect(facets.categories.find(f => f.value === 'Electronics')?.count).toBe(1);
+    expect(facets.priceBands.find(f => f.value === '50-100')?.count).toBe(0);
+    expect(facets.priceBands.find(f => f.value === '25-50')?.count).toBe(1);
+  });
+});
@@ -0,0 +1,322 @@
+// ============================================================
+// PRODUCT SEARCH — Relevance ranking and facet counts
+// ============================================================
+// CONCEPTS:
+//
+// 1. Tokenizing and stemming
+//    Text is lower-cased, stripped of accents and split into
+//    words; stop words ("the", "with") are dropped and each
+//    word is reduced to a rough stem, so "running shoes"
+//    matches "Running Sneakers" and "shoe".
+//
+// 2. Typo tolerance
+//    A query word that isn't in a product matches a word
+//    within a small edit distance (1 for 4–7 letters, 2 for
+//    longer), or a word it is the start of ("head" →
+//    "headphones"). Close matches score less than exact ones.
+//
+// 3. Field weighting
+//    A word found in the name counts more than one in the
+//    category, which counts more than one in the description.
+//    Every query word must match somewhere; the product's
+//    score is the sum of its best match per word.
+//
+// 4. Filters and facets
+//    matchesFilters() applies the category, price and rating
+//    filters. computeFacets() counts results per category,
+//    price band and minimum rating; each facet ignores its own
+//    filter, so "Electronics (4)" still shows while Books is
+//    selected.
+//
+// 5. Listing
+//    listProducts() puts it all together for one page of the
+//    storefront: search, filter, sort, then slice. Over HTTP,
+//    GET /api/products ranks searches with a copy of sections
+//    1–3 (backend/search/product-search.js — keep the two in
+//    step) and filters, counts facets and pages in SQL by the
+//    same rules.
+// ============================================================
+
+import { Product, ProductQuery, ProductResponse, ProductSort, SearchFacets } from '../product.model';
+
+/** A product and how well it matched the query */
+export interface SearchHit {
+  product: Product;
+  score: number;
+}
+
+/** A price band facet: min inclusive, max exclusive */
+export interface PriceBand {
+  value: string;
+  label: string;
+  min: number;
+  max: number | null;
+}
+
+export const PRICE_BANDS: PriceBand[] = [
+  { value: '0-25', label: 'Under $25', min: 0, max: 25 },
+  { value: '25-50', label: '$25 – $50', min: 25, max: 50 },
+  { value: '50-100', label: '$50 – $100', min: 50, max: 100 },
+  { value: '100-200', label: '$100 – $200', min: 100, max: 200 },
+  { value: '200-', label: '$200 & above', min: 200, max: null }
+];
+
+/** Minimum ratings offered as facets */
+export const RATING_THRESHOLDS = [4, 3, 2, 1];
+
+// Relative weight of a match in each field
+const FIELD_WEIGHTS = { name: 3, category: 2, description: 1 };
+
+// Score of each kind of match, before the field weight
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.8;
+const FUZZY_MATCH = 0.6;
+
+// Bonus when the whole query appears as-is in the name
+const PHRASE_BONUS = 2;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'by', 'for', 'from', 'in',
+  'is', 'it', 'of', 'on', 'or', 'the', 'to', 'with', 'your'
+]);
+
+// ── Text processing ─────────────────────────────────────────
+
+/** Lower-case words without accents, punctuation or stop words */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word && !STOP_WORDS.has(word));
+}
+
+/**
+ * Reduce a word to a rough stem — plurals and -ing/-ed
+ * endings only. Not a full Porter stemmer, but the same
+ * input always gives the same stem, which is all matching
+ * needs.
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /^\d+$/.test(word)) return word;
+
+  let result = word;
+  if (result.endsWith('sses')) result = result.slice(0, -2);
+  else if (result.endsWith('ies')) result = result.slice(0, -3) + 'y';
+  else if (/(ch|sh|x|z)es$/.test(result)) result = result.slice(0, -2);
+  else if (/[^su]s$/.test(result)) result = result.slice(0, -1);
+
+  if (result.endsWith('ing') && result.length > 5) result = result.slice(0, -3);
+  else if (result.endsWith('ed') && result.length > 4) result = result.slice(0, -2);
+  else return result;
+
+  // "running" → "runn" → "run"
+  return /([^aeiouls])\1$/.test(result) ? result.slice(0, -1) : result;
+}
+
+/** Tokenize and stem */
+export function terms(text: string): string[] {
+  return tokenize(text).map(stem);
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions
+ * and swaps of neighbouring letters. Gives up (returns
+ * max + 1) once the distance must exceed `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previous2 = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Typos allowed for a query term of this length */
+function allowedTypos(term: string): number {
+  if (term.length >= 8) return 2;
+  if (term.length >= 4) return 1;
+  return 0;
+}
+
+/** How well one query term matches a field's terms (0 = not at all) */
+function matchQuality(query: string, fieldTerms: string[]): number {
+  let best = 0;
+  const typos = allowedTypos(query);
+  for (const term of fieldTerms) {
+    if (term === query) return EXACT_MATCH;
+    if (query.length >= 3 && term.startsWith(query)) {
+      best = Math.max(best, PREFIX_MATCH);
+    } else if (typos > 0 && best < FUZZY_MATCH) {
+      const distance = editDistance(query, term, typos);
+      if (distance <= typos) best = Math.max(best, FUZZY_MATCH - 0.1 * (distance - 1));
+    }
+  }
+  return best;
+}
+
+// ── Search ──────────────────────────────────────────────────
+
+/**
+ * Products matching every word of the query, best first
+ * (ties go to the higher-rated product). An empty query
+ * matches everything with score 0, in the original order.
+ */
+export function searchProducts(products: Product[], query: string): SearchHit[] {
+  const queryTerms = [...new Set(terms(query))];
+  if (queryTerms.length === 0) return products.map(product => ({ product, score: 0 }));
+
+  const phrase = query.trim().toLowerCase();
+  const hits: SearchHit[] = [];
+  for (const product of products) {
+    const fields = {
+      name: terms(product.name),
+      category: terms(product.category),
+      description: terms(product.description)
+    };
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const best = Math.max(...(Object.keys(FIELD_WEIGHTS) as (keyof typeof FIELD_WEIGHTS)[])
+        .map(field => FIELD_WEIGHTS[field] * matchQuality(term, fields[field])));
+      if (best === 0) {
+        score = 0;
+        break;
+      }
+      score += best;
+    }
+    if (score === 0) continue;
+
+    if (product.name.toLowerCase().includes(phrase)) score += PHRASE_BONUS;
+    hits.push({ product, score });
+  }
+
+  return hits.sort((a, b) => b.score - a.score || b.product.rating - a.product.rating);
+}
+
+// ── Facets ──────────────────────────────────────────────────
+
+/** The band a price falls in */
+export function priceBandOf(price: number): PriceBand {
+  return PRICE_BANDS.find(band => price >= band.min && (band.max === null || price < band.max))!;
+}
+
+/** The filters a facet can narrow */
+export type FacetFilters = Pick<ProductQuery, 'category' | 'minPrice' | 'maxPrice' | 'minRating'>;
+
+/**
+ * True if the product passes every filter except the one
+ * skipped. Like the price bands, minPrice is inclusive and
+ * maxPrice exclusive.
+ */
+export function matchesFilters(product: Product, filters: FacetFilters, skip?: 'category' | 'price' | 'rating'): boolean {
+  if (skip !== 'category' && filters.category && product.category.toLowerCase() !== filters.category.toLowerCase()) {
+    return false;
+  }
+  if (skip !== 'price') {
+    if (filters.minPrice != null && product.price < filters.minPrice) return false;
+    if (filters.maxPrice != null && product.price >= filters.maxPrice) return false;
+  }
+  return skip === 'rating' || !filters.minRating || product.rating >= filters.minRating;
+}
+
+/**
+ * Facet counts for the products matching a query. Each facet
+ * applies the other facets' filters but not its own.
+ */
+export function computeFacets(products: Product[], filters: FacetFilters = {}): SearchFacets {
+  const forCategories = products.filter(p => matchesFilters(p, filters, 'category'));
+  const forPrices = products.filter(p => matchesFilters(p, filters, 'price'));
+  const forRatings = products.filter(p => matchesFilters(p, filters, 'rating'));
+
+  const categoryCounts = new Map<string, number>();
+  forCategories.forEach(p => categoryCounts.set(p.category, (categoryCounts.get(p.category) ?? 0) + 1));
+
+  return {
+    categories: [...categoryCounts.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([category, count]) => ({ value: category, label: category, count })),
+    priceBands: PRICE_BANDS.map(band => ({
+      value: band.value,
+      label: band.label,
+      count: forPrices.filter(p => priceBandOf(p.price) === band).length
+    })),
+    ratings: RATING_THRESHOLDS.map(stars => ({
+      value: String(stars),
+      label: `${stars}★ & up`,
+      count: forRatings.filter(p => p.rating >= stars).length
+    }))
+  };
+}
+
+// ── Listing ─────────────────────────────────────────────────
+
+/** Largest page listProducts() returns (matches the backend cap) */
+export const MAX_PAGE_SIZE = 100;
+
+/** Best rated first; more reviews break ties */
+export function byRating(a: Product, b: Product): number {
+  return b.rating - a.rating || (b.ratingCount ?? 0) - (a.ratingCount ?? 0);
+}
+
+/** Newest first — products without a date fall back to the highest id */
+function byNewest(a: Product, b: Product): number {
+  return (b.created_at ?? '').localeCompare(a.created_at ?? '') || b.id - a.id;
+}
+
+// Comparators for the listing sorts. 'relevance' keeps the
+// order the search ranked them in (Array.sort is stable).
+const PRODUCT_SORTS: Record<ProductSort, (a: Product, b: Product) => number> = {
+  'relevance': () => 0,
+  'price-asc': (a, b) => a.price - b.price,
+  'price-desc': (a, b) => b.price - a.price,
+  'rating': byRating,
+  'newest': byNewest
+};
+
+/**
+ * One page of the storefront listing. With a search term,
+ * results are ranked by relevance. Facet counts cover every
+ * match, not just this page; in-stock-only applies to them too.
+ */
+export function listProducts(products: Product[], query: ProductQuery = {}): ProductResponse {
+  const available = products.filter(p => !p.disabled && (!query.inStock || p.stock > 0));
+  const matches = searchProducts(available, query.search ?? '').map(hit => hit.product);
+  const filters = {
+    category: query.category,
+    minPrice: query.minPrice,
+    maxPrice: query.maxPrice,
+    minRating: query.minRating
+  };
+  const facets = computeFacets(matches, filters);
+
+  const result = matches
+    .filter(p => matchesFilters(p, filters))
+    .sort(PRODUCT_SORTS[query.sort ?? 'relevance']);
+
+  // Same paging rules as GET /api/products
+  const total = result.length;
+  const page = Math.max(1, Math.floor(query.page || 1));
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(query.limit || 50)));
+  const offset = (page - 1) * limit;
+  const paged = result.slice(offset, offset + limit);
+
+  return { products: paged, total, page, totalPages: Math.ceil(total / limit), facets };
+}
@@ -0,0 +1,61 @@
+import { Product, ProductVariant } from '../product.model';
+import {
+  buildVariantMatrix,
+  findVariant,
+  isValueAvailable,
+  moveStock,
+  optionCombinations,
+  priceRange,
+  variantLabel
+} from './product-variants';
+
+describe('product variants', () => {
+  const variant = (id: number, size: string, color: string, stock: number, price?: number): ProductVariant => ({
+    id, sku: `TEE-${size}-${color}`.toUpperCase(), options: { Size: size, Color: color }, stock, price
+  });
+
+  const tee: Product = {
+    id: 1, name: 'Tee', description: '', price: 20, image: '', category: 'Clothing', rating: 0, stock: 6,
+    options: [{ name: 'Size', values: ['S', 'M'] }, { name: 'Color', values: ['Red', 'Blue'] }],
+    variants: [variant(1, 'S', 'Red', 2), variant(2, 'S', 'Blue', 0), variant(3, 'M', 'Red', 0), variant(4, 'M', 'Blue', 4, 25)]
+  };
+
+  it('should list every combination of the axes', () => {
+    expect(optionCombinations(tee.options!)).toEqual([
+      { Size: 'S', Color: 'Red' }, { Size: 'S', Color: 'Blue' },
+      { Size: 'M', Color: 'Red' }, { Size: 'M', Color: 'Blue' }
+    ]);
+  });
+
+  it('should keep existing rows when an axis gains a value', () => {
+    const options = [{ name: 'Size', values: ['S', 'M', 'L'] }, { name: 'Color', values: ['Red', 'Blue'] }];
+    const matrix = buildVariantMatrix(options, tee.variants!, 'Tee');
+    expect(matrix.length).toBe(6);
+    expect(matrix[3]).toBe(tee.variants![3]);
+    expect(matrix[4]).toEqual({ id: 5, sku: 'TEE-L-RED', options: { Size: 'L', Color: 'Red' }, stock: 0 });
+  });
+
+  it('should find the variant for a full selection only', () => {
+    expect(findVariant(tee, { Size: 'M', Color: 'Blue' })?.id).toBe(4);
+    expect(findVariant(tee, { Size: 'M' })).toBeUndefined();
+    expect(variantLabel(tee.variants![3])).toBe('Size: M, Color: Blue');
+  });
+
+  it('should mark values that cannot lead to stock', () => {
+    expect(isValueAvailable(tee, {}, 'Size', 'M')).toBeTrue();
+    expect(isValueAvailable(tee, { Color: 'Red' }, 'Size', 'M')).toBeFalse();
+    expect(isValueAvailable(tee, { Size: 'S' }, 'Color', 'Blue')).toBeFalse();
+  });
+
+  it('should move a variant\'s stock and the product total together', () => {
+    const sold = moveStock(tee, -3, 4)!;
+    expect(sold.variants![3].stock).toBe(1);
+    expect(sold.stock).toBe(3);
+    expect(moveStock(tee, -1, 2)).toBeNull();
+    expect(moveStock(tee, -1, 99)).toBeNull();
+  });
+
+  it('should report the price range across variants', () => {
+    expect(priceRange(tee)).toEqual({ min: 20, max: 25 });
+  });
+});
@@ -0,0 +1,131 @@
+// ============================================================
+// PRODUCT VARIANTS — Option axes and their combinations
+// ============================================================
+// CONCEPTS:
+//
+// 1. Options and variants
+//    A product can have option axes (Size: S, M, L; Color:
+//    Blue, Black). Each combination is a variant with its own
+//    SKU and stock, and optionally its own price and image.
+//    The product's `stock` is then the sum of its variants'
+//    stock — withVariantStock() keeps the two in step.
+//
+// 2. Building the matrix
+//    buildVariantMatrix() returns one variant per combination,
+//    keeping the SKU, price, stock and image of combinations
+//    that already existed, so adding a color doesn't wipe the
+//    sizes already filled in.
+//
+// 3. Picking
+//    findVariant() resolves a full selection; isValueAvailable()
+//    tells the pickers which values still lead to an in-stock
+//    variant given the other choices.
+// ============================================================
+
+import { Product, ProductOption, ProductVariant } from '../product.model';
+
+/** A choice of one value per option axis: { Size: 'M', Color: 'Blue' } */
+export type VariantSelection = Record<string, string>;
+
+/** True if the product is sold in variants */
+export function hasVariants(product: Pick<Product, 'variants'>): boolean {
+  return (product.variants?.length ?? 0) > 0;
+}
+
+/** "Size: M, Color: Blue" */
+export function variantLabel(variant: Pick<ProductVariant, 'options'>): string {
+  return Object.entries(variant.options).map(([option, value]) => `${option}: ${value}`).join(', ');
+}
+
+/** Price of a variant, or the product's when it doesn't override it */
+export function variantPrice(product: Pick<Product, 'price'>, variant?: ProductVariant): number {
+  return variant?.price ?? product.price;
+}
+
+/** Lowest and highest price across a product's variants */
+export function priceRange(product: Product): { min: number; max: number } {
+  const prices = hasVariants(product)
+    ? product.variants!.map(v => variantPrice(product, v))
+    : [product.price];
+  return { min: Math.min(...prices), max: Math.max(...prices) };
+}
+
+/** The product with `stock` set to the sum of its variants' stock */
+export function withVariantStock<T extends Partial<Product>>(product: T): T {
+  if (!product.variants?.length) return product;
+  return { ...product, stock: product.variants.reduce((sum, v) => sum + v.stock, 0) };
+}
+
+/**
+ * The product after `quantity` units of a variant (or of the
+ * product itself) leave (negative) or return to (positive)
+ * the shelf. Null if that would take stock below zero or the
+ * variant doesn't exist.
+ */
+export function moveStock(product: Product, quantity: number, variantId?: number): Product | null {
+  if (variantId == null || !hasVariants(product)) {
+    return product.stock + quantity < 0 ? null : { ...product, stock: product.stock + quantity };
+  }
+  const variant = product.variants!.find(v => v.id === variantId);
+  if (!variant || variant.stock + quantity < 0) return null;
+  return withVariantStock({
+    ...product,
+    variants: product.variants!.map(v => v.id === variantId ? { ...v, stock: v.stock + quantity } : v)
+  });
+}
+
+// ── Matrix ──────────────────────────────────────────────────
+
+/** Every combination of the axes' values, first axis varying slowest */
+export function optionCombinations(options: ProductOption[]): VariantSelection[] {
+  const axes = options.filter(o => o.name.trim() && o.values.length > 0);
+  if (axes.length === 0) return [];
+  return axes.reduce<VariantSelection[]>(
+    (combos, axis) => combos.flatMap(combo => axis.values.map(value => ({ ...combo, [axis.name]: value }))),
+    [{}]
+  );
+}
+
+/** "DENIM-M-BLUE" */
+export function defaultSku(prefix: string, selection: VariantSelection): string {
+  return [prefix, ...Object.values(selection)]
+    .map(part => part.toUpperCase().replace(/[^A-Z0-9]+/g, ''))
+    .filter(Boolean)
+    .join('-');
+}
+
+/**
+ * One variant per combination of the axes. Combinations that
+ * already had a variant keep it; new ones get a fresh ID, a
+ * default SKU and no stock.
+ */
+export function buildVariantMatrix(options: ProductOption[], existing: ProductVariant[], skuPrefix: string): ProductVariant[] {
+  let nextId = existing.reduce((max, v) => Math.max(max, v.id), 0) + 1;
+  return optionCombinations(options).map(selection =>
+    existing.find(v => sameSelection(v.options, selection))
+      ?? { id: nextId++, sku: defaultSku(skuPrefix, selection), options: selection, stock: 0 }
+  );
+}
+
+function sameSelection(a: VariantSelection, b: VariantSelection): boolean {
+  const keys = Object.keys(b);
+  return Object.keys(a).length === keys.length && keys.every(key => a[key] === b[key]);
+}
+
+// ── Picking ─────────────────────────────────────────────────
+
+/** The variant matching a selection of every axis */
+export function findVariant(product: Product, selection: VariantSelection): ProductVariant | undefined {
+  return product.variants?.find(v => sameSelection(v.options, selection));
+}
+
+/**
+ * True if choosing `value` for `option` — keeping the other
+ * axes already chosen — can still lead to a variant in stock.
+ */
+export function isValueAvailable(product: Product, selection: VariantSelection, option: string, value: string): boolean {
+  const wanted = { ...selection, [option]: value };
+  return (product.variants ?? []).some(v =>
+    v.stock > 0 && Object.entries(wanted).every(([name, chosen]) => v.options[name] === chosen)
+  );
+}
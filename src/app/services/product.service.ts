@@ -1,10 +1,18 @@
-import { Injectable } from '@angular/core';
-import { Observable, of, throwError } from 'rxjs';
-import { Product, ProductResponse } from '../product.model';
+import { Inject, Injectable, InjectionToken, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, map, switchMap, tap } from 'rxjs';
+import { Product, ProductQuery, ProductResponse, RatingSummary } from '../product.model';
+import { environment } from '../environments/environment';
+import { HttpMapper } from '../repositories/http.repository';
+import { HttpProductRepository, InMemoryProductRepository, ProductRepository } from '../repositories/product.repository';
+import { byRating, searchProducts } from './product-search';
+import { withVariantStock } from './product-variants';
 
 // ── Fake product data ─────────────────────────────────────────
-// Stored in memory. All CRUD operations modify this array.
-// Changes persist until the page is refreshed.
+// Seeds the in-memory repository. All CRUD operations modify
+// that store. Changes persist until the page is refreshed.
+// Ratings match the approved seed reviews in ReviewService,
+// which keeps them up to date from then on.
 const FAKE_PRODUCTS: Product[] = [
   {
     id: 1,
@@ -13,8 +21,11 @@ const FAKE_PRODUCTS: Product[] = [
     price: 79.99,
     image: 'https://picsum.photos/seed/headphones/400/400',
     category: 'Electronics',
-    rating: 4.5,
-    stock: 15
+    rating: 4.3,
+    ratingCount: 3,
+    ratingHistogram: [0, 0, 0, 2, 1],
+    stock: 15,
+    weight: 0.8
   },
   {
     id: 2,
@@ -23,8 +34,11 @@ const FAKE_PRODUCTS: Product[] = [
     price: 199.99,
     image: 'https://picsum.photos/seed/smartwatch/400/400',
     category: 'Electronics',
-    rating: 4.2,
-    stock: 8
+    rating: 4.5,
+    ratingCount: 2,
+    ratingHistogram: [0, 0, 0, 1, 1],
+    stock: 8,
+    weight: 0.3
   },
   {
     id: 3,
@@ -33,8 +47,11 @@ const FAKE_PRODUCTS: Product[] = [
     price: 49.99,
     image: 'https://picsum.photos/seed/speaker/400/400',
     category: 'Electronics',
-    rating: 4.0,
-    stock: 22
+    rating: 5.0,
+    ratingCount: 1,
+    ratingHistogram: [0, 0, 0, 0, 1],
+    stock: 22,
+    weight: 1.2
   },
   {
     id: 4,
@@ -43,8 +60,25 @@ const FAKE_PRODUCTS: Product[] = [
     price: 89.99,
     image: 'https://picsum.photos/seed/denim-jacket/400/400',
     category: 'Clothing',
-    rating: 4.7,
-    stock: 12
+    rating: 4.0,
+    ratingCount: 2,
+    ratingHistogram: [0, 0, 1, 0, 1],
+    stock: 12,
+    weight: 2,
+    options: [
+      { name: 'Size', values: ['S', 'M', 'L', 'XL'] },
+      { name: 'Color', values: ['Blue', 'Black'] }
+    ],
+    variants: [
+      { id: 1, sku: 'DENIM-S-BLUE', options: { Size: 'S', Color: 'Blue' }, stock: 1 },
+      { id: 2, sku: 'DENIM-S-BLACK', options: { Size: 'S', Color: 'Black' }, stock: 0, image: 'https://picsum.photos/seed/denim-jacket-black/400/400' },
+      { id: 3, sku: 'DENIM-M-BLUE', options: { Size: 'M', Color: 'Blue' }, stock: 3 },
+      { id: 4, sku: 'DENIM-M-BLACK', options: { Size: 'M', Color: 'Black' }, stock: 2, image: 'https://picsum.photos/seed/denim-jacket-black/400/400' },
+      { id: 5, sku: 'DENIM-L-BLUE', options: { Size: 'L', Color: 'Blue' }, stock: 2 },
+      { id: 6, sku: 'DENIM-L-BLACK', options: { Size: 'L', Color: 'Black' }, stock: 2, image: 'https://picsum.photos/seed/denim-jacket-black/400/400' },
+      { id: 7, sku: 'DENIM-XL-BLUE', options: { Size: 'XL', Color: 'Blue' }, price: 94.99, stock: 1 },
+      { id: 8, sku: 'DENIM-XL-BLACK', options: { Size: 'XL', Color: 'Black' }, price: 94.99, stock: 1, image: 'https://picsum.photos/seed/denim-jacket-black/400/400' }
+    ]
   },
   {
     id: 5,
@@ -53,8 +87,19 @@ const FAKE_PRODUCTS: Product[] = [
     price: 129.99,
     image: 'https://picsum.photos/seed/sneakers/400/400',
     category: 'Clothing',
-    rating: 4.6,
-    stock: 18
+    rating: 5.0,
+    ratingCount: 1,
+    ratingHistogram: [0, 0, 0, 0, 1],
+    stock: 18,
+    weight: 2.2,
+    options: [{ name: 'Size', values: ['8', '9', '10', '11', '12'] }],
+    variants: [
+      { id: 1, sku: 'SNEAKER-8', options: { Size: '8' }, stock: 3 },
+      { id: 2, sku: 'SNEAKER-9', options: { Size: '9' }, stock: 5 },
+      { id: 3, sku: 'SNEAKER-10', options: { Size: '10' }, stock: 5 },
+      { id: 4, sku: 'SNEAKER-11', options: { Size: '11' }, stock: 4 },
+      { id: 5, sku: 'SNEAKER-12', options: { Size: '12' }, stock: 1 }
+    ]
   },
   {
     id: 6,
@@ -63,8 +108,11 @@ const FAKE_PRODUCTS: Product[] = [
     price: 159.99,
     image: 'https://picsum.photos/seed/overcoat/400/400',
     category: 'Clothing',
-    rating: 4.3,
-    stock: 5
+    rating: 0.0,
+    ratingCount: 0,
+    ratingHistogram: [0, 0, 0, 0, 0],
+    stock: 5,
+    weight: 3.5
   },
   {
     id: 7,
@@ -73,8 +121,11 @@ const FAKE_PRODUCTS: Product[] = [
     price: 34.99,
     image: 'https://picsum.photos/seed/coding-book/400/400',
     category: 'Books',
-    rating: 4.8,
-    stock: 30
+    rating: 4.5,
+    ratingCount: 2,
+    ratingHistogram: [0, 0, 0, 1, 1],
+    stock: 30,
+    weight: 1.4
   },
   {
     id: 8,
@@ -83,8 +134,11 @@ const FAKE_PRODUCTS: Product[] = [
     price: 44.99,
     image: 'https://picsum.photos/seed/js-book/400/400',
     category: 'Books',
-    rating: 4.9,
-    stock: 25
+    rating: 0.0,
+    ratingCount: 0,
+    ratingHistogram: [0, 0, 0, 0, 0],
+    stock: 25,
+    weight: 1.6
   },
   {
     id: 9,
@@ -93,8 +147,11 @@ const FAKE_PRODUCTS: Product[] = [
     price: 39.99,
     image: 'https://picsum.photos/seed/patterns-book/400/400',
     category: 'Books',
-    rating: 4.4,
-    stock: 20
+    rating: 0.0,
+    ratingCount: 0,
+    ratingHistogram: [0, 0, 0, 0, 0],
+    stock: 20,
+    weight: 1.5
   },
   {
     id: 10,
@@ -103,8 +160,11 @@ const FAKE_PRODUCTS: Product[] = [
     price: 29.99,
     image: 'https://picsum.photos/seed/plant-pots/400/400',
     category: 'Home',
-    rating: 4.1,
-    stock: 35
+    rating: 0.0,
+    ratingCount: 0,
+    ratingHistogram: [0, 0, 0, 0, 0],
+    stock: 35,
+    weight: 6
   },
   {
     id: 11,
@@ -113,8 +173,11 @@ const FAKE_PRODUCTS: Product[] = [
     price: 54.99,
     image: 'https://picsum.photos/seed/desk-lamp/400/400',
     category: 'Home',
-    rating: 4.3,
-    stock: 14
+    rating: 0.0,
+    ratingCount: 0,
+    ratingHistogram: [0, 0, 0, 0, 0],
+    stock: 14,
+    weight: 3
   },
   {
     id: 12,
@@ -123,131 +186,181 @@ const FAKE_PRODUCTS: Product[] = [
     price: 24.99,
     image: 'https://picsum.photos/seed/candles/400/400',
     category: 'Home',
-    rating: 4.6,
-    stock: 40
+    rating: 0.0,
+    ratingCount: 0,
+    ratingHistogram: [0, 0, 0, 0, 0],
+    stock: 40,
+    weight: 2.5
   }
 ];
 
+// ── API row mapping ───────────────────────────────────────────
+// Postgres returns DECIMAL columns as strings and has no
+// `disabled` column, so normalise rows into Product.
+export const PRODUCT_MAPPER: HttpMapper<Product> = {
+  fromApi: row => ({
+    ...row,
+    price: Number(row.price),
+    rating: Number(row.rating),
+    ratingCount: Number(row.rating_count ?? row.ratingCount ?? 0),
+    ratingHistogram: (row.rating_histogram ?? row.ratingHistogram ?? [0, 0, 0, 0, 0]).map(Number),
+    stock: Number(row.stock),
+    weight: row.weight != null ? Number(row.weight) : undefined,
+    options: row.options ?? [],
+    variants: (row.variants ?? []).map((v: any) => ({
+      ...v,
+      price: v.price != null ? Number(v.price) : undefined,
+      image: v.image || undefined,
+      stock: Number(v.stock)
+    })),
+    disabled: !!row.disabled
+  }),
+  toApi: product => product
+};
+
+/** Repository behind ProductService — memory or HTTP per environment.dataSources */
+export const PRODUCT_REPOSITORY = new InjectionToken<ProductRepository>('PRODUCT_REPOSITORY', {
+  providedIn: 'root',
+  factory: () => environment.dataSources.products === 'http'
+    ? new HttpProductRepository(inject(HttpClient), `${environment.apiUrl}/products`, PRODUCT_MAPPER)
+    : new InMemoryProductRepository(FAKE_PRODUCTS.map(p => ({ ...p, disabled: false })))
+});
+
 @Injectable({
   providedIn: 'root'
 })
 export class ProductService {
 
-  private products: Product[] = FAKE_PRODUCTS.map(p => ({ ...p, disabled: false }));
-  private nextId = 13;
+  // Last snapshot read from the repository. Backs the
+  // synchronous helpers (e.g. getAvailableStock).
+  private products: Product[] = [];
 
-  // ─── STOREFRONT METHODS ─────────────────────────────────────
-  // These filter out disabled products.
-
-  getProducts(params?: { search?: string; category?: string; page?: number; limit?: number }): Observable<ProductResponse> {
-    let result = this.products.filter(p => !p.disabled);
+  constructor(@Inject(PRODUCT_REPOSITORY) private repository: ProductRepository) {
+    this.reload().subscribe({ error: () => {} });
+  }
 
-    if (params?.category) {
-      result = result.filter(p => p.category.toLowerCase() === params.category!.toLowerCase());
-    }
-    if (params?.search) {
-      const term = params.search.toLowerCase();
-      result = result.filter(p =>
-        p.name.toLowerCase().includes(term) ||
-        p.description.toLowerCase().includes(term)
-      );
-    }
+  /** Re-read every product (e.g. after an order moved stock) */
+  reload(): Observable<Product[]> {
+    return this.repository.findAll().pipe(
+      tap(products => this.products = products)
+    );
+  }
 
-    const total = result.length;
-    const page = params?.page || 1;
-    const limit = params?.limit || 50;
-    const offset = (page - 1) * limit;
-    const paged = result.slice(offset, offset + limit);
+  // ─── STOREFRONT METHODS ─────────────────────────────────────
+  // These filter out disabled products.
 
-    return of({ products: paged, total, page, totalPages: Math.ceil(total / limit) });
+  /**
+   * Search, filter, sort and page the catalog. Over HTTP only
+   * the requested page is fetched; see listProducts() for the
+   * rules both repositories follow.
+   */
+  getProducts(params?: ProductQuery): Observable<ProductResponse> {
+    return this.repository.findPage(params ?? {});
   }
 
   getAllProducts(): Observable<Product[]> {
-    return of(this.products.filter(p => !p.disabled));
+    return this.reload().pipe(map(products => products.filter(p => !p.disabled)));
   }
 
   getProductById(id: number): Observable<Product> {
-    const product = this.products.find(p => p.id === id);
-    if (!product) {
-      return throwError(() => ({ status: 404, error: 'Product not found' }));
-    }
-    return of({ ...product });
+    return this.repository.findById(id);
   }
 
   getProductsByCategory(category: string): Observable<Product[]> {
-    return of(
-      this.products.filter(p => !p.disabled && p.category.toLowerCase() === category.toLowerCase())
-    );
+    return this.reload().pipe(map(products =>
+      products.filter(p => !p.disabled && p.category.toLowerCase() === category.toLowerCase())
+    ));
   }
 
+  /** Products matching a search, most relevant first */
   searchProducts(term: string): Observable<Product[]> {
-    const lower = term.toLowerCase();
-    return of(
-      this.products.filter(p =>
-        !p.disabled &&
-        (p.name.toLowerCase().includes(lower) || p.description.toLowerCase().includes(lower))
-      )
-    );
+    return this.reload().pipe(map(products =>
+      searchProducts(products.filter(p => !p.disabled), term).map(hit => hit.product)
+    ));
   }
 
   getCategories(): Observable<string[]> {
-    const cats = [...new Set(this.products.filter(p => !p.disabled).map(p => p.category))];
-    return of(cats.sort());
+    return this.reload().pipe(map(products =>
+      [...new Set(products.filter(p => !p.disabled).map(p => p.category))].sort()
+    ));
   }
 
   getFeaturedProducts(): Observable<Product[]> {
-    return of(
-      this.products.filter(p => !p.disabled).sort((a, b) => b.rating - a.rating).slice(0, 4)
-    );
+    return this.reload().pipe(map(products =>
+      products.filter(p => !p.disabled).sort(byRating).slice(0, 4)
+    ));
+  }
+
+  // ─── INVENTORY METHODS ──────────────────────────────────────
+  // Stock is checked when adding to the cart. The order
+  // repository reserves it when an order is placed.
+
+  /** Units currently available for a product or one of its variants (0 if unknown or disabled) */
+  getAvailableStock(id: number, variantId?: number): number {
+    const product = this.products.find(p => p.id === id);
+    if (!product || product.disabled) return 0;
+    if (variantId == null) return product.stock;
+    return product.variants?.find(v => v.id === variantId)?.stock ?? 0;
   }
 
   // ─── ADMIN METHODS ──────────────────────────────────────────
 
   /** Get ALL products including disabled (for admin table) */
   getAllProductsAdmin(): Observable<Product[]> {
-    return of([...this.products]);
+    return this.reload();
   }
 
   createProduct(product: Partial<Product>): Observable<Product> {
-    const newProduct: Product = {
-      id: this.nextId++,
+    return this.repository.create(withVariantStock({
       name: product.name || '',
       description: product.description || '',
       price: product.price || 0,
       image: product.image || 'https://picsum.photos/seed/new-product/400/400',
       category: product.category || 'Uncategorized',
-      rating: product.rating || 0,
+      rating: 0,                  // No reviews yet
+      ratingCount: 0,
+      ratingHistogram: [0, 0, 0, 0, 0],
       stock: product.stock || 0,
-      disabled: product.disabled || false
-    };
-    this.products.push(newProduct);
-    return of(newProduct);
+      weight: product.weight,
+      options: product.options ?? [],
+      variants: product.variants ?? [],
+      disabled: product.disabled || false,
+      created_at: new Date().toISOString()
+    })).pipe(
+      tap(created => this.products.push(created))
+    );
   }
 
+  /** Store a product's review aggregate (ReviewService calls this whenever approved reviews change) */
+  updateRating(id: number, summary: RatingSummary): Observable<Product> {
+    return this.repository.updateRating(id, summary).pipe(
+      tap(updated => this.replaceCached(updated))
+    );
+  }
+
+  /** Patch a product — sending variants also recomputes its stock */
   updateProduct(id: number, updates: Partial<Product>): Observable<Product> {
-    const index = this.products.findIndex(p => p.id === id);
-    if (index === -1) {
-      return throwError(() => ({ status: 404, error: 'Product not found' }));
-    }
-    this.products[index] = { ...this.products[index], ...updates };
-    return of(this.products[index]);
+    return this.repository.patch(id, withVariantStock(updates)).pipe(
+      tap(updated => this.replaceCached(updated))
+    );
   }
 
   deleteProduct(id: number): Observable<{ message: string }> {
-    const index = this.products.findIndex(p => p.id === id);
-    if (index === -1) {
-      return throwError(() => ({ status: 404, error: 'Product not found' }));
-    }
-    this.products.splice(index, 1);
-    return of({ message: 'Product deleted successfully.' });
+    return this.repository.delete(id).pipe(
+      tap(() => this.products = this.products.filter(p => p.id !== id)),
+      map(() => ({ message: 'Product deleted successfully.' }))
+    );
   }
 
   toggleDisabled(id: number): Observable<Product> {
-    const index = this.products.findIndex(p => p.id === id);
-    if (index === -1) {
-      return throwError(() => ({ status: 404, error: 'Product not found' }));
-    }
-    this.products[index].disabled = !this.products[index].disabled;
-    return of(this.products[index]);
+    return this.repository.findById(id).pipe(
+      switchMap(product => this.repository.update({ ...product, disabled: !product.disabled })),
+      tap(updated => this.replaceCached(updated))
+    );
+  }
+
+  private replaceCached(product: Product): void {
+    const index = this.products.findIndex(p => p.id === product.id);
+    if (index !== -1) this.products[index] = product;
   }
 }
@@ -0,0 +1,117 @@
+import { TestBed } from '@angular/core/testing';
+import { inject } from '@angular/core';
+import { HttpClient, provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+
+import { ReviewService, summarizeRatings } from './review.service';
+import { PRODUCT_MAPPER, PRODUCT_REPOSITORY } from './product.service';
+import { HttpProductRepository } from '../repositories/product.repository';
+import { Review } from '../product.model';
+import { environment } from '../environments/environment';
+
+describe('summarizeRatings', () => {
+  const review = (rating: number, status: Review['status'] = 'approved'): Review => ({
+    id: rating, productId: 1, userId: 1, userName: 'Test', rating,
+    title: '', comment: '', createdAt: '', helpful: 0, status
+  });
+
+  it('should count only approved reviews', () => {
+    const summary = summarizeRatings([review(5), review(4), review(1, 'pending'), review(2, 'rejected')]);
+    expect(summary).toEqual({ average: 4.5, count: 2, histogram: [0, 0, 0, 1, 1] });
+  });
+
+  it('should report zero for a product without approved reviews', () => {
+    expect(summarizeRatings([review(3, 'pending')])).toEqual({ average: 0, count: 0, histogram: [0, 0, 0, 0, 0] });
+  });
+});
+
+describe('ReviewService', () => {
+  let service: ReviewService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ReviewService);
+  });
+
+  it('should send an edited review back to moderation', () => {
+    let edited: Review | undefined;
+    service.editReview(1, 998, { rating: 4, title: 'Still great', comment: 'Updated after a month.' })
+      .subscribe(review => edited = review);
+    expect(edited?.status).toBe('pending');
+    expect(edited?.editedAt).toBeDefined();
+  });
+
+  it('should toggle and switch a user\'s helpful vote', () => {
+    let review: Review | undefined;
+    service.vote(2, 998, 'helpful').subscribe(r => review = r);
+    expect(review?.helpful).toBe(4);
+    service.vote(2, 998, 'helpful').subscribe(r => review = r);
+    expect(review?.helpful).toBe(3);
+    service.vote(2, 998, 'helpful').subscribe();
+    service.vote(2, 998, 'unhelpful').subscribe(r => review = r);
+    expect([review?.helpful, review?.unhelpful]).toEqual([3, 1]);
+    expect(review?.votes).toEqual([{ userId: 998, value: 'unhelpful' }]);
+  });
+
+  it('should page approved reviews sorted by rating', () => {
+    let ratings: number[] = [];
+    service.getReviewPage(1, { sort: 'lowest', limit: 2 }).subscribe(page => ratings = page.reviews.map(r => r.rating));
+    expect(ratings).toEqual([4, 4]);
+  });
+
+  it('should not let users edit someone else\'s review', () => {
+    let status: number | undefined;
+    service.editReview(2, 998, { rating: 1, title: 'x', comment: 'x' })
+      .subscribe({ error: err => status = err.status });
+    expect(status).toBe(403);
+  });
+});
+
+describe('ReviewService with products over HTTP', () => {
+  let service: ReviewService;
+  let backend: HttpTestingController;
+  const products = `${environment.apiUrl}/products`;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        {
+          provide: PRODUCT_REPOSITORY,
+          useFactory: () => new HttpProductRepository(inject(HttpClient), products, PRODUCT_MAPPER)
+        }
+      ]
+    });
+    service = TestBed.inject(ReviewService);
+    backend = TestBed.inject(HttpTestingController);
+    backend.match(req => req.method === 'GET');   // ProductService's initial load
+  });
+
+  afterEach(() => backend.verify());
+
+  it('should re-rate through the rating endpoint when an author deletes an approved review', () => {
+    let deleted = false;
+    service.deleteOwnReview(1, 998).subscribe(() => deleted = true);
+
+    const write = backend.expectOne(`${products}/1/rating`);
+    expect(write.request.method).toBe('PUT');
+    expect(write.request.body).toEqual({ histogram: [0, 0, 0, 2, 0] });
+    write.flush({ id: 1, name: 'Headphones', price: '79.99', rating: '4.0', rating_count: 2, stock: 10 });
+    expect(deleted).toBeTrue();
+  });
+
+  it('should pass a rejected rating write on to the caller', () => {
+    let status: number | undefined;
+    service.deleteOwnReview(1, 998).subscribe({ error: err => status = err.status });
+    backend.expectOne(`${products}/1/rating`).flush({ error: 'Access denied.' }, { status: 403, statusText: 'Forbidden' });
+    expect(status).toBe(403);
+  });
+
+  it('should skip the rating of a product deleted since', () => {
+    let deleted = false;
+    service.deleteOwnReview(1, 998).subscribe(() => deleted = true);
+    backend.expectOne(`${products}/1/rating`).flush({ error: 'Product not found.' }, { status: 404, statusText: 'Not Found' });
+    expect(deleted).toBeTrue();
+  });
+});
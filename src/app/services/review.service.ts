@@ -1,25 +1,58 @@
 // ============================================================
-// REVIEW SERVICE — In-memory product reviews
+// REVIEW SERVICE — Product reviews
 // ============================================================
 // ANGULAR CONCEPTS:
 //
 // 1. Seed data with realistic reviews
 //    Multiple reviews per product, spread across users,
-//    with varying ratings to make averages meaningful.
+//    with varying ratings to make averages meaningful. They
+//    seed the in-memory review repository (the default for
+//    environment.dataSources.reviews).
 //
-// 2. Computed average ratings
-//    getAverageRating() computes from approved reviews only,
-//    so pending/rejected reviews don't affect the storefront.
+// 2. One rating aggregate per product
+//    summarizeRatings() turns approved reviews into an average,
+//    count and star histogram. Whenever a review is approved,
+//    rejected or deleted, the product's aggregate is rewritten
+//    through ProductService, so every catalog view (cards,
+//    featured, dashboard) reads the same numbers from Product.
 //
-// 3. Moderation workflow
+// 3. Verified purchases
+//    submitReview() checks the reviewer's orders through
+//    OrderService and flags the review as a verified purchase
+//    when they bought the product. REVIEW_POLICY decides
+//    whether customers who haven't bought it may review at all.
+//
+// 4. Moderation workflow
 //    Reviews start as 'approved' in seed data, but new user
-//    submissions default to 'pending'. Admins can approve
-//    or reject from the admin panel.
+//    submissions start 'pending'. Admins approve or reject
+//    them (singly or in bulk, with a reason for rejections)
+//    from the moderation queue at /admin/reviews. Authors can
+//    edit or delete their own review; an edit sends it back
+//    to 'pending'.
+//
+// 5. Photos and store responses
+//    Photos are read into data URLs by readImageAttachment()
+//    and stored on the review itself. Admins can post one
+//    public response from the store under any review.
+//
+// 6. Helpful votes
+//    Each shopper has at most one vote per review, kept in
+//    review.votes. Voting the same way again withdraws it;
+//    voting the other way switches it. The helpful/unhelpful
+//    counts move with each change, so seeded counts survive.
+//    getReviewPage() sorts by those votes, date or rating.
 // ============================================================
 
-import { Injectable } from '@angular/core';
-import { Observable, of, throwError } from 'rxjs';
-import { Review } from '../product.model';
+import { Inject, Injectable, InjectionToken, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, catchError, forkJoin, map, of, switchMap, tap, throwError } from 'rxjs';
+import { RatingSummary, Review, ReviewPage, ReviewResponse, ReviewSort, ReviewVote } from '../product.model';
+import { environment } from '../environments/environment';
+import { Repository } from '../repositories/repository';
+import { InMemoryRepository } from '../repositories/in-memory.repository';
+import { HttpRepository } from '../repositories/http.repository';
+import { ProductService } from './product.service';
+import { OrderService } from './order.service';
 
 const SEED_REVIEWS: Review[] = [
   // ── Product 1: Wireless Bluetooth Headphones ────────────
@@ -27,7 +60,7 @@ const SEED_REVIEWS: Review[] = [
     id: 1, productId: 1, userId: 998, userName: 'Demo U.',
     rating: 5, title: 'Best headphones I\'ve owned',
     comment: 'Crystal clear sound quality and the battery lasts forever. The noise cancellation is a game changer for my commute.',
-    createdAt: '2025-12-20T14:30:00Z', helpful: 8, status: 'approved'
+    createdAt: '2025-12-20T14:30:00Z', helpful: 8, status: 'approved', verifiedPurchase: true
   },
   {
     id: 2, productId: 1, userId: 100, userName: 'Jane S.',
@@ -69,13 +102,17 @@ const SEED_REVIEWS: Review[] = [
     id: 7, productId: 4, userId: 102, userName: 'Sarah W.',
     rating: 5, title: 'Perfect fit and quality denim',
     comment: 'The fit is exactly as described. The denim is heavy enough to feel premium but not stiff. Already getting compliments.',
-    createdAt: '2026-02-02T13:30:00Z', helpful: 4, status: 'approved'
+    createdAt: '2026-02-02T13:30:00Z', helpful: 4, status: 'approved', verifiedPurchase: true
   },
   {
     id: 8, productId: 4, userId: 101, userName: 'Mark J.',
     rating: 3, title: 'Good jacket, runs small',
     comment: 'Quality is nice but I had to size up. If you\'re between sizes, go with the larger one.',
-    createdAt: '2026-01-20T10:45:00Z', helpful: 7, status: 'approved'
+    createdAt: '2026-01-20T10:45:00Z', helpful: 7, status: 'approved',
+    storeResponse: {
+      text: 'Thanks, Mark! We\'ve added a note to the size guide — this cut runs about half a size small.',
+      respondedAt: '2026-01-21T09:00:00Z'
+    }
   },
 
   // ── Product 7: The Art of Clean Code ────────────────────
@@ -83,7 +120,7 @@ const SEED_REVIEWS: Review[] = [
     id: 9, productId: 7, userId: 101, userName: 'Mark J.',
     rating: 5, title: 'Must-read for developers',
     comment: 'Changed how I think about writing code. Practical examples and clear explanations. Keep it on your desk.',
-    createdAt: '2026-01-25T19:00:00Z', helpful: 15, status: 'approved'
+    createdAt: '2026-01-25T19:00:00Z', helpful: 15, status: 'approved', verifiedPurchase: true
   },
   {
     id: 10, productId: 7, userId: 100, userName: 'Jane S.',
@@ -109,57 +146,195 @@ const SEED_REVIEWS: Review[] = [
   }
 ];
 
+/** Repository behind ReviewService — memory or HTTP per environment.dataSources */
+export const REVIEW_REPOSITORY = new InjectionToken<Repository<Review>>('REVIEW_REPOSITORY', {
+  providedIn: 'root',
+  factory: () => environment.dataSources.reviews === 'http'
+    ? new HttpRepository<Review>(inject(HttpClient), `${environment.apiUrl}/reviews`)
+    : new InMemoryRepository<Review>(SEED_REVIEWS, 'Review')
+});
+
+/** Most photos one review can carry */
+export const MAX_REVIEW_IMAGES = 4;
+
+/** Largest photo accepted, in bytes */
+export const MAX_REVIEW_IMAGE_BYTES = 1024 * 1024;
+
+/** The fields an author writes (and can later edit) */
+export type ReviewContent = Pick<Review, 'rating' | 'title' | 'comment' | 'images'>;
+
+/** Read an image file into a data URL, rejecting other types and oversized files */
+export function readImageAttachment(file: File): Observable<string> {
+  if (!file.type.startsWith('image/')) {
+    return throwError(() => ({ status: 400, error: `${file.name} is not an image.` }));
+  }
+  if (file.size > MAX_REVIEW_IMAGE_BYTES) {
+    return throwError(() => ({ status: 400, error: `${file.name} is larger than 1 MB.` }));
+  }
+  return new Observable<string>(subscriber => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      subscriber.next(reader.result as string);
+      subscriber.complete();
+    };
+    reader.onerror = () => subscriber.error({ status: 400, error: `Could not read ${file.name}.` });
+    reader.readAsDataURL(file);
+    return () => reader.abort();
+  });
+}
+
+/** Check an author's photos before they are stored */
+function invalidImages(images: string[] | undefined): string | null {
+  if (!images) return null;
+  if (images.length > MAX_REVIEW_IMAGES) return `A review can have at most ${MAX_REVIEW_IMAGES} photos.`;
+  if (images.some(src => !src.startsWith('data:image/'))) return 'Photos must be image data URLs.';
+  return null;
+}
+
+/** Store rules for who may review */
+export interface ReviewPolicy {
+  requirePurchase: boolean;     // Only customers who bought the product
+}
+
+/** The review policy — from environment.reviewsRequirePurchase */
+export const REVIEW_POLICY = new InjectionToken<ReviewPolicy>('REVIEW_POLICY', {
+  providedIn: 'root',
+  factory: () => ({ requirePurchase: environment.reviewsRequirePurchase })
+});
+
+/** Average, count and star histogram of the approved reviews given */
+export function summarizeRatings(reviews: Review[]): RatingSummary {
+  const approved = reviews.filter(r => r.status === 'approved');
+  const histogram = [0, 0, 0, 0, 0];
+  approved.forEach(r => histogram[r.rating - 1]++);
+  const average = approved.length === 0
+    ? 0
+    : Math.round((approved.reduce((s, r) => s + r.rating, 0) / approved.length) * 10) / 10;
+  return { average, count: approved.length, histogram };
+}
+
+/** Newest reviews first */
+function byNewest(a: Review, b: Review): number {
+  return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+}
+
+/** Helpful minus not-helpful votes */
+function netHelpful(review: Review): number {
+  return review.helpful - (review.unhelpful ?? 0);
+}
+
+/** Comparator for each sort — ties go to the newest review */
+const REVIEW_SORTS: Record<ReviewSort, (a: Review, b: Review) => number> = {
+  helpful: (a, b) => netHelpful(b) - netHelpful(a) || byNewest(a, b),
+  newest: byNewest,
+  highest: (a, b) => b.rating - a.rating || byNewest(a, b),
+  lowest: (a, b) => a.rating - b.rating || byNewest(a, b)
+};
+
+/** The user's current vote on a review, if any */
+export function userVote(review: Review, userId: number): ReviewVote['value'] | undefined {
+  return review.votes?.find(v => v.userId === userId)?.value;
+}
+
 @Injectable({ providedIn: 'root' })
 export class ReviewService {
 
-  private reviews: Review[] = SEED_REVIEWS.map(r => ({ ...r }));
-  private nextId = 13;
+  // Last snapshot read from the repository. Backs the
+  // synchronous rating and count helpers.
+  private reviews: Review[] = [];
+
+  constructor(
+    @Inject(REVIEW_REPOSITORY) private repository: Repository<Review>,
+    @Inject(REVIEW_POLICY) private policy: ReviewPolicy,
+    private productService: ProductService,
+    private orderService: OrderService
+  ) {
+    this.load().subscribe({ error: () => {} });
+  }
+
+  private load(): Observable<Review[]> {
+    return this.repository.findAll().pipe(
+      tap(reviews => this.reviews = reviews)
+    );
+  }
+
+  private replaceCached(review: Review): void {
+    const index = this.reviews.findIndex(r => r.id === review.id);
+    if (index !== -1) this.reviews[index] = review;
+  }
+
+  /**
+   * Rewrite the rating aggregate of each product from the cache.
+   * A product deleted since is skipped; any other failure
+   * reaches the caller.
+   */
+  private syncRatings(productIds: number[]): Observable<unknown> {
+    const unique = [...new Set(productIds)];
+    if (unique.length === 0) return of(null);
+    return forkJoin(unique.map(id =>
+      this.productService.updateRating(id, this.getRatingSummary(id)).pipe(
+        catchError(err => err?.status === 404 ? of(null) : throwError(() => err))
+      )
+    ));
+  }
 
   // ── Read ──────────────────────────────────────────────────
 
   /** Get approved reviews for a product (storefront) */
   getReviewsByProduct(productId: number): Observable<Review[]> {
-    const result = this.reviews
+    return this.load().pipe(map(reviews => reviews
       .filter(r => r.productId === productId && r.status === 'approved')
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-    return of(result);
+      .sort(byNewest)
+    ));
+  }
+
+  /** One page of a product's approved reviews, sorted, optionally verified purchases only */
+  getReviewPage(
+    productId: number,
+    params?: { sort?: ReviewSort; verifiedOnly?: boolean; page?: number; limit?: number }
+  ): Observable<ReviewPage> {
+    return this.load().pipe(map(reviews => {
+      const result = reviews
+        .filter(r => r.productId === productId && r.status === 'approved')
+        .filter(r => !params?.verifiedOnly || r.verifiedPurchase)
+        .sort(REVIEW_SORTS[params?.sort ?? 'helpful']);
+
+      const total = result.length;
+      const limit = params?.limit || 5;
+      const totalPages = Math.max(1, Math.ceil(total / limit));
+      const page = Math.min(params?.page || 1, totalPages);
+      const offset = (page - 1) * limit;
+
+      return { reviews: result.slice(offset, offset + limit), total, page, totalPages };
+    }));
   }
 
   /** Get ALL reviews for a product (admin — includes pending/rejected) */
   getReviewsByProductAdmin(productId: number): Observable<Review[]> {
-    const result = this.reviews
+    return this.load().pipe(map(reviews => reviews
       .filter(r => r.productId === productId)
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-    return of(result);
+      .sort(byNewest)
+    ));
   }
 
   /** Get all pending reviews across all products (admin moderation queue) */
   getPendingReviews(): Observable<Review[]> {
-    return of(this.reviews.filter(r => r.status === 'pending'));
+    return this.load().pipe(map(reviews => reviews.filter(r => r.status === 'pending')));
   }
 
   /** Get all reviews (admin) */
   getAllReviews(): Observable<Review[]> {
-    return of([...this.reviews].sort((a, b) =>
-      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    ));
+    return this.load().pipe(map(reviews => [...reviews].sort(byNewest)));
   }
 
-  /** Compute average rating from approved reviews for a product */
-  getAverageRating(productId: number): number {
-    const approved = this.reviews.filter(
-      r => r.productId === productId && r.status === 'approved'
-    );
-    if (approved.length === 0) return 0;
-    const sum = approved.reduce((s, r) => s + r.rating, 0);
-    return Math.round((sum / approved.length) * 10) / 10;
+  /** Rating aggregate for a product, from approved reviews */
+  getRatingSummary(productId: number): RatingSummary {
+    return summarizeRatings(this.reviews.filter(r => r.productId === productId));
   }
 
-  /** Get the count of approved reviews for a product */
-  getReviewCount(productId: number): number {
-    return this.reviews.filter(
-      r => r.productId === productId && r.status === 'approved'
-    ).length;
+  /** The user's own review of a product, whatever its status */
+  getUserReview(productId: number, userId: number): Review | undefined {
+    return this.reviews.find(r => r.productId === productId && r.userId === userId);
   }
 
   /** Check if a user has already reviewed a product */
@@ -169,47 +344,152 @@ export class ReviewService {
     );
   }
 
+  /** True when only customers who bought a product may review it */
+  get requiresPurchase(): boolean {
+    return this.policy.requirePurchase;
+  }
+
+  /** Check if a user has bought a product (their review would be verified) */
+  hasPurchased(productId: number, userId: number): Observable<boolean> {
+    return this.orderService.hasPurchased(userId, productId);
+  }
+
   // ── Create ────────────────────────────────────────────────
 
-  /** Submit a new review (starts as 'approved' for demo purposes) */
-  submitReview(review: Omit<Review, 'id' | 'createdAt' | 'helpful' | 'status'>): Observable<Review> {
-    const newReview: Review = {
-      ...review,
-      id: this.nextId++,
-      createdAt: new Date().toISOString(),
-      helpful: 0,
-      status: 'approved'     // Auto-approve for demo — real app would use 'pending'
-    };
-    this.reviews.push(newReview);
-    return of(newReview);
+  /**
+   * Submit a new review — it waits in the moderation queue as
+   * 'pending'. Flagged as a verified purchase when the reviewer
+   * bought the product; rejected with a 403 when the policy
+   * requires a purchase and they haven't.
+   */
+  submitReview(review: Pick<Review, 'productId' | 'userId' | 'userName'> & ReviewContent): Observable<Review> {
+    const imageError = invalidImages(review.images);
+    if (imageError) return throwError(() => ({ status: 400, error: imageError }));
+
+    return this.hasPurchased(review.productId, review.userId).pipe(
+      switchMap(purchased => !purchased && this.policy.requirePurchase
+        ? throwError(() => ({ status: 403, error: 'Only customers who bought this product can review it.' }))
+        : this.repository.create({
+            ...review,
+            createdAt: new Date().toISOString(),
+            helpful: 0,
+            status: 'pending',
+            verifiedPurchase: purchased
+          })
+      ),
+      tap(created => this.reviews.push(created))
+    );
   }
 
   // ── Update ────────────────────────────────────────────────
 
-  /** Mark a review as helpful (increment upvote) */
-  markHelpful(reviewId: number): Observable<Review> {
-    const index = this.reviews.findIndex(r => r.id === reviewId);
-    if (index === -1) return throwError(() => ({ status: 404, error: 'Review not found' }));
-    this.reviews[index] = { ...this.reviews[index], helpful: this.reviews[index].helpful + 1 };
-    return of(this.reviews[index]);
+  /**
+   * Cast, switch or withdraw a user's vote. Repeating the
+   * current vote withdraws it; authors can't vote on their own.
+   */
+  vote(reviewId: number, userId: number, value: ReviewVote['value']): Observable<Review> {
+    return this.repository.findById(reviewId).pipe(
+      switchMap(review => {
+        if (review.userId === userId) {
+          return throwError(() => ({ status: 403, error: 'You can\'t vote on your own review.' }));
+        }
+        const previous = userVote(review, userId);
+        const next = previous === value ? undefined : value;
+        const delta = (v: ReviewVote['value']) => (v === next ? 1 : 0) - (v === previous ? 1 : 0);
+        const others = (review.votes ?? []).filter(v => v.userId !== userId);
+        return this.repository.update({
+          ...review,
+          helpful: review.helpful + delta('helpful'),
+          unhelpful: (review.unhelpful ?? 0) + delta('unhelpful'),
+          votes: next ? [...others, { userId, value: next }] : others
+        });
+      }),
+      tap(updated => this.replaceCached(updated))
+    );
+  }
+
+  /**
+   * Author: change their own review. It goes back to the
+   * moderation queue, so an approved review leaves the
+   * product's rating until it is approved again.
+   */
+  editReview(reviewId: number, userId: number, content: ReviewContent): Observable<Review> {
+    const imageError = invalidImages(content.images);
+    if (imageError) return throwError(() => ({ status: 400, error: imageError }));
+
+    return this.repository.findById(reviewId).pipe(
+      switchMap(review => review.userId !== userId
+        ? throwError(() => ({ status: 403, error: 'You can only edit your own review.' }))
+        : this.repository.update({
+            ...review,
+            ...content,
+            status: 'pending',
+            editedAt: new Date().toISOString(),
+            rejectionReason: undefined,
+            moderatedAt: undefined
+          }).pipe(
+            tap(updated => this.replaceCached(updated)),
+            switchMap(updated => review.status === 'approved'
+              ? this.syncRatings([updated.productId]).pipe(map(() => updated))
+              : of(updated))
+          )
+      )
+    );
   }
 
-  /** Admin: update review status (approve/reject) */
-  updateReviewStatus(reviewId: number, status: Review['status']): Observable<Review> {
-    const index = this.reviews.findIndex(r => r.id === reviewId);
-    if (index === -1) return throwError(() => ({ status: 404, error: 'Review not found' }));
-    this.reviews[index] = { ...this.reviews[index], status };
-    return of(this.reviews[index]);
+  /** Admin: post (or replace) the store's public response — empty text removes it */
+  respondToReview(reviewId: number, text: string): Observable<Review> {
+    const storeResponse: ReviewResponse | undefined = text.trim()
+      ? { text: text.trim(), respondedAt: new Date().toISOString() }
+      : undefined;
+    return this.repository.patch(reviewId, { storeResponse }).pipe(
+      tap(updated => this.replaceCached(updated))
+    );
+  }
+
+  /** Admin: update review status (approve/reject) — a reason is kept for rejections only */
+  updateReviewStatus(reviewId: number, status: Review['status'], rejectionReason?: string): Observable<Review> {
+    return this.updateReviewStatuses([reviewId], status, rejectionReason).pipe(map(([updated]) => updated));
+  }
+
+  /** Admin: apply the same decision to several reviews, then refresh their products' ratings */
+  updateReviewStatuses(reviewIds: number[], status: Review['status'], rejectionReason?: string): Observable<Review[]> {
+    if (reviewIds.length === 0) return of([]);
+    return forkJoin(reviewIds.map(id => this.repository.patch(id, {
+      status,
+      rejectionReason: status === 'rejected' ? rejectionReason : undefined,
+      moderatedAt: new Date().toISOString()
+    }))).pipe(
+      tap(updated => updated.forEach(review => this.replaceCached(review))),
+      switchMap(updated => this.syncRatings(updated.map(r => r.productId)).pipe(map(() => updated)))
+    );
   }
 
   // ── Delete ────────────────────────────────────────────────
 
+  /** Author: delete their own review */
+  deleteOwnReview(reviewId: number, userId: number): Observable<void> {
+    return this.repository.findById(reviewId).pipe(
+      switchMap(review => review.userId !== userId
+        ? throwError(() => ({ status: 403, error: 'You can only delete your own review.' }))
+        : this.removeReview(review))
+    );
+  }
+
   /** Admin: delete a review entirely */
   deleteReview(reviewId: number): Observable<void> {
-    const index = this.reviews.findIndex(r => r.id === reviewId);
-    if (index === -1) return throwError(() => ({ status: 404, error: 'Review not found' }));
-    this.reviews.splice(index, 1);
-    return of(undefined);
+    return this.repository.findById(reviewId).pipe(
+      switchMap(review => this.removeReview(review))
+    );
+  }
+
+  /** Delete a review, then re-rate its product if the review counted */
+  private removeReview(review: Review): Observable<void> {
+    return this.repository.delete(review.id).pipe(
+      tap(() => this.reviews = this.reviews.filter(r => r.id !== review.id)),
+      switchMap(() => review.status === 'approved' ? this.syncRatings([review.productId]) : of(null)),
+      map(() => undefined)
+    );
   }
 
   // ── Aggregations ──────────────────────────────────────────
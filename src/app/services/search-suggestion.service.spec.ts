@@ -0,0 +1,35 @@
+import { TestBed } from '@angular/core/testing';
+
+import { MAX_RECENT_SEARCHES, SearchSuggestionService, SearchSuggestions } from './search-suggestion.service';
+
+describe('SearchSuggestionService', () => {
+  let service: SearchSuggestionService;
+
+  beforeEach(() => {
+    localStorage.removeItem('recent_searches_guest');
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(SearchSuggestionService);
+    TestBed.flushEffects();
+  });
+
+  it('should suggest products and categories for a partial word', () => {
+    let suggestions: SearchSuggestions | undefined;
+    service.suggest('electr').subscribe(s => suggestions = s);
+    expect(suggestions?.categories).toEqual(['Electronics']);
+    expect(suggestions?.products.length).toBeGreaterThan(0);
+    expect(suggestions?.auctions.every(a => a.status === 'active')).toBeTrue();
+  });
+
+  it('should keep recent searches newest first without duplicates', () => {
+    service.addRecentSearch('lamp');
+    service.addRecentSearch('headphones');
+    service.addRecentSearch('Lamp');
+    expect(service.recentSearches()).toEqual(['Lamp', 'headphones']);
+  });
+
+  it('should cap the number of recent searches', () => {
+    for (let i = 0; i < MAX_RECENT_SEARCHES + 2; i++) service.addRecentSearch(`term ${i}`);
+    expect(service.recentSearches().length).toBe(MAX_RECENT_SEARCHES);
+    expect(service.recentSearches()[0]).toBe(`term ${MAX_RECENT_SEARCHES + 1}`);
+  });
+});
@@ -0,0 +1,114 @@
+// ============================================================
+// SEARCH SUGGESTION SERVICE — Navbar typeahead data
+// ============================================================
+// ANGULAR CONCEPTS:
+//
+// 1. Combining sources with forkJoin
+//    suggest() asks ProductService, the product categories and
+//    AuctionService at once and returns one SearchSuggestions
+//    object when all three have answered.
+//
+// 2. Per-user recent searches
+//    The last few submitted searches are kept in localStorage
+//    under a guest key or a per-user key, and swapped by an
+//    effect() when the user logs in or out — the same way
+//    CartService swaps carts.
+// ============================================================
+
+import { Injectable, computed, effect, signal } from '@angular/core';
+import { Observable, forkJoin, map } from 'rxjs';
+import { Auction, Product } from '../product.model';
+import { ProductService } from './product.service';
+import { AuctionService } from './auction.service';
+import { AuthService } from './auth.service';
+
+/** How many of each kind of suggestion to show */
+const MAX_PRODUCTS = 5;
+const MAX_CATEGORIES = 3;
+const MAX_AUCTIONS = 3;
+export const MAX_RECENT_SEARCHES = 5;
+
+// ── Storage keys ────────────────────────────────────────────
+const GUEST_RECENT_KEY = 'recent_searches_guest';
+
+function userRecentKey(userId: number): string {
+  return `recent_searches_${userId}`;
+}
+
+/** Everything the typeahead shows for one term */
+export interface SearchSuggestions {
+  products: Product[];
+  categories: string[];
+  auctions: Auction[];          // Live auctions only
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class SearchSuggestionService {
+
+  private recent = signal<string[]>([]);
+  private storageKey = GUEST_RECENT_KEY;
+
+  /** The current user's recent searches, newest first */
+  readonly recentSearches = computed(() => this.recent());
+
+  constructor(
+    private productService: ProductService,
+    private auctionService: AuctionService,
+    private authService: AuthService
+  ) {
+    // Load the right history when the user logs in or out
+    effect(() => {
+      const user = this.authService.currentUser();
+      this.storageKey = user ? userRecentKey(user.id) : GUEST_RECENT_KEY;
+      this.recent.set(this.readStored());
+    }, { allowSignalWrites: true });
+  }
+
+  /** Products, categories and live auctions matching a term */
+  suggest(term: string): Observable<SearchSuggestions> {
+    const lower = term.trim().toLowerCase();
+    return forkJoin({
+      products: this.productService.searchProducts(term),
+      categories: this.productService.getCategories(),
+      auctions: this.auctionService.searchAuctions(term.trim())
+    }).pipe(map(({ products, categories, auctions }) => ({
+      products: products.slice(0, MAX_PRODUCTS),
+      categories: categories.filter(c => c.toLowerCase().includes(lower)).slice(0, MAX_CATEGORIES),
+      auctions: auctions.filter(a => a.status === 'active').slice(0, MAX_AUCTIONS)
+    })));
+  }
+
+  // ── Recent searches ───────────────────────────────────────
+
+  /** Remember a search — moves it to the front if already there */
+  addRecentSearch(term: string): void {
+    const trimmed = term.trim();
+    if (!trimmed) return;
+    const others = this.recent().filter(t => t.toLowerCase() !== trimmed.toLowerCase());
+    this.save([trimmed, ...others].slice(0, MAX_RECENT_SEARCHES));
+  }
+
+  removeRecentSearch(term: string): void {
+    this.save(this.recent().filter(t => t !== term));
+  }
+
+  clearRecentSearches(): void {
+    this.save([]);
+  }
+
+  private save(terms: string[]): void {
+    this.recent.set(terms);
+    localStorage.setItem(this.storageKey, JSON.stringify(terms));
+  }
+
+  private readStored(): string[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.storageKey) ?? '[]');
+      return Array.isArray(stored) ? stored.filter(t => typeof t === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+}
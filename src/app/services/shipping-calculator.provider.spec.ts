@@ -0,0 +1,45 @@
+import { US_SHIPPING_RATES, ZoneRateShippingCalculator, deliveryWindow, unitWeight } from './shipping-calculator.provider';
+
+describe('ZoneRateShippingCalculator', () => {
+  const calculator = new ZoneRateShippingCalculator(US_SHIPPING_RATES);
+
+  it('should offer standard, expedited and overnight, cheapest first', () => {
+    const options = calculator.options([{ amount: 20, weight: 1 }], { state: 'IL', zip: '60601' });
+    expect(options.map(o => o.method)).toEqual(['standard', 'expedited', 'overnight']);
+    expect(options[0].cost).toBe(5.99);
+  });
+
+  it('should charge more for weight and distance', () => {
+    const near = calculator.options([{ amount: 20, weight: 1 }], { state: 'IL', zip: '60601' })[0];
+    const far = calculator.options([{ amount: 20, weight: 6 }], { state: 'CA', zip: '94103' })[0];
+    expect(far.cost).toBe(9.19);       // 5.99 + 4 lb × 0.50 + 3 zones × 0.40
+    expect(far.maxDays).toBeGreaterThan(near.maxDays);
+  });
+
+  it('should replace standard with free shipping over the threshold', () => {
+    const options = calculator.options([{ amount: 50, weight: 1 }], { state: 'NY', zip: '10001' });
+    expect(options[0].method).toBe('free');
+    expect(options[0].cost).toBe(0);
+    expect(options.some(o => o.method === 'standard')).toBeFalse();
+  });
+
+  it('should not ship free to remote states', () => {
+    const options = calculator.options([{ amount: 80, weight: 1 }], { state: 'HI', zip: '96813' });
+    expect(options[0].method).toBe('standard');
+    expect(options[0].cost).toBeGreaterThan(15);
+  });
+});
+
+describe('shipping helpers', () => {
+  it('should fall back to a category weight', () => {
+    expect(unitWeight({ weight: 0.3, category: 'Home' })).toBe(0.3);
+    expect(unitWeight({ category: 'Home' })).toBe(3);
+    expect(unitWeight({})).toBe(1);
+  });
+
+  it('should skip weekends in the delivery window', () => {
+    // Ordered Friday → ships Monday → 1 business day = Tuesday
+    const window = deliveryWindow({ minDays: 1, maxDays: 3 }, new Date(2026, 0, 2));
+    expect(window).toEqual({ earliest: '2026-01-06', latest: '2026-01-08' });
+  });
+});
@@ -0,0 +1,190 @@
+// ============================================================
+// SHIPPING CALCULATOR — Shipping options by weight and distance
+// ============================================================
+// ANGULAR CONCEPTS:
+//
+// 1. Abstract class as a DI contract
+//    OrderService depends on ShippingCalculator, never on a
+//    concrete rate source. SHIPPING_CALCULATOR decides which
+//    one is handed out — swap the factory for a carrier API
+//    adapter without touching the rest of the app.
+//
+// 2. Zones from ZIP codes
+//    ZoneRateShippingCalculator measures distance as the gap
+//    between the first ZIP digit of the warehouse and of the
+//    destination. Farther zones cost a little more and take
+//    longer by ground; AK/HI/PR add a remote surcharge.
+//
+// 3. Free shipping over a threshold
+//    Once the order value reaches the threshold, standard
+//    shipping is replaced by a free option with the same
+//    delivery window.
+// ============================================================
+
+import { InjectionToken } from '@angular/core';
+import { ShippingMethodId } from '../product.model';
+import { TaxDestination } from './tax-calculator.provider';
+
+/** Display names for the methods, e.g. on past orders */
+export const SHIPPING_METHOD_LABELS: Record<ShippingMethodId, string> = {
+  standard: 'Standard',
+  expedited: 'Expedited',
+  overnight: 'Overnight',
+  free: 'Free Standard'
+};
+
+/** One line to ship: its value and total weight in lb */
+export interface ShippableLine {
+  amount: number;
+  weight: number;
+}
+
+/** A shipping choice for a cart and destination */
+export interface ShippingOption {
+  method: ShippingMethodId;
+  label: string;
+  cost: number;
+  minDays: number;              // Business days after dispatch
+  maxDays: number;
+}
+
+/** Earliest and latest delivery dates (YYYY-MM-DD) */
+export interface DeliveryWindow {
+  earliest: string;
+  latest: string;
+}
+
+/** Pricing for one paid method */
+export interface ShippingRate {
+  base: number;                 // Covers includedWeight in zone 1
+  perLb: number;                // Each lb over includedWeight
+  perZone: number;              // Each zone beyond zone 1
+  minDays: number;
+  maxDays: number;
+  zoneDays: number;             // Extra day per this many zones (0 = none)
+}
+
+export interface ShippingRateTable {
+  originZip: string;            // Warehouse ZIP
+  freeThreshold: number;        // Order value that ships free
+  includedWeight: number;
+  remoteStates: string[];
+  remoteSurcharge: number;
+  remoteExtraDays: number;
+  methods: Record<Exclude<ShippingMethodId, 'free'>, ShippingRate>;
+}
+
+export abstract class ShippingCalculator {
+
+  /** Available options for the lines, cheapest first */
+  abstract options(lines: ShippableLine[], destination: TaxDestination): ShippingOption[];
+}
+
+// ── Helper: round to 2 decimal places ───────────────────────
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+// Used when a product has no weight on file
+const CATEGORY_WEIGHTS: Record<string, number> = {
+  Electronics: 1,
+  Clothing: 1.5,
+  Books: 1.5,
+  Home: 3
+};
+
+/** Shipping weight of one unit in lb */
+export function unitWeight(product: { weight?: number; category?: string }): number {
+  return product.weight ?? CATEGORY_WEIGHTS[product.category ?? ''] ?? 1;
+}
+
+/**
+ * Delivery dates for an option, counting business days from
+ * the next business day after `from` (when the order ships).
+ */
+export function deliveryWindow(option: Pick<ShippingOption, 'minDays' | 'maxDays'>, from: Date = new Date()): DeliveryWindow {
+  const dispatch = addBusinessDays(from, 1);
+  return {
+    earliest: toDateString(addBusinessDays(dispatch, option.minDays)),
+    latest: toDateString(addBusinessDays(dispatch, option.maxDays))
+  };
+}
+
+function addBusinessDays(from: Date, days: number): Date {
+  const date = new Date(from);
+  while (days > 0) {
+    date.setDate(date.getDate() + 1);
+    const day = date.getDay();
+    if (day !== 0 && day !== 6) days--;
+  }
+  return date;
+}
+
+function toDateString(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export class ZoneRateShippingCalculator extends ShippingCalculator {
+
+  constructor(private table: ShippingRateTable) {
+    super();
+  }
+
+  options(lines: ShippableLine[], destination: TaxDestination): ShippingOption[] {
+    const value = lines.reduce((sum, l) => sum + l.amount, 0);
+    const weight = lines.reduce((sum, l) => sum + l.weight, 0);
+    const zone = this.zone(destination.zip);
+    const remote = this.table.remoteStates.includes(destination.state);
+
+    const options = (Object.keys(this.table.methods) as Exclude<ShippingMethodId, 'free'>[]).map((method): ShippingOption => {
+      const rate = this.table.methods[method];
+      const extraWeight = Math.max(0, weight - this.table.includedWeight);
+      const extraDays = (rate.zoneDays ? Math.floor((zone - 1) / rate.zoneDays) : 0)
+        + (remote ? this.table.remoteExtraDays : 0);
+      return {
+        method,
+        label: SHIPPING_METHOD_LABELS[method],
+        cost: round2(rate.base + rate.perLb * extraWeight + rate.perZone * (zone - 1)
+          + (remote ? this.table.remoteSurcharge : 0)),
+        minDays: rate.minDays + extraDays,
+        maxDays: rate.maxDays + extraDays
+      };
+    });
+
+    if (value >= this.table.freeThreshold && !remote) {
+      const standard = options.find(o => o.method === 'standard')!;
+      options.splice(options.indexOf(standard), 1, {
+        ...standard, method: 'free', label: SHIPPING_METHOD_LABELS.free, cost: 0
+      });
+    }
+    return options.sort((a, b) => a.cost - b.cost);
+  }
+
+  /** 1 (same region as the warehouse) to 10 (opposite coast) */
+  private zone(zip: string): number {
+    return 1 + Math.abs(Number(zip[0]) - Number(this.table.originZip[0]));
+  }
+}
+
+// ── Default rates ───────────────────────────────────────────
+// Ships from Chicago. Demo data — not a real carrier's prices.
+export const US_SHIPPING_RATES: ShippingRateTable = {
+  originZip: '60601',
+  freeThreshold: 50,
+  includedWeight: 2,
+  remoteStates: ['AK', 'HI', 'PR'],
+  remoteSurcharge: 10,
+  remoteExtraDays: 2,
+  methods: {
+    standard:  { base: 5.99,  perLb: 0.5, perZone: 0.4, minDays: 3, maxDays: 5, zoneDays: 3 },
+    expedited: { base: 12.99, perLb: 1,   perZone: 0.9, minDays: 2, maxDays: 3, zoneDays: 5 },
+    overnight: { base: 29.99, perLb: 2,   perZone: 1.5, minDays: 1, maxDays: 1, zoneDays: 0 }
+  }
+};
+
+/** The shipping calculator used for checkout and orders */
+export const SHIPPING_CALCULATOR = new InjectionToken<ShippingCalculator>('SHIPPING_CALCULATOR', {
+  providedIn: 'root',
+  factory: () => new ZoneRateShippingCalculator(US_SHIPPING_RATES)
+});
@@ -0,0 +1,55 @@
+import { RateTableTaxCalculator, US_TAX_RATES, parseTaxDestination, toTaxDestination } from './tax-calculator.provider';
+
+describe('RateTableTaxCalculator', () => {
+  const calculator = new RateTableTaxCalculator(US_TAX_RATES);
+
+  it('should prefer the longest matching ZIP prefix over the state rate', () => {
+    const quote = calculator.quote([{ amount: 100 }], { state: 'CA', zip: '94103' });
+    expect(quote.rate).toBe(0.08625);
+    expect(quote.jurisdiction).toBe('San Francisco, CA');
+    expect(quote.tax).toBe(8.63);
+  });
+
+  it('should fall back to the state rate', () => {
+    const quote = calculator.quote([{ amount: 100 }], { state: 'CA', zip: '95814' });
+    expect(quote.rate).toBe(0.0725);
+    expect(quote.jurisdiction).toBe('California');
+  });
+
+  it('should ignore ZIP prefixes that belong to another state', () => {
+    const oregon = calculator.quote([{ amount: 100 }], { state: 'OR', zip: '10001' });
+    expect(oregon.rate).toBe(0);
+    expect(oregon.jurisdiction).toBe('Oregon');
+    const texas = calculator.quote([{ amount: 100 }], { state: 'TX', zip: '94103' });
+    expect(texas.rate).toBe(0.0625);
+    expect(texas.jurisdiction).toBe('Texas');
+  });
+
+  it('should skip exempt categories and round each line', () => {
+    const quote = calculator.quote(
+      [{ amount: 49.99, category: 'Clothing' }, { amount: 10.05, category: 'Electronics' }],
+      { state: 'PA', zip: '19103' }
+    );
+    expect(quote.lineTaxes).toEqual([0, 0.6]);
+    expect(quote.tax).toBe(0.6);
+  });
+
+  it('should charge nothing for an unknown state', () => {
+    const quote = calculator.quote([{ amount: 100 }], { state: 'ZZ', zip: '00000' });
+    expect(quote.tax).toBe(0);
+    expect(quote.jurisdiction).toContain('no rate on file');
+  });
+});
+
+describe('tax destinations', () => {
+  it('should require a 2-letter state and a 5-digit ZIP', () => {
+    expect(toTaxDestination({ state: 'tx', zip: '78701' })).toEqual({ state: 'TX', zip: '78701' });
+    expect(toTaxDestination({ state: 'Texas', zip: '78701' })).toBeNull();
+    expect(toTaxDestination({ state: 'TX', zip: '787' })).toBeNull();
+  });
+
+  it('should parse the stored order address format', () => {
+    expect(parseTaxDestination('123 Main St, Austin, TX 78701')).toEqual({ state: 'TX', zip: '78701' });
+    expect(parseTaxDestination('somewhere')).toBeNull();
+  });
+});
@@ -0,0 +1,218 @@
+// ============================================================
+// TAX CALCULATOR — Sales tax by destination
+// ============================================================
+// ANGULAR CONCEPTS:
+//
+// 1. Abstract class as a DI contract
+//    OrderService depends on TaxCalculator, never on a concrete
+//    rate source. TAX_CALCULATOR decides which one is handed
+//    out — swap the factory for a tax-service adapter without
+//    touching the rest of the app.
+//
+// 2. Rate table keyed by state / ZIP
+//    RateTableTaxCalculator looks up the state's base rate and
+//    lets ZIP prefixes override it with a combined local rate
+//    (longest prefix wins). Prefixes are listed under their
+//    state, so a ZIP that doesn't belong to the destination
+//    state never picks up another state's local rate.
+//
+// 3. Exempt categories + per-line rounding
+//    Each jurisdiction can exempt product categories (e.g.
+//    clothing in PA). Tax is rounded to the cent on every line
+//    and then summed, the way receipts show it.
+// ============================================================
+
+import { InjectionToken } from '@angular/core';
+
+/** One line to tax: price × quantity, plus its category */
+export interface TaxableLine {
+  amount: number;
+  category?: string;
+}
+
+/** Where the order ships — enough to pick a rate */
+export interface TaxDestination {
+  state: string;                // 2-letter code
+  zip: string;                  // 5 digits
+}
+
+/** Result of a tax calculation */
+export interface TaxQuote {
+  rate: number;                 // e.g. 0.08625
+  jurisdiction: string;         // e.g. "San Francisco, CA"
+  lineTaxes: number[];          // Per-line tax, same order as the input
+  tax: number;                  // Sum of lineTaxes
+}
+
+/** A rate for one jurisdiction */
+export interface TaxRate {
+  rate: number;
+  name: string;
+  exemptCategories?: string[];
+}
+
+/** States by 2-letter code; ZIP prefixes, grouped by state, override their state */
+export interface TaxRateTable {
+  states: Record<string, TaxRate>;
+  zipPrefixes: Record<string, Record<string, TaxRate>>;
+}
+
+export abstract class TaxCalculator {
+
+  /** Tax the lines for a destination */
+  abstract quote(lines: TaxableLine[], destination: TaxDestination): TaxQuote;
+}
+
+// ── Helper: round to 2 decimal places ───────────────────────
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * A usable tax destination from an address, or null if the
+ * state/ZIP aren't filled in (yet).
+ */
+export function toTaxDestination(address: { state?: string; zip?: string } | null): TaxDestination | null {
+  const state = (address?.state ?? '').trim().toUpperCase();
+  const zip = (address?.zip ?? '').trim();
+  return /^[A-Z]{2}$/.test(state) && /^\d{5}$/.test(zip) ? { state, zip } : null;
+}
+
+/** Parse "street, city, ST 12345" (how orders store addresses) */
+export function parseTaxDestination(address: string): TaxDestination | null {
+  const match = address.match(/,\s*([A-Za-z]{2})\s+(\d{5})\s*$/);
+  return match ? toTaxDestination({ state: match[1], zip: match[2] }) : null;
+}
+
+export class RateTableTaxCalculator extends TaxCalculator {
+
+  /**
+   * @param table             State and ZIP-prefix rates
+   * @param exemptCategories  Categories exempt everywhere (store policy)
+   */
+  constructor(
+    private table: TaxRateTable,
+    private exemptCategories: string[] = []
+  ) {
+    super();
+  }
+
+  quote(lines: TaxableLine[], destination: TaxDestination): TaxQuote {
+    const rate = this.lookup(destination);
+    const exempt = new Set([...this.exemptCategories, ...(rate.exemptCategories ?? [])]);
+
+    const lineTaxes = lines.map(line =>
+      line.category && exempt.has(line.category) ? 0 : round2(line.amount * rate.rate)
+    );
+    return {
+      rate: rate.rate,
+      jurisdiction: rate.name,
+      lineTaxes,
+      tax: round2(lineTaxes.reduce((sum, t) => sum + t, 0))
+    };
+  }
+
+  private lookup(destination: TaxDestination): TaxRate {
+    const state = this.table.states[destination.state];
+    const prefixes = this.table.zipPrefixes[destination.state] ?? {};
+
+    for (let length = destination.zip.length; length > 0; length--) {
+      const local = prefixes[destination.zip.slice(0, length)];
+      if (local) {
+        // Local rates keep the state's exemptions unless they set their own
+        return { exemptCategories: state?.exemptCategories, ...local };
+      }
+    }
+    return state ?? { rate: 0, name: `${destination.state} (no rate on file)` };
+  }
+}
+
+// ── US rate table ───────────────────────────────────────────
+// State base rates plus combined rates for a few large cities.
+// Demo data — not for real tax filing.
+const CLOTHING_EXEMPT = ['Clothing'];
+
+export const US_TAX_RATES: TaxRateTable = {
+  states: {
+    AL: { rate: 0.04, name: 'Alabama' },
+    AK: { rate: 0, name: 'Alaska' },
+    AZ: { rate: 0.056, name: 'Arizona' },
+    AR: { rate: 0.065, name: 'Arkansas' },
+    CA: { rate: 0.0725, name: 'California' },
+    CO: { rate: 0.029, name: 'Colorado' },
+    CT: { rate: 0.0635, name: 'Connecticut' },
+    DE: { rate: 0, name: 'Delaware' },
+    DC: { rate: 0.06, name: 'District of Columbia' },
+    FL: { rate: 0.06, name: 'Florida' },
+    GA: { rate: 0.04, name: 'Georgia' },
+    HI: { rate: 0.04, name: 'Hawaii' },
+    ID: { rate: 0.06, name: 'Idaho' },
+    IL: { rate: 0.0625, name: 'Illinois' },
+    IN: { rate: 0.07, name: 'Indiana' },
+    IA: { rate: 0.06, name: 'Iowa' },
+    KS: { rate: 0.065, name: 'Kansas' },
+    KY: { rate: 0.06, name: 'Kentucky' },
+    LA: { rate: 0.0445, name: 'Louisiana' },
+    ME: { rate: 0.055, name: 'Maine' },
+    MD: { rate: 0.06, name: 'Maryland' },
+    MA: { rate: 0.0625, name: 'Massachusetts' },
+    MI: { rate: 0.06, name: 'Michigan' },
+    MN: { rate: 0.06875, name: 'Minnesota', exemptCategories: CLOTHING_EXEMPT },
+    MS: { rate: 0.07, name: 'Mississippi' },
+    MO: { rate: 0.04225, name: 'Missouri' },
+    MT: { rate: 0, name: 'Montana' },
+    NE: { rate: 0.055, name: 'Nebraska' },
+    NV: { rate: 0.0685, name: 'Nevada' },
+    NH: { rate: 0, name: 'New Hampshire' },
+    NJ: { rate: 0.06625, name: 'New Jersey', exemptCategories: CLOTHING_EXEMPT },
+    NM: { rate: 0.04875, name: 'New Mexico' },
+    NY: { rate: 0.04, name: 'New York' },
+    NC: { rate: 0.0475, name: 'North Carolina' },
+    ND: { rate: 0.05, name: 'North Dakota' },
+    OH: { rate: 0.0575, name: 'Ohio' },
+    OK: { rate: 0.045, name: 'Oklahoma' },
+    OR: { rate: 0, name: 'Oregon' },
+    PA: { rate: 0.06, name: 'Pennsylvania', exemptCategories: CLOTHING_EXEMPT },
+    RI: { rate: 0.07, name: 'Rhode Island' },
+    SC: { rate: 0.06, name: 'South Carolina' },
+    SD: { rate: 0.042, name: 'South Dakota' },
+    TN: { rate: 0.07, name: 'Tennessee' },
+    TX: { rate: 0.0625, name: 'Texas' },
+    UT: { rate: 0.061, name: 'Utah' },
+    VT: { rate: 0.06, name: 'Vermont', exemptCategories: CLOTHING_EXEMPT },
+    VA: { rate: 0.053, name: 'Virginia' },
+    WA: { rate: 0.065, name: 'Washington' },
+    WV: { rate: 0.06, name: 'West Virginia' },
+    WI: { rate: 0.05, name: 'Wisconsin' },
+    WY: { rate: 0.04, name: 'Wyoming' }
+  },
+  zipPrefixes: {
+    CA: {
+      '900': { rate: 0.095, name: 'Los Angeles, CA' },
+      '902': { rate: 0.095, name: 'Los Angeles County, CA' },
+      '941': { rate: 0.08625, name: 'San Francisco, CA' }
+    },
+    NY: {
+      '100': { rate: 0.08875, name: 'New York City, NY' },
+      '101': { rate: 0.08875, name: 'New York City, NY' },
+      '102': { rate: 0.08875, name: 'New York City, NY' }
+    },
+    IL: {
+      '606': { rate: 0.1025, name: 'Chicago, IL' },
+      '627': { rate: 0.0975, name: 'Springfield, IL' }
+    },
+    TX: {
+      '770': { rate: 0.0825, name: 'Houston, TX' },
+      '787': { rate: 0.0825, name: 'Austin, TX' }
+    },
+    WA: {
+      '981': { rate: 0.1035, name: 'Seattle, WA' }
+    }
+  }
+};
+
+/** The tax calculator used for estimates and orders */
+export const TAX_CALCULATOR = new InjectionToken<TaxCalculator>('TAX_CALCULATOR', {
+  providedIn: 'root',
+  factory: () => new RateTableTaxCalculator(US_TAX_RATES)
+});
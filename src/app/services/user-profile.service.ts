@@ -1,6 +1,7 @@
 import { Injectable, signal, computed, effect } from '@angular/core';
 import { AuthService } from './auth.service';
-import { User, UserProfile } from '../product.model';
+import { PaymentMethodService } from './payment-method.service';
+import { PostalAddress, SavedAddress, User, UserProfile } from '../product.model';
 
 // ── Default profile for admin accounts ──────────────────────
 // Pre-filled so admins can test checkout immediately.
@@ -8,14 +9,22 @@ const ADMIN_DEFAULT_PROFILE: Omit<UserProfile, 'userId'> = {
   firstName: 'Admin',
   lastName: 'User',
   email: 'admin@shopng.com',
-  shippingAddress: '100 Commerce Blvd',
-  shippingCity: 'San Francisco',
-  shippingState: 'CA',
-  shippingZip: '94102',
+  addresses: [{
+    id: 1,
+    label: 'Office',
+    street: '100 Commerce Blvd',
+    city: 'San Francisco',
+    state: 'CA',
+    zip: '94102',
+    isDefault: true
+  }]
+};
+
+// Test card tokenized into the admin's saved cards on first load
+const ADMIN_DEFAULT_CARD = {
   cardName: 'Admin User',
   cardNumber: '4111111111111111',
-  cardExpiry: '12/28',
-  cardCvv: '999'
+  expiry: '12/28'
 };
 
 @Injectable({
@@ -31,7 +40,20 @@ export class UserProfileService {
   /** Whether a profile exists */
   readonly hasProfile = computed(() => this.profileSignal() !== null);
 
-  constructor(private authService: AuthService) {
+  /** Address book, default first */
+  readonly addresses = computed(() =>
+    [...(this.profileSignal()?.addresses ?? [])].sort((a, b) => Number(b.isDefault) - Number(a.isDefault))
+  );
+
+  /** The address checkout pre-selects */
+  readonly defaultAddress = computed(() =>
+    this.profileSignal()?.addresses.find(a => a.isDefault) ?? null
+  );
+
+  constructor(
+    private authService: AuthService,
+    private paymentMethods: PaymentMethodService
+  ) {
     // Automatically load/clear profile when auth state changes
     effect(() => {
       const user = this.authService.currentUser();
@@ -40,7 +62,7 @@ export class UserProfileService {
       } else {
         this.clearProfile();
       }
-    });
+    }, { allowSignalWrites: true });
   }
 
   // ── Load Profile ────────────────────────────────────────────
@@ -52,7 +74,8 @@ export class UserProfileService {
 
     if (stored) {
       try {
-        this.profileSignal.set(JSON.parse(stored));
+        const profile = this.migrateLegacyAddress(this.migrateLegacyCard(user.id, JSON.parse(stored)));
+        this.profileSignal.set(profile);
         return;
       } catch {
         localStorage.removeItem(key);
@@ -68,6 +91,7 @@ export class UserProfileService {
       this.profileSignal.set(adminProfile);
       // Save the defaults so they persist
       localStorage.setItem(key, JSON.stringify(adminProfile));
+      this.paymentMethods.importLegacyCard(user.id, ADMIN_DEFAULT_CARD).subscribe();
     } else {
       // Regular user with no saved profile — start with null
       this.profileSignal.set(null);
@@ -82,6 +106,108 @@ export class UserProfileService {
     localStorage.setItem(key, JSON.stringify(profile));
   }
 
+  // ── Legacy Card Migration ───────────────────────────────────
+  // Profiles saved before tokenization held cardNumber/cardCvv
+  // in plain text. Tokenize the card into a saved card, then
+  // rewrite the profile without any card fields.
+  private migrateLegacyCard(userId: number, stored: any): UserProfile {
+    const { cardName, cardNumber, cardExpiry, cardCvv, ...profile } = stored;
+
+    if (cardNumber !== undefined || cardCvv !== undefined) {
+      if (cardNumber && cardExpiry) {
+        this.paymentMethods.importLegacyCard(userId, {
+          cardName: cardName ?? '',
+          cardNumber,
+          expiry: cardExpiry
+        }).subscribe({ error: () => {} });   // Invalid/expired cards are simply dropped
+      }
+      localStorage.setItem(`user_profile_${userId}`, JSON.stringify(profile));
+    }
+    return profile;
+  }
+
+  // ── Legacy Address Migration ────────────────────────────────
+  // Profiles saved before the address book had one flat
+  // shippingAddress/City/State/Zip. Turn it into a "Home" entry.
+  private migrateLegacyAddress(stored: any): UserProfile {
+    if (Array.isArray(stored.addresses)) return stored;
+
+    const { shippingAddress, shippingCity, shippingState, shippingZip, ...profile } = stored;
+    const migrated: UserProfile = { ...profile, addresses: toAddressBook(stored) };
+    localStorage.setItem(`user_profile_${migrated.userId}`, JSON.stringify(migrated));
+    return migrated;
+  }
+
+  /** Read any user's address book (admin view) without loading their profile */
+  addressesFor(userId: number): SavedAddress[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(`user_profile_${userId}`) ?? 'null');
+      return stored ? toAddressBook(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  // ── Address Book ────────────────────────────────────────────
+  // Add (no id) or update (with id) an address. The first
+  // address saved becomes the default automatically. Creates
+  // the profile from the logged-in user if there isn't one yet.
+  saveAddress(address: Omit<SavedAddress, 'id'> & { id?: number }): SavedAddress {
+    const profile = this.profileOrNew();
+    const id = address.id ?? Math.max(0, ...profile.addresses.map(a => a.id)) + 1;
+
+    let addresses = address.id === undefined
+      ? [...profile.addresses, { ...address, id }]
+      : profile.addresses.map(a => a.id === id ? { ...address, id } : a);
+    if (address.isDefault) {
+      addresses = addresses.map(a => ({ ...a, isDefault: a.id === id }));
+    }
+    addresses = this.ensureDefault(addresses);
+
+    this.saveProfile({ ...profile, addresses });
+    return addresses.find(a => a.id === id)!;
+  }
+
+  /** Remove an address; the next one takes over as default */
+  deleteAddress(id: number): void {
+    const profile = this.profileSignal();
+    if (!profile) return;
+    const addresses = profile.addresses.filter(a => a.id !== id);
+    this.saveProfile({ ...profile, addresses: this.ensureDefault(addresses) });
+  }
+
+  setDefaultAddress(id: number): void {
+    const profile = this.profileSignal();
+    if (!profile) return;
+    this.saveProfile({
+      ...profile,
+      addresses: profile.addresses.map(a => ({ ...a, isDefault: a.id === id }))
+    });
+  }
+
+  // Exactly one default whenever there is at least one address
+  private ensureDefault(addresses: SavedAddress[]): SavedAddress[] {
+    if (addresses.length === 0 || addresses.some(a => a.isDefault)) return addresses;
+    return addresses.map((a, i) => i === 0 ? { ...a, isDefault: true } : a);
+  }
+
+  private profileOrNew(): UserProfile {
+    const profile = this.profileSignal();
+    if (profile) return profile;
+
+    const user = this.authService.currentUser();
+    if (!user) {
+      throw new Error('The address book requires a logged-in user');
+    }
+    return {
+      userId: user.id,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      email: user.email,
+      addresses: []
+    };
+  }
+
   // ── Clear Profile ───────────────────────────────────────────
   // Resets in-memory state on logout. localStorage is kept
   // intact so the profile loads again on next login.
@@ -89,3 +215,23 @@ export class UserProfileService {
     this.profileSignal.set(null);
   }
 }
+
+/** One-line shipping address, as stored on orders */
+export function formatAddress(address: PostalAddress): string {
+  return `${address.street}, ${address.city}, ${address.state} ${address.zip}`;
+}
+
+// Address book from a stored profile, old flat shape or new
+function toAddressBook(stored: any): SavedAddress[] {
+  if (Array.isArray(stored.addresses)) return stored.addresses;
+  if (!stored.shippingAddress) return [];
+  return [{
+    id: 1,
+    label: 'Home',
+    street: stored.shippingAddress,
+    city: stored.shippingCity ?? '',
+    state: stored.shippingState ?? '',
+    zip: stored.shippingZip ?? '',
+    isDefault: true
+  }];
+}
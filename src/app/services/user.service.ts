@@ -1,5 +1,5 @@
 // ============================================================
-// USER SERVICE — In-memory user management for admin panel
+// USER SERVICE — User management for the admin panel
 // ============================================================
 // ANGULAR CONCEPTS:
 //
@@ -8,9 +8,9 @@
 //    the OrderService seed data so numbers are consistent.
 //
 // 2. Status toggling
-//    Admins can suspend or reactivate user accounts.
-//    This demonstrates in-memory state mutation returned
-//    as Observables.
+//    Admins can suspend or reactivate user accounts. Changes
+//    go through the user repository (in-memory or HTTP, per
+//    environment.dataSources.users).
 //
 // 3. Privacy by design
 //    The service deliberately EXCLUDES payment information.
@@ -18,9 +18,14 @@
 //    history — but never card numbers or CVVs.
 // ============================================================
 
-import { Injectable } from '@angular/core';
-import { Observable, of, throwError } from 'rxjs';
+import { Inject, Injectable, InjectionToken, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, map, switchMap, tap } from 'rxjs';
 import { AdminUser } from '../product.model';
+import { environment } from '../environments/environment';
+import { Repository } from '../repositories/repository';
+import { InMemoryRepository } from '../repositories/in-memory.repository';
+import { HttpRepository, HttpMapper } from '../repositories/http.repository';
 
 const SEED_USERS: AdminUser[] = [
   {
@@ -80,48 +85,88 @@ const SEED_USERS: AdminUser[] = [
   }
 ];
 
+// ── API row mapping ─────────────────────────────────────────
+// The users table has no order stats; default them.
+export const USER_MAPPER: HttpMapper<AdminUser> = {
+  fromApi: row => ({
+    id: row.id,
+    email: row.email,
+    firstName: row.first_name ?? row.firstName,
+    lastName: row.last_name ?? row.lastName,
+    role: row.role,
+    status: row.status || 'active',
+    registeredAt: row.created_at ?? row.registeredAt,
+    orderCount: Number(row.orderCount ?? 0),
+    totalSpent: Number(row.totalSpent ?? 0)
+  }),
+  toApi: user => ({ firstName: user.firstName, lastName: user.lastName, role: user.role, status: user.status })
+};
+
+/** Repository behind UserService — memory or HTTP per environment.dataSources */
+export const USER_REPOSITORY = new InjectionToken<Repository<AdminUser>>('USER_REPOSITORY', {
+  providedIn: 'root',
+  factory: () => environment.dataSources.users === 'http'
+    ? new HttpRepository<AdminUser>(inject(HttpClient), `${environment.apiUrl}/users`, USER_MAPPER)
+    : new InMemoryRepository<AdminUser>(SEED_USERS, 'User')
+});
+
 @Injectable({ providedIn: 'root' })
 export class UserService {
 
-  private users: AdminUser[] = SEED_USERS.map(u => ({ ...u }));
+  // Last snapshot read from the repository. Backs the
+  // synchronous dashboard aggregations.
+  private users: AdminUser[] = [];
+
+  constructor(@Inject(USER_REPOSITORY) private repository: Repository<AdminUser>) {
+    this.load().subscribe({ error: () => {} });
+  }
+
+  private load(): Observable<AdminUser[]> {
+    return this.repository.findAll().pipe(
+      tap(users => this.users = users)
+    );
+  }
 
   // ── Read ──────────────────────────────────────────────────
 
   /** Get all users (admin) */
   getAllUsers(): Observable<AdminUser[]> {
-    return of([...this.users].sort((a, b) =>
+    return this.load().pipe(map(users => [...users].sort((a, b) =>
       new Date(b.registeredAt).getTime() - new Date(a.registeredAt).getTime()
-    ));
+    )));
   }
 
   /** Get a single user by ID */
   getUserById(id: number): Observable<AdminUser> {
-    const user = this.users.find(u => u.id === id);
-    if (!user) return throwError(() => ({ status: 404, error: 'User not found' }));
-    return of({ ...user });
+    return this.repository.findById(id);
   }
 
   /** Search users by name or email */
   searchUsers(term: string): Observable<AdminUser[]> {
     const lower = term.toLowerCase();
-    const results = this.users.filter(u =>
+    return this.load().pipe(map(users => users.filter(u =>
       u.email.toLowerCase().includes(lower) ||
       u.firstName.toLowerCase().includes(lower) ||
       u.lastName.toLowerCase().includes(lower) ||
       u.role.toLowerCase().includes(lower) ||
       u.status.toLowerCase().includes(lower)
-    );
-    return of(results);
+    )));
   }
 
   // ── Update ────────────────────────────────────────────────
 
   /** Toggle user account status (active ↔ suspended) */
   toggleUserStatus(id: number): Observable<AdminUser> {
-    const index = this.users.findIndex(u => u.id === id);
-    if (index === -1) return throwError(() => ({ status: 404, error: 'User not found' }));
-    this.users[index].status = this.users[index].status === 'active' ? 'suspended' : 'active';
-    return of({ ...this.users[index] });
+    return this.repository.findById(id).pipe(
+      switchMap(user => this.repository.update({
+        ...user,
+        status: user.status === 'active' ? 'suspended' : 'active'
+      })),
+      tap(updated => {
+        const index = this.users.findIndex(u => u.id === updated.id);
+        if (index !== -1) this.users[index] = updated;
+      })
+    );
   }
 
   // ── Aggregations (for dashboard) ──────────────────────────